@@ -1,34 +1,50 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { sanitizeError } from '@/lib/utils/validation';
+import { sanitizeError, validateEmail } from '@/lib/utils/validation';
+import { apiError, apiRateLimitError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  getRateLimitStore,
+  loginLockoutMessage,
+  recordFailedLogin,
+} from '@/lib/utils/rateLimit';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { credentialsBodySchema } from '@/lib/utils/routeSchemas';
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
 
     // Validate input
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required' },
-        { status: 400 }
-      );
+    const parsed = parseBody(credentialsBodySchema, body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
     }
 
+    const { email, password } = parsed.data;
+
     // Basic email format validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (typeof email !== 'string' || !emailRegex.test(email.trim())) {
-      return NextResponse.json(
-        { error: 'Invalid email format' },
-        { status: 400 }
-      );
+    const emailError = validateEmail(email);
+    if (emailError) {
+      return apiValidationError(request, emailError, 'email');
+    }
+
+    // Validate password is not blank
+    if (password.trim().length === 0) {
+      return apiValidationError(request, 'Password is required', 'password');
     }
 
-    // Validate password is not empty and is a string
-    if (typeof password !== 'string' || password.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Password is required' },
-        { status: 400 }
-      );
+    // Progressive lockout: locked emails are refused without checking the password
+    const rateLimitStore = getRateLimitStore();
+    const lockedForSeconds = await getLoginLockout(rateLimitStore, email);
+    if (lockedForSeconds !== null) {
+      return apiRateLimitError(request, lockedForSeconds, loginLockoutMessage(lockedForSeconds));
     }
 
     const supabase = await createClient();
@@ -40,25 +56,28 @@ export async function POST(request: NextRequest) {
     if (error) {
       // Log detailed error server-side only
       console.error('Auth error:', error);
+
+      // Only wrong credentials count towards a lockout, not outages or Supabase's own throttling
+      if (error.status === 400) {
+        const lockoutSeconds = await recordFailedLogin(rateLimitStore, email);
+        if (lockoutSeconds !== null) {
+          return apiRateLimitError(request, lockoutSeconds, loginLockoutMessage(lockoutSeconds));
+        }
+      }
       // Use generic error message to prevent information leakage
       // (e.g., "Invalid login credentials" vs "Email not found" vs "Wrong password")
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
+      return apiError(request, 'UNAUTHORIZED', 'Invalid email or password');
     }
 
+    await clearFailedLogins(rateLimitStore, email);
+
     if (!data?.user) {
-      return NextResponse.json(
-        { error: 'Authentication failed' },
-        { status: 401 }
-      );
+      return apiError(request, 'UNAUTHORIZED', 'Authentication failed');
     }
 
     // Don't send sensitive user data in response
     const { id, email: userEmail, created_at } = data.user;
-    return NextResponse.json({
-      success: true,
+    return apiSuccess(request, {
       user: {
         id,
         email: userEmail,
@@ -69,10 +88,7 @@ export async function POST(request: NextRequest) {
     // Log detailed error server-side only
     console.error('Login error:', error);
     const errorMessage = sanitizeError(error, 'An error occurred during login');
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+    return apiError(request, 'INTERNAL', errorMessage);
   }
 }
 
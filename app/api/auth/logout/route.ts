@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSuccess } from '@/lib/utils/apiResponse';
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,15 +9,12 @@ export async function POST(request: NextRequest) {
     // Sign out regardless of authentication state (idempotent operation)
     await supabase.auth.signOut();
 
-    return NextResponse.json({ success: true });
+    return apiSuccess(request, null);
   } catch (error) {
     // Log detailed error server-side only
     console.error('Logout error:', error);
     const errorMessage = sanitizeError(error, 'An error occurred during logout');
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+    return apiError(request, 'INTERNAL', errorMessage);
   }
 }
 
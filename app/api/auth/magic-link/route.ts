@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { sanitizeError, validateEmail } from '@/lib/utils/validation';
+import { getSiteUrl } from '@/lib/utils/env';
+import { apiError, apiRateLimitError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { emailBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/auth/magic-link
+ *
+ * POST emails a passwordless sign-in link for `{ email }`. The link lands on /auth/callback,
+ * which signs the user in. Only existing accounts get a link (sign up creates accounts), but the
+ * response is the same either way, so it never reveals whether an email is registered.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const parsed = parseBody(emailBodySchema, body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const emailError = validateEmail(parsed.data.email);
+    if (emailError) {
+      return apiValidationError(request, emailError, 'email');
+    }
+
+    const supabase = await createClient();
+    const { error } = await supabase.auth.signInWithOtp({
+      email: parsed.data.email.trim().toLowerCase(),
+      options: {
+        emailRedirectTo: `${getSiteUrl()}/auth/callback`,
+        shouldCreateUser: false,
+      },
+    });
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Magic link error:', error);
+
+      if (error.status === 429) {
+        return apiRateLimitError(request, 60, 'Please wait a minute before requesting another link');
+      }
+      // Unknown emails also fail here; answering as for a sent link prevents account enumeration
+    }
+
+    return apiSuccess(request, {
+      message: 'If an account exists for this email, a sign-in link is on its way.',
+    });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Magic link error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while sending the sign-in link');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { sanitizeError, validateEmail } from '@/lib/utils/validation';
+import { getSiteUrl } from '@/lib/utils/env';
+import { apiError, apiRateLimitError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { emailBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/auth/password/reset-request
+ *
+ * POST emails a password reset link for `{ email }`. The link lands on /auth/callback, which
+ * signs the user in for the reset and sends them on to /auth/reset-password to choose a new
+ * password. The response is the same whether or not the email is registered.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const parsed = parseBody(emailBodySchema, body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const emailError = validateEmail(parsed.data.email);
+    if (emailError) {
+      return apiValidationError(request, emailError, 'email');
+    }
+
+    const supabase = await createClient();
+    const { error } = await supabase.auth.resetPasswordForEmail(parsed.data.email.trim().toLowerCase(), {
+      redirectTo: `${getSiteUrl()}/auth/callback?next=/auth/reset-password`,
+    });
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Password reset request error:', error);
+
+      if (error.status === 429) {
+        return apiRateLimitError(request, 60, 'Please wait a minute before requesting another link');
+      }
+      // Answering as for a sent link prevents account enumeration
+    }
+
+    return apiSuccess(request, {
+      message: 'If an account exists for this email, a password reset link is on its way.',
+    });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Password reset request error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while sending the reset link');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+}
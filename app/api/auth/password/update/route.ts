@@ -0,0 +1,132 @@
+import { NextRequest } from 'next/server';
+import { isRecentRecoverySession, sanitizeError, validatePasswordUpdate, withAuth } from '@/lib/utils/validation';
+import { apiError, apiRateLimitError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  getRateLimitStore,
+  loginLockoutMessage,
+  recordFailedLogin,
+} from '@/lib/utils/rateLimit';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { passwordUpdateBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/auth/password/update
+ *
+ * POST sets a new password for the signed-in user. Two forms use it:
+ * - /auth/reset-password, signed in by the emailed reset link, sends only `password`
+ * - the change-password form on Settings also sends `currentPassword`, which is checked first
+ *
+ * `currentPassword` may only be left out by a session a reset link signed in within the last
+ * RECOVERY_SESSION_MAX_AGE_SECONDS; otherwise a stolen session cookie could take over the account.
+ * Checking `currentPassword` counts towards the same lockout as /api/auth/login (LOGIN_LOCKOUT),
+ * for both the user id and the email, so this route can't be used to guess it.
+ *
+ * Requires a cookie session; API tokens can't change passwords.
+ */
+export const POST = withAuth(
+  async (request: NextRequest, { user, supabase }) => {
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return apiValidationError(request, 'Invalid JSON body');
+      }
+
+      const parsed = parseBody(passwordUpdateBodySchema, body);
+      if (parsed.error !== null) {
+        return apiSchemaError(request, parsed);
+      }
+
+      const { password, currentPassword } = parsed.data;
+      const validationError = validatePasswordUpdate(password, currentPassword);
+      if (validationError) {
+        return apiValidationError(request, validationError, 'password');
+      }
+
+      if (currentPassword === undefined) {
+        const { data: claims } = await supabase.auth.getClaims();
+
+        if (!isRecentRecoverySession(claims?.claims.amr)) {
+          return apiValidationError(
+            request,
+            'Enter your current password, or request a new reset link if you forgot it',
+            'currentPassword'
+          );
+        }
+      } else {
+        const rateLimitStore = getRateLimitStore();
+        const accounts = user.email ? [user.id, user.email] : [user.id];
+
+        // Locked accounts are refused without checking the password, as on sign-in
+        let lockedForSeconds = 0;
+        for (const account of accounts) {
+          lockedForSeconds = Math.max(lockedForSeconds, (await getLoginLockout(rateLimitStore, account)) ?? 0);
+        }
+        if (lockedForSeconds > 0) {
+          return apiRateLimitError(request, lockedForSeconds, loginLockoutMessage(lockedForSeconds));
+        }
+
+        // Signing in again as the same user only refreshes the session
+        const { error: signInError } = await supabase.auth.signInWithPassword({
+          email: user.email ?? '',
+          password: currentPassword,
+        });
+
+        if (signInError) {
+          // Log detailed error server-side only
+          console.error('Password update sign-in error:', signInError);
+
+          if (signInError.status === 429) {
+            return apiRateLimitError(request, 60, 'Too many attempts. Please try again later.');
+          }
+
+          // Wrong passwords count towards the lockout, like failed sign-ins
+          if (signInError.status === 400) {
+            let lockoutSeconds = 0;
+            for (const account of accounts) {
+              lockoutSeconds = Math.max(lockoutSeconds, (await recordFailedLogin(rateLimitStore, account)) ?? 0);
+            }
+            if (lockoutSeconds > 0) {
+              return apiRateLimitError(request, lockoutSeconds, loginLockoutMessage(lockoutSeconds));
+            }
+          }
+          return apiValidationError(request, 'Current password is incorrect', 'currentPassword');
+        }
+
+        for (const account of accounts) {
+          await clearFailedLogins(rateLimitStore, account);
+        }
+      }
+
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Supabase password update error:', error);
+
+        // Map the errors users can act on; anything else stays generic
+        if (error.code === 'same_password') {
+          return apiValidationError(request, 'New password must be different from your current password', 'password');
+        }
+        if (error.code === 'weak_password') {
+          return apiValidationError(request, 'Password does not meet requirements', 'password');
+        }
+        if (error.status === 429) {
+          return apiRateLimitError(request, 60, 'Too many attempts. Please try again later.');
+        }
+        return apiError(request, 'INTERNAL', 'Failed to update password');
+      }
+
+      return apiSuccess(request, { message: 'Your password has been updated.' });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Password update error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while updating the password');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
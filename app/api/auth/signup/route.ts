@@ -1,19 +1,30 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { sanitizeError, validateSignupCredentials } from '@/lib/utils/validation';
 import { getSiteUrl } from '@/lib/utils/env';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { credentialsBodySchema } from '@/lib/utils/routeSchemas';
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
 
     // Validate input
+    const parsed = parseBody(credentialsBodySchema, body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const { email, password } = parsed.data;
     const validationError = validateSignupCredentials(email, password);
     if (validationError) {
-      return NextResponse.json(
-        { error: validationError },
-        { status: 400 }
-      );
+      return apiValidationError(request, validationError);
     }
 
     const supabase = await createClient();
@@ -41,17 +52,11 @@ export async function POST(request: NextRequest) {
         errorMessage = 'Invalid email address';
       }
       
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: 400 }
-      );
+      return apiValidationError(request, errorMessage);
     }
 
     if (!data.user) {
-      return NextResponse.json(
-        { error: 'Failed to create user' },
-        { status: 500 }
-      );
+      return apiError(request, 'INTERNAL', 'Failed to create user');
     }
 
     // Check if email confirmation is required
@@ -60,8 +65,7 @@ export async function POST(request: NextRequest) {
     // Don't send sensitive user data in response
     const { id, email: userEmail, created_at, email_confirmed_at } = data.user;
     
-    return NextResponse.json({
-      success: true,
+    return apiSuccess(request, {
       user: {
         id,
         email: userEmail,
@@ -78,10 +82,7 @@ export async function POST(request: NextRequest) {
     // Log detailed error server-side only
     console.error('Signup error:', error);
     const errorMessage = sanitizeError(error, 'An error occurred during signup');
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+    return apiError(request, 'INTERNAL', errorMessage);
   }
 }
 
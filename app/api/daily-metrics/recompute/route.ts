@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { countDays, listDates } from '@/lib/utils/dateRange';
+import { MAX_RECOMPUTE_DAYS, recomputeDailyMetrics } from '@/lib/utils/dailyMetricsRollup';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { recomputeDailyMetricsBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/daily-metrics/recompute
+ *
+ * POST rebuilds the active workspace's daily_metrics from its posts for
+ * `{ startDate, endDate, timezone? }` (YYYY-MM-DD, inclusive, at most MAX_RECOMPUTE_DAYS days).
+ *
+ * Posts are bucketed by posted_at in the workspace's timezone, which every member's incremental
+ * recomputes (on post create, update, delete and import) use too. The timezone only changes
+ * through PATCH /api/workspace, which rebuilds every day at once; a `timezone` other than the
+ * workspace's is rejected (400 VALIDATION_FAILED) rather than mixing boundaries.
+ *
+ * Responds with `{ success, data: { days, timezone }, requestId }`.
+ */
+export const POST = withAuth(async (request: NextRequest, { supabase, workspace }) => {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const parsed = parseBody(recomputeDailyMetricsBodySchema, body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const { startDate, endDate, timezone: requestedTimeZone } = parsed.data;
+
+    if (startDate > endDate) {
+      return apiValidationError(request, 'Invalid date range: startDate must be before or equal to endDate', 'startDate');
+    }
+
+    if (countDays(startDate, endDate) > MAX_RECOMPUTE_DAYS) {
+      return apiValidationError(request, `A single recompute is limited to ${MAX_RECOMPUTE_DAYS} days`, 'endDate');
+    }
+
+    // Rows of one workspace all use its timezone; a range in another would mix day boundaries
+    if (requestedTimeZone && requestedTimeZone !== workspace.timezone) {
+      return apiValidationError(
+        request,
+        `This workspace's daily metrics use ${workspace.timezone}; change it in the workspace settings`,
+        'timezone'
+      );
+    }
+
+    const { data, error } = await recomputeDailyMetrics(supabase, workspace.id, listDates(startDate, endDate));
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Daily metrics recompute error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to recompute daily metrics');
+    }
+
+    return apiSuccess(request, { days: data, timezone: workspace.timezone });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Daily metrics recompute API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while recomputing daily metrics');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/utils/openapi';
+
+/**
+ * Next.js API Route: /api/openapi.json
+ *
+ * GET returns the OpenAPI 3.1 document describing every API route (see lib/utils/openapi.ts),
+ * with this deployment as the server. Public, like /docs which renders it.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from 'next/server';
+import type { Tables } from '@/lib/database.types';
+import { withAuth, validateUpdatePostPayload, sanitizeError } from '@/lib/utils/validation';
+import { calculateEngagementRate } from '@/lib/utils/metrics';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseParams } from '@/lib/utils/requestSchema';
+import { postIdParamsSchema } from '@/lib/utils/routeSchemas';
+import { recomputeDailyMetricsForPosts } from '@/lib/utils/dailyMetricsRollup';
+
+type Post = Tables<'posts'>;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const COUNTER_COLUMNS = ['likes', 'comments', 'shares', 'saves', 'reach'] as const;
+
+/**
+ * Next.js API Route: /api/posts/[id]
+ *
+ * PATCH updates a post in the active workspace and recomputes
+ * engagement_rate whenever one of its counters changes.
+ * DELETE removes a post from the active workspace. Both need the analyst role or above.
+ *
+ * Both keep daily_metrics in sync by recomputing the days the post was (and now is) published on.
+ *
+ * Both handlers return 404 for posts that don't exist or belong to another workspace,
+ * so the response never reveals whether another workspace's post id exists.
+ */
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, { supabase, workspace }, { params }) => {
+  try {
+    const parsedParams = parseParams(postIdParamsSchema, await params);
+    if (parsedParams.error !== null) {
+      return apiSchemaError(request, parsedParams);
+    }
+
+    const { id } = parsedParams.data;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const parsed = validateUpdatePostPayload(body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+    const payload = parsed.data;
+
+    // Defense-in-depth: Explicitly filter by workspace_id even though RLS enforces this
+    const { data: existing, error: fetchError } = await supabase
+      .from('posts')
+      .select('*')
+      .eq('id', id)
+      .eq('workspace_id', workspace.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      // Log detailed error server-side only
+      console.error('Post fetch error:', fetchError);
+      return apiError(request, 'INTERNAL', 'Failed to update post');
+    }
+
+    if (!existing) {
+      return apiError(request, 'NOT_FOUND', 'Post not found');
+    }
+
+    const countersChanged = COUNTER_COLUMNS.some((column) => payload[column] !== undefined);
+    const update = countersChanged
+      ? { ...payload, engagement_rate: calculateEngagementRate({ ...existing, ...payload }) }
+      : payload;
+
+    const { data, error } = await supabase
+      .from('posts')
+      .update(update)
+      .eq('id', id)
+      .eq('workspace_id', workspace.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Post update error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to update post');
+    }
+
+    // Moving posted_at changes two days: the one the post left and the one it joined
+    await recomputeDailyMetricsForPosts(supabase, workspace, [existing.posted_at, data.posted_at]);
+
+    return apiSuccess(request, data as Post);
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Posts API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while updating the post');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
+
+export const DELETE = withAuth<RouteContext>(async (request: NextRequest, { supabase, workspace }, { params }) => {
+  try {
+    const parsedParams = parseParams(postIdParamsSchema, await params);
+    if (parsedParams.error !== null) {
+      return apiSchemaError(request, parsedParams);
+    }
+
+    const { id } = parsedParams.data;
+
+    // Defense-in-depth: Explicitly filter by workspace_id even though RLS enforces this
+    const { data, error } = await supabase
+      .from('posts')
+      .delete()
+      .eq('id', id)
+      .eq('workspace_id', workspace.id)
+      .select('id, posted_at');
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Post delete error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to delete post');
+    }
+
+    if (!data || data.length === 0) {
+      return apiError(request, 'NOT_FOUND', 'Post not found');
+    }
+
+    await recomputeDailyMetricsForPosts(supabase, workspace, data.map((post) => post.posted_at));
+
+    return apiSuccess(request, { id });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Posts API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while deleting the post');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Tables } from '@/lib/database.types';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSchemaError } from '@/lib/utils/apiResponse';
+import { buildPostListQuery } from '@/lib/utils/postQuery';
+import { parseQuery } from '@/lib/utils/requestSchema';
+import { postsExportQuerySchema } from '@/lib/utils/routeSchemas';
+import { buildKeysetFilter, type PostCursor } from '@/lib/utils/pagination';
+import { todayDateParam } from '@/lib/utils/dateRange';
+import {
+  POST_EXPORT_COLUMNS,
+  toCsvRow,
+  toExportedPost,
+  getExportFilename,
+  type ExportFormat,
+} from '@/lib/utils/export';
+
+type Post = Tables<'posts'>;
+
+// Rows read from the database per request while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Next.js API Route: /api/posts/export
+ *
+ * GET downloads every post matching the posts table's filters, search and ordering
+ * (the same query parameters as GET /api/posts, without pagination).
+ * - format: csv (default) or json
+ *
+ * Rows are read in keyset-paginated batches and streamed to the client,
+ * so large exports never have to be held in memory.
+ */
+export const GET = withAuth(async (request: NextRequest, { supabase, workspace }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = parseQuery(postsExportQuerySchema, searchParams);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const { format, ...params } = parsed.data;
+
+    const fetchBatch = async (cursor: PostCursor | null): Promise<Post[]> => {
+      let query = buildPostListQuery(supabase, workspace.id, params);
+      if (cursor) {
+        query = query.or(buildKeysetFilter(cursor, params.sortOrder));
+      }
+
+      const { data, error } = await query.limit(EXPORT_BATCH_SIZE);
+      if (error) {
+        throw error;
+      }
+      return data as Post[];
+    };
+
+    // Read the first batch before responding, so a failing query still gets an error envelope
+    let batch: Post[];
+    try {
+      batch = await fetchBatch(null);
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Posts export error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to export posts');
+    }
+
+    const encoder = new TextEncoder();
+    let rowCount = 0;
+    let done = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(format === 'csv' ? toCsvRow([...POST_EXPORT_COLUMNS]) : '['));
+      },
+      async pull(controller) {
+        try {
+          if (done) {
+            if (format === 'json') {
+              controller.enqueue(encoder.encode('\n]\n'));
+            }
+            controller.close();
+            return;
+          }
+
+          let chunk = '';
+          for (const post of batch) {
+            const exported = toExportedPost(post);
+            chunk += format === 'csv'
+              ? toCsvRow(POST_EXPORT_COLUMNS.map((column) => exported[column]))
+              : `${rowCount === 0 ? '' : ','}\n${JSON.stringify(exported)}`;
+            rowCount++;
+          }
+          controller.enqueue(encoder.encode(chunk));
+
+          // A short batch is the last one; otherwise continue after its last row
+          if (batch.length < EXPORT_BATCH_SIZE) {
+            done = true;
+            return;
+          }
+
+          const last = batch[batch.length - 1];
+          batch = await fetchBatch({
+            field: params.sortField,
+            value: (last[params.sortField as keyof Post] ?? null) as string | number | null,
+            id: last.id,
+          });
+        } catch (error) {
+          // Headers are already sent, so the only option left is to abort the download
+          console.error('Posts export stream error:', error);
+          controller.error(new Error('Failed to export posts'));
+        }
+      },
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${getExportFilename(format, todayDateParam())}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Posts export API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while exporting posts');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
@@ -0,0 +1,108 @@
+import { NextRequest } from 'next/server';
+import {
+  withAuth,
+  validateCreatePostPayload,
+  sanitizeError,
+} from '@/lib/utils/validation';
+import { calculateEngagementRate } from '@/lib/utils/metrics';
+import { MAX_IMPORT_ROWS } from '@/lib/utils/postImport';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import type { ApiFieldError } from '@/lib/utils/apiErrors';
+import { recomputeDailyMetricsForPosts } from '@/lib/utils/dailyMetricsRollup';
+
+/**
+ * Next.js API Route: /api/posts/import
+ *
+ * POST inserts a batch of posts mapped from a CSV file: `{ posts: CreatePostParams[] }`.
+ * Every post is validated like POST /api/posts; if any is invalid, nothing is written and the
+ * VALIDATION_FAILED details list every invalid field of every post.
+ *
+ * Posts are deduplicated on permalink (UNIQUE (workspace_id, permalink), see workspaces.sql):
+ * posts whose permalink already exists are skipped, so re-importing a file is safe. NULLs never
+ * conflict, so every imported post must have a permalink.
+ *
+ * daily_metrics are then recomputed for the days the imported posts were published on.
+ *
+ * Responds with `{ success, data: { imported, skipped }, requestId }`.
+ */
+export const POST = withAuth(async (request: NextRequest, { user, supabase, workspace }) => {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const posts = (body as { posts?: unknown } | null)?.posts;
+    if (!Array.isArray(posts) || posts.length === 0) {
+      return apiValidationError(request, 'posts must be a non-empty array', 'posts');
+    }
+
+    if (posts.length > MAX_IMPORT_ROWS) {
+      return apiValidationError(request, `A single import is limited to ${MAX_IMPORT_ROWS} posts`, 'posts');
+    }
+
+    // Ownership always comes from the session, never from the request body
+    const rows = [];
+    const details: ApiFieldError[] = [];
+    for (const [index, post] of posts.entries()) {
+      const parsed = validateCreatePostPayload(post);
+      if (parsed.error !== null) {
+        // A post that isn't an object has no field errors, only the body error
+        if (parsed.details.length === 0) {
+          details.push({ field: `posts[${index}]`, message: `Post ${index + 1}: ${parsed.error}` });
+        }
+        for (const { field, message } of parsed.details) {
+          details.push({ field: `posts[${index}].${field}`, message: `Post ${index + 1}: ${message}` });
+        }
+        continue;
+      }
+
+      const payload = parsed.data;
+      if (!payload.permalink) {
+        details.push({ field: `posts[${index}].permalink`, message: `Post ${index + 1}: permalink is required` });
+        continue;
+      }
+      rows.push({
+        ...payload,
+        engagement_rate: calculateEngagementRate(payload),
+        workspace_id: workspace.id,
+        user_id: user.id,
+      });
+    }
+
+    if (details.length > 0) {
+      return apiSchemaError(request, { error: details[0].message, details });
+    }
+
+    // One statement, so the batch is written atomically.
+    // defaultToNull: false lets omitted counters fall back to their column defaults.
+    const { data, error } = await supabase
+      .from('posts')
+      .upsert(rows, {
+        onConflict: 'workspace_id,permalink',
+        ignoreDuplicates: true,
+        defaultToNull: false,
+      })
+      .select('id, posted_at');
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Posts import error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to import posts');
+    }
+
+    // Conflicting rows are not returned, so the difference is the number of duplicates
+    const imported = data?.length ?? 0;
+
+    await recomputeDailyMetricsForPosts(supabase, workspace, (data ?? []).map((post) => post.posted_at));
+
+    return apiSuccess(request, { imported, skipped: rows.length - imported }, { status: 201 });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Posts import API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while importing posts');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
@@ -1,76 +1,119 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { NextRequest } from 'next/server';
 import type { Tables } from '@/lib/database.types';
 import {
   withAuth,
-  validateStringParam,
-  validateDateParam,
-  validateSortOrder,
+  validateCreatePostPayload,
   sanitizeError,
-  ALLOWED_PLATFORMS,
-  ALLOWED_MEDIA_TYPES,
-  ALLOWED_POST_SORT_FIELDS,
 } from '@/lib/utils/validation';
+import { calculateEngagementRate } from '@/lib/utils/metrics';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { recomputeDailyMetricsForPosts } from '@/lib/utils/dailyMetricsRollup';
+import { buildPostListQuery } from '@/lib/utils/postQuery';
+import { parseQuery } from '@/lib/utils/requestSchema';
+import { postsListQuerySchema } from '@/lib/utils/routeSchemas';
+import { encodeCursor, decodeCursor, buildKeysetFilter } from '@/lib/utils/pagination';
 
 type Post = Tables<'posts'>;
 
-export const GET = withAuth(async (request: NextRequest, user) => {
+/**
+ * Next.js API Route: /api/posts
+ *
+ * GET returns one page of the active workspace's posts.
+ * - Filters: platform, mediaType, startDate, endDate
+ * - Search: q, full-text match on caption (websearch syntax, see posts_caption_search.sql)
+ * - Ordering: sortField (one of POST_SORT_FIELDS, default posted_at), sortOrder (asc|desc)
+ * - Pagination: limit (default 50, max 100) and cursor (the nextCursor of the previous page)
+ * See postsListQuerySchema; invalid parameters are rejected with every offending field listed.
+ *
+ * Responds with `{ success, data, nextCursor, requestId }`; nextCursor is null on the last page.
+ */
+export const GET = withAuth(async (request: NextRequest, { supabase, workspace }) => {
   try {
-    const supabase = await createClient();
     const { searchParams } = new URL(request.url);
     
     // Validate and sanitize query parameters
-    const platform = validateStringParam(searchParams.get('platform'), ALLOWED_PLATFORMS);
-    const mediaType = validateStringParam(searchParams.get('mediaType'), ALLOWED_MEDIA_TYPES);
-    const startDate = validateDateParam(searchParams.get('startDate'));
-    const endDate = validateDateParam(searchParams.get('endDate'));
-
-    // Defense-in-depth: Explicitly filter by user_id even though RLS enforces this
-    // This ensures data isolation at the application level as well as database level
-    let query = supabase
-      .from('posts')
-      .select('*')
-      .eq('user_id', user.id);
-
-    if (platform && platform !== 'all') {
-      query = query.eq('platform', platform);
+    const parsed = parseQuery(postsListQuerySchema, searchParams);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
     }
 
-    if (mediaType && mediaType !== 'all') {
-      query = query.eq('media_type', mediaType);
+    const params = parsed.data;
+    const cursor = decodeCursor(params.cursor ?? null, params.sortField);
+    if (params.cursor && !cursor) {
+      return apiValidationError(request, 'Invalid cursor', 'cursor');
     }
 
-    if (startDate) {
-      query = query.gte('posted_at', startDate);
-    }
+    let query = buildPostListQuery(supabase, workspace.id, params);
 
-    if (endDate) {
-      query = query.lte('posted_at', endDate);
+    if (cursor) {
+      query = query.or(buildKeysetFilter(cursor, params.sortOrder));
     }
 
-    const { data, error } = await query;
+    // Fetch one extra row to detect whether another page exists
+    const { data, error } = await query.limit(params.limit + 1);
 
     if (error) {
       // Log detailed error server-side only
       console.error('Posts fetch error:', error);
-      return NextResponse.json(
-        { error: 'Failed to fetch posts' },
-        { status: 500 }
-      );
+      return apiError(request, 'INTERNAL', 'Failed to fetch posts');
     }
 
-    return NextResponse.json({
-      success: true,
-      data: data as Post[],
+    const rows = data as Post[];
+    const hasMore = rows.length > params.limit;
+    const page = hasMore ? rows.slice(0, params.limit) : rows;
+
+    return apiSuccess(request, page, {
+      meta: { nextCursor: hasMore ? encodeCursor(params.sortField, page[page.length - 1]) : null },
     });
   } catch (error) {
     // Log detailed error server-side only
     console.error('Posts API error:', error);
     const errorMessage = sanitizeError(error, 'An error occurred while fetching posts');
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+    return apiError(request, 'INTERNAL', errorMessage);
   }
 });
 
+
+export const POST = withAuth(async (request: NextRequest, { user, supabase, workspace }) => {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiValidationError(request, 'Invalid JSON body');
+    }
+
+    const parsed = validateCreatePostPayload(body);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+    const payload = parsed.data;
+
+    // The workspace and author always come from the session, never from the request body
+    const { data, error } = await supabase
+      .from('posts')
+      .insert({
+        ...payload,
+        engagement_rate: calculateEngagementRate(payload),
+        workspace_id: workspace.id,
+        user_id: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Post create error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to create post');
+    }
+
+    await recomputeDailyMetricsForPosts(supabase, workspace, [data.posted_at]);
+
+    return apiSuccess(request, data as Post, { status: 201 });
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Posts API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while creating the post');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
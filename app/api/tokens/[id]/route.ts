@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSchemaError, apiSuccess } from '@/lib/utils/apiResponse';
+import { parseParams } from '@/lib/utils/requestSchema';
+import { apiTokenIdParamsSchema } from '@/lib/utils/routeSchemas';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Next.js API Route: /api/tokens/[id]
+ *
+ * DELETE revokes a personal API token owned by the authenticated user; requests made with it
+ * are rejected from then on. Returns 404 for tokens that don't exist or belong to another user.
+ *
+ * Cookie sessions only: an API token can't revoke tokens (403 FORBIDDEN).
+ */
+export const DELETE = withAuth<RouteContext>(
+  async (request: NextRequest, { user, supabase }, { params }) => {
+    try {
+      const parsedParams = parseParams(apiTokenIdParamsSchema, await params);
+      if (parsedParams.error !== null) {
+        return apiSchemaError(request, parsedParams);
+      }
+
+      const { id } = parsedParams.data;
+
+      // Defense-in-depth: Explicitly filter by user_id even though RLS enforces this
+      const { data, error } = await supabase
+        .from('api_tokens')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select('id');
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('API token revoke error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to revoke API token');
+      }
+
+      if (!data || data.length === 0) {
+        return apiError(request, 'NOT_FOUND', 'API token not found');
+      }
+
+      return apiSuccess(request, { id });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('API tokens API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while revoking the API token');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
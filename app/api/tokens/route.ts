@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { generateApiToken } from '@/lib/utils/apiTokens';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { createApiTokenBodySchema } from '@/lib/utils/routeSchemas';
+
+// Everything but token_hash, which never leaves the database
+const API_TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, created_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Next.js API Route: /api/tokens
+ *
+ * GET lists the authenticated user's personal API tokens, newest first.
+ * POST creates one from `{ name, scopes, expiresInDays? }` and responds with it plus `token`,
+ * the only time the token itself is returned.
+ *
+ * Cookie sessions only: an API token can't list or create tokens (403 FORBIDDEN).
+ */
+export const GET = withAuth(
+  async (request: NextRequest, { user, supabase }) => {
+    try {
+      // Defense-in-depth: Explicitly filter by user_id even though RLS enforces this
+      const { data, error } = await supabase
+        .from('api_tokens')
+        .select(API_TOKEN_COLUMNS)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('API tokens fetch error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to fetch API tokens');
+      }
+
+      return apiSuccess(request, data);
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('API tokens API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while fetching API tokens');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
+
+export const POST = withAuth(
+  async (request: NextRequest, { user, supabase }) => {
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return apiValidationError(request, 'Invalid JSON body');
+      }
+
+      const parsed = parseBody(createApiTokenBodySchema, body);
+      if (parsed.error !== null) {
+        return apiSchemaError(request, parsed);
+      }
+
+      const { scopes, expiresInDays } = parsed.data;
+      const name = parsed.data.name.trim();
+
+      if (!name) {
+        return apiValidationError(request, 'name is required', 'name');
+      }
+
+      if (scopes.length === 0) {
+        return apiValidationError(request, 'scopes must include at least one scope', 'scopes');
+      }
+
+      const { token, hash, prefix } = await generateApiToken();
+
+      // Ownership always comes from the session, never from the request body
+      const { data, error } = await supabase
+        .from('api_tokens')
+        .insert({
+          user_id: user.id,
+          name,
+          scopes,
+          token_hash: hash,
+          token_prefix: prefix,
+          expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString() : null,
+        })
+        .select(API_TOKEN_COLUMNS)
+        .single();
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('API token create error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to create API token');
+      }
+
+      return apiSuccess(request, { ...data, token }, { status: 201 });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('API tokens API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while creating the API token');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
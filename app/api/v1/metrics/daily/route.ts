@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/utils/validation';
+import { sanitizeError } from '@/lib/utils/paramValidation';
+import { DAILY_METRIC_KEYS, bucketDailyMetrics, type DailyMetricPoint } from '@/lib/utils/dailyMetrics';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseQuery } from '@/lib/utils/requestSchema';
+import { dailyMetricsQuerySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js Edge Route: /api/v1/metrics/daily
+ *
+ * GET returns the active workspace's daily metrics in date order.
+ * - startDate, endDate (YYYY-MM-DD, inclusive; startDate must not be after endDate)
+ * - metrics: comma-separated subset of DAILY_METRIC_KEYS, e.g. `likes,comments`.
+ *   Rows then only contain `date` and those columns; without it every column is returned.
+ * - granularity: day (default), week or month. Weeks and months are summed per ISO week or
+ *   calendar month and dated by their first day; rows then only contain `date` and the metrics.
+ *
+ * Responds with the standard envelope (see apiErrors.ts): `{ success, data, requestId }`.
+ *
+ * Runs at the edge, so nothing it imports may use Node.js APIs. Besides the edge-safe helpers
+ * (paramValidation, dailyMetrics, apiResponse, requestSchema and routeSchemas), that includes
+ * withAuth and everything validation.ts imports: the Supabase server client (session cookies
+ * through next/headers), apiTokens (token hashing and JWT signing with Web Crypto), workspaces
+ * and passwordPolicy.
+ * /api/daily-metrics and /api/metrics/daily are deprecated aliases of this route.
+ */
+export const runtime = 'edge';
+
+export const GET = withAuth(async (request: NextRequest, { supabase, workspace }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate and sanitize query parameters
+    const parsed = parseQuery(dailyMetricsQuerySchema, searchParams);
+    if (parsed.error !== null) {
+      return apiSchemaError(request, parsed);
+    }
+
+    const { startDate, endDate, granularity } = parsed.data;
+    const metrics = parsed.data.metrics ?? [];
+
+    if (startDate && endDate && startDate > endDate) {
+      return apiValidationError(request, 'Invalid date range: startDate must be before or equal to endDate', 'startDate');
+    }
+
+    // Column names come from the allow-list above, so they are safe to interpolate.
+    // Defense-in-depth: Explicitly filter by workspace_id even though RLS enforces this
+    let query = supabase
+      .from('daily_metrics')
+      .select(metrics.length > 0 ? ['date', ...metrics].join(',') : '*')
+      .eq('workspace_id', workspace.id)
+      .order('date', { ascending: true });
+
+    if (startDate) {
+      query = query.gte('date', startDate);
+    }
+
+    if (endDate) {
+      query = query.lte('date', endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Daily metrics fetch error:', error);
+      return apiError(request, 'INTERNAL', 'Failed to fetch daily metrics');
+    }
+
+    // The select string is built at runtime, so the row type can't be inferred
+    const rows = data as unknown as DailyMetricPoint[];
+
+    return apiSuccess(request, bucketDailyMetrics(rows, granularity, metrics.length > 0 ? metrics : DAILY_METRIC_KEYS));
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Daily metrics API error:', error);
+    const errorMessage = sanitizeError(error, 'An error occurred while fetching daily metrics');
+    return apiError(request, 'INTERNAL', errorMessage);
+  }
+});
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSuccess } from '@/lib/utils/apiResponse';
+
+/**
+ * Next.js API Route: /api/workspace/invitations
+ *
+ * GET lists the active workspace's pending invitations, oldest first. Invitations are sent
+ * with POST /api/workspace/members and cancelled with DELETE /api/workspaces/invitations/[id].
+ * It needs the admin role.
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const GET = withAuth(
+  async (request: NextRequest, { supabase, workspace }) => {
+    try {
+      // Defense-in-depth: Explicitly filter by workspace_id even though RLS enforces this
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('id, email, role, created_at')
+        .eq('workspace_id', workspace.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Workspace invitations fetch error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to fetch workspace invitations');
+      }
+
+      return apiSuccess(request, data);
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace invitations API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while fetching workspace invitations');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: 'admin' }
+);
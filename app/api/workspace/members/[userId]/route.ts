@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { hasWorkspaceRole } from '@/lib/utils/workspaces';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseParams } from '@/lib/utils/requestSchema';
+import { workspaceMemberParamsSchema } from '@/lib/utils/routeSchemas';
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+/**
+ * Next.js API Route: /api/workspace/members/[userId]
+ *
+ * DELETE removes a member from the active workspace. Any member can leave (their own user id);
+ * removing someone else needs the admin role, and only owners can remove owners. The last owner
+ * can't leave, so a workspace always has one (400 VALIDATION_FAILED).
+ * Returns 404 for users who aren't members, or whom the caller may not remove.
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const DELETE = withAuth<RouteContext>(
+  async (request: NextRequest, { user, supabase, workspace }, { params }) => {
+    try {
+      const parsedParams = parseParams(workspaceMemberParamsSchema, await params);
+      if (parsedParams.error !== null) {
+        return apiSchemaError(request, parsedParams);
+      }
+
+      const { userId } = parsedParams.data;
+
+      if (userId !== user.id && !hasWorkspaceRole(workspace.role, 'admin')) {
+        return apiError(request, 'FORBIDDEN', 'This requires the admin role in the workspace');
+      }
+
+      // RLS only lets admins remove non-owners, and owners anyone
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspace.id)
+        .eq('user_id', userId)
+        .select('user_id');
+
+      if (error) {
+        if (error.code === '23514') {
+          return apiValidationError(request, 'A workspace needs at least one owner');
+        }
+        // Log detailed error server-side only
+        console.error('Workspace member remove error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to remove workspace member');
+      }
+
+      if (!data || data.length === 0) {
+        return apiError(request, 'NOT_FOUND', 'Workspace member not found');
+      }
+
+      return apiSuccess(request, { user_id: userId });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace members API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while removing the workspace member');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
@@ -0,0 +1,132 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError, validateEmail } from '@/lib/utils/validation';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { addWorkspaceMemberBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/workspace/members
+ *
+ * Members of the active workspace (see withAuth).
+ * GET lists them with their email and role; any member can.
+ * POST invites `{ email }` with `role`, or changes the role of the member with that email
+ * (`status: 'member'`). Otherwise it records an invitation the person accepts after signing in
+ * (`status: 'invited'`); the response is the same whether or not the email has an account.
+ * It needs the admin role, and only owners can invite owners or change them (403 FORBIDDEN).
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const GET = withAuth(
+  async (request: NextRequest, { supabase, workspace }) => {
+    try {
+      // SECURITY DEFINER: emails come from auth.users, which clients can't read
+      const { data, error } = await supabase.rpc('get_workspace_members', { p_workspace_id: workspace.id });
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Workspace members fetch error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to fetch workspace members');
+      }
+
+      return apiSuccess(request, data ?? []);
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace members API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while fetching workspace members');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false }
+);
+
+export const POST = withAuth(
+  async (request: NextRequest, { user, supabase, workspace }) => {
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return apiValidationError(request, 'Invalid JSON body');
+      }
+
+      const parsed = parseBody(addWorkspaceMemberBodySchema, body);
+      if (parsed.error !== null) {
+        return apiSchemaError(request, parsed);
+      }
+
+      const emailError = validateEmail(parsed.data.email);
+      if (emailError) {
+        return apiValidationError(request, emailError, 'email');
+      }
+
+      const email = parsed.data.email.trim().toLowerCase();
+      const { role } = parsed.data;
+
+      if (role === 'owner' && workspace.role !== 'owner') {
+        return apiError(request, 'FORBIDDEN', 'Only owners can invite owners');
+      }
+
+      // Members' emails are already visible to the caller, so matching them reveals nothing
+      const { data: members, error: membersError } = await supabase.rpc('get_workspace_members', {
+        p_workspace_id: workspace.id,
+      });
+
+      if (membersError) {
+        // Log detailed error server-side only
+        console.error('Workspace members fetch error:', membersError);
+        return apiError(request, 'INTERNAL', 'Failed to invite workspace member');
+      }
+
+      const member = members?.find((candidate) => candidate.email.toLowerCase() === email);
+
+      if (member) {
+        // SECURITY DEFINER: checks the caller's role again, and that owners are only changed by owners
+        const { data, error } = await supabase.rpc('set_workspace_member_role', {
+          p_workspace_id: workspace.id,
+          p_user_id: member.user_id,
+          p_role: role,
+        });
+
+        if (error) {
+          switch (error.code) {
+            case '42501':
+              return apiError(request, 'FORBIDDEN', 'Only owners can change the role of an owner');
+            case '23514':
+              return apiValidationError(request, 'A workspace needs at least one owner', 'role');
+            default:
+              // Log detailed error server-side only
+              console.error('Workspace member role change error:', error);
+              return apiError(request, 'INTERNAL', 'Failed to change the member\'s role');
+          }
+        }
+
+        return apiSuccess(request, { email, role: data.role, status: 'member' });
+      }
+
+      // Inviting an email again changes the role it is invited with. RLS only lets admins
+      // invite, and only owners invite owners or change their invitations.
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .upsert({ workspace_id: workspace.id, email, role, invited_by: user.id }, { onConflict: 'workspace_id,email' })
+        .select('role')
+        .single();
+
+      if (error) {
+        if (error.code === '42501') {
+          return apiError(request, 'FORBIDDEN', 'Only owners can invite owners');
+        }
+        // Log detailed error server-side only
+        console.error('Workspace invitation error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to invite workspace member');
+      }
+
+      return apiSuccess(request, { email, role: data.role, status: 'invited' });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace members API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while inviting the workspace member');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: 'admin' }
+);
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { updateWorkspaceBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/workspace
+ *
+ * PATCH changes the active workspace's settings: `{ timezone }`, the IANA time zone its
+ * daily_metrics are bucketed in. Needs the admin role. Changing it rebuilds every day the
+ * workspace has metrics for or posts on, in the same transaction (workspace_timezone_rebuild.sql).
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const PATCH = withAuth(
+  async (request: NextRequest, { supabase, workspace }) => {
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return apiValidationError(request, 'Invalid JSON body');
+      }
+
+      const parsed = parseBody(updateWorkspaceBodySchema, body);
+      if (parsed.error !== null) {
+        return apiSchemaError(request, parsed);
+      }
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .update({ timezone: parsed.data.timezone })
+        .eq('id', workspace.id)
+        .select('id, name, timezone')
+        .single();
+
+      // A time zone the browser knows but Postgres doesn't
+      if (error?.code === '22023') {
+        return apiValidationError(request, 'Unknown time zone', 'timezone');
+      }
+
+      if (error || !data) {
+        // Log detailed error server-side only
+        console.error('Workspace update error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to update workspace');
+      }
+
+      return apiSuccess(request, { ...data, role: workspace.role });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while updating the workspace');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: 'admin' }
+);
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSchemaError, apiSuccess } from '@/lib/utils/apiResponse';
+import { parseParams } from '@/lib/utils/requestSchema';
+import { workspaceInvitationParamsSchema } from '@/lib/utils/routeSchemas';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Next.js API Route: /api/workspaces/invitations/[id]
+ *
+ * POST accepts an invitation for the authenticated user's confirmed email: they join the workspace
+ * with the invited role (members keep theirs) and it responds with the workspace.
+ * DELETE declines it, or cancels it for owners and admins of the workspace (only owners cancel
+ * invitations to the owner role).
+ * Both return 404 for invitations that don't exist or that the caller may not act on.
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const POST = withAuth<RouteContext>(
+  async (request: NextRequest, { supabase }, { params }) => {
+    try {
+      const parsedParams = parseParams(workspaceInvitationParamsSchema, await params);
+      if (parsedParams.error !== null) {
+        return apiSchemaError(request, parsedParams);
+      }
+
+      // SECURITY DEFINER: matches the invitation to the caller's confirmed email, then adds the membership
+      const { data: member, error } = await supabase.rpc('accept_workspace_invitation', {
+        p_invitation_id: parsedParams.data.id,
+      });
+
+      if (error) {
+        if (error.code === 'P0002') {
+          return apiError(request, 'NOT_FOUND', 'Invitation not found');
+        }
+        // Log detailed error server-side only
+        console.error('Workspace invitation accept error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to accept the invitation');
+      }
+
+      const { data: workspace, error: workspaceError } = await supabase
+        .from('workspaces')
+        .select('id, name, timezone')
+        .eq('id', member.workspace_id)
+        .single();
+
+      if (workspaceError) {
+        // Log detailed error server-side only
+        console.error('Workspace fetch error:', workspaceError);
+        return apiError(request, 'INTERNAL', 'Failed to accept the invitation');
+      }
+
+      return apiSuccess(request, { ...workspace, role: member.role });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace invitations API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while accepting the invitation');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
+
+export const DELETE = withAuth<RouteContext>(
+  async (request: NextRequest, { supabase }, { params }) => {
+    try {
+      const parsedParams = parseParams(workspaceInvitationParamsSchema, await params);
+      if (parsedParams.error !== null) {
+        return apiSchemaError(request, parsedParams);
+      }
+
+      const { id } = parsedParams.data;
+
+      // RLS only lets the invitee, and the workspace's owners and admins, delete an invitation
+      const { data, error } = await supabase.from('workspace_invitations').delete().eq('id', id).select('id');
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Workspace invitation delete error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to delete the invitation');
+      }
+
+      if (!data || data.length === 0) {
+        return apiError(request, 'NOT_FOUND', 'Invitation not found');
+      }
+
+      return apiSuccess(request, { id });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace invitations API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while deleting the invitation');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { apiError, apiSuccess } from '@/lib/utils/apiResponse';
+
+/**
+ * Next.js API Route: /api/workspaces/invitations
+ *
+ * GET lists the invitations waiting for the authenticated user's confirmed email, with the name
+ * of each workspace, oldest first. Accept or decline them at /api/workspaces/invitations/[id].
+ *
+ * Cookie sessions only (403 FORBIDDEN with an API token).
+ */
+export const GET = withAuth(
+  async (request: NextRequest, { supabase }) => {
+    try {
+      // SECURITY DEFINER: invitees can't read the workspaces they are invited to until they join
+      const { data, error } = await supabase.rpc('get_my_workspace_invitations');
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Workspace invitations fetch error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to fetch invitations');
+      }
+
+      return apiSuccess(request, data ?? []);
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspace invitations API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while fetching invitations');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { withAuth, sanitizeError } from '@/lib/utils/validation';
+import { getWorkspaceMemberships } from '@/lib/utils/workspaces';
+import { apiError, apiSchemaError, apiSuccess, apiValidationError } from '@/lib/utils/apiResponse';
+import { parseBody } from '@/lib/utils/requestSchema';
+import { createWorkspaceBodySchema } from '@/lib/utils/routeSchemas';
+
+/**
+ * Next.js API Route: /api/workspaces
+ *
+ * GET lists the workspaces the authenticated user belongs to, with their role in each, oldest
+ * membership first, and `activeWorkspaceId`: the one other routes act on for this request.
+ * POST creates a workspace from `{ name }` with the user as its owner.
+ *
+ * Cookie sessions only: an API token can't list or create workspaces (403 FORBIDDEN).
+ * Scripts choose the workspace of each request with the `x-workspace-id` header instead.
+ */
+export const GET = withAuth(
+  async (request: NextRequest, { user, supabase, workspace }) => {
+    try {
+      const { data, error } = await getWorkspaceMemberships(supabase, user.id);
+
+      if (error) {
+        // Log detailed error server-side only
+        console.error('Workspaces fetch error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to fetch workspaces');
+      }
+
+      return apiSuccess(request, { workspaces: data, activeWorkspaceId: workspace.id });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspaces API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while fetching workspaces');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
+
+export const POST = withAuth(
+  async (request: NextRequest, { supabase }) => {
+    try {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return apiValidationError(request, 'Invalid JSON body');
+      }
+
+      const parsed = parseBody(createWorkspaceBodySchema, body);
+      if (parsed.error !== null) {
+        return apiSchemaError(request, parsed);
+      }
+
+      const name = parsed.data.name.trim();
+      if (!name) {
+        return apiValidationError(request, 'name is required', 'name');
+      }
+
+      // SECURITY DEFINER: creates the workspace and the caller's owner membership together
+      const { data, error } = await supabase.rpc('create_workspace', { p_name: name });
+
+      if (error || !data) {
+        // Log detailed error server-side only
+        console.error('Workspace create error:', error);
+        return apiError(request, 'INTERNAL', 'Failed to create workspace');
+      }
+
+      return apiSuccess(request, { id: data.id, name: data.name, timezone: data.timezone, role: 'owner' }, { status: 201 });
+    } catch (error) {
+      // Log detailed error server-side only
+      console.error('Workspaces API error:', error);
+      const errorMessage = sanitizeError(error, 'An error occurred while creating the workspace');
+      return apiError(request, 'INTERNAL', errorMessage);
+    }
+  },
+  { allowApiTokens: false, role: null }
+);
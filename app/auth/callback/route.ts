@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthError, EmailOtpType } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import {
+  classifyAuthCallbackError,
+  getSafeRedirectPath,
+  type AuthCallbackError,
+} from '@/lib/utils/authCallback';
+
+const EMAIL_OTP_TYPES: readonly string[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email'];
+
+const isEmailOtpType = (type: string | null): type is EmailOtpType => !!type && EMAIL_OTP_TYPES.includes(type);
+
+/**
+ * Next.js Route: /auth/callback
+ *
+ * Where links emailed by Supabase Auth land: signup confirmation (emailRedirectTo in
+ * /api/auth/signup) and magic links (/api/auth/magic-link). Signs the user in by exchanging
+ * `code` for a session (PKCE), or by verifying `token_hash` + `type` for email templates that
+ * link here directly, then redirects to `next` (a path on this site) or /dashboard.
+ *
+ * Expired, used and invalid links, including the `error` / `error_code` Supabase redirects with
+ * when verification already failed, go to /auth/login?error=<AuthCallbackError>.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+
+  const redirectToLogin = (error: AuthCallbackError) => {
+    const url = new URL('/auth/login', origin);
+    url.searchParams.set('error', error);
+    return NextResponse.redirect(url);
+  };
+
+  const linkError = searchParams.get('error');
+  if (linkError) {
+    // Log detailed error server-side only
+    console.error('Auth callback link error:', linkError, searchParams.get('error_code'));
+    return redirectToLogin(
+      classifyAuthCallbackError({
+        code: searchParams.get('error_code'),
+        message: searchParams.get('error_description'),
+      })
+    );
+  }
+
+  const code = searchParams.get('code');
+  const tokenHash = searchParams.get('token_hash');
+  const type = searchParams.get('type');
+
+  try {
+    const supabase = await createClient();
+    let error: AuthError | null;
+
+    if (code) {
+      ({ error } = await supabase.auth.exchangeCodeForSession(code));
+    } else if (tokenHash && isEmailOtpType(type)) {
+      ({ error } = await supabase.auth.verifyOtp({ type, token_hash: tokenHash }));
+    } else {
+      return redirectToLogin('link_invalid');
+    }
+
+    if (error) {
+      // Log detailed error server-side only
+      console.error('Auth callback error:', error);
+      return redirectToLogin(classifyAuthCallbackError({ code: error.code, message: error.message }));
+    }
+
+    // The session cookies set by the exchange are sent with this redirect
+    return NextResponse.redirect(new URL(getSafeRedirectPath(searchParams.get('next'), origin), origin));
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error('Auth callback error:', error);
+    return redirectToLogin('link_invalid');
+  }
+}
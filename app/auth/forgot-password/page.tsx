@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Animated, AnimatedInput, AnimatedButton } from '@/components/ui/animated';
+import { ApiError, readApiResponse } from '@/lib/utils/apiErrors';
+
+interface ResetRequestResponse {
+  message: string;
+}
+
+export default function ForgotPasswordPage() {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+
+    try {
+      const response = await fetch('/api/auth/password/reset-request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const { data } = await readApiResponse<ResetRequestResponse>(response, 'Failed to send reset link');
+      setSuccess(data.message);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-linear-to-br from-gray-50 to-gray-100">
+      <Animated type="slideUp" className="w-full max-w-md space-y-8" duration={0.5}>
+        <div className="text-center">
+          <Animated type="scale" delay={0.2} duration={0.6} className="text-4xl font-bold text-gray-900 mb-2">
+            Analytics Challenge
+          </Animated>
+          <Animated
+            type="width"
+            delay={0.4}
+            duration={0.6}
+            className="h-1 bg-black mx-auto rounded-full"
+          >
+            <span className="sr-only">Underline</span>
+          </Animated>
+          <Animated type="fadeInUp" delay={0.3} className="mt-6 text-3xl font-bold tracking-tight text-gray-800">
+            Reset your password
+          </Animated>
+          <Animated type="fadeIn" delay={0.4} className="mt-2 text-sm text-gray-600">
+            Enter your email and we&apos;ll send you a link to choose a new password.
+          </Animated>
+        </div>
+
+        <Animated type="fadeIn" delay={0.4} className="mt-8 space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <Animated
+                type="slideRight"
+                className="rounded-md bg-red-50 p-4 text-sm text-red-800 border border-red-200"
+              >
+                {error}
+              </Animated>
+            )}
+
+            {success && (
+              <Animated
+                type="slideRight"
+                className="rounded-md bg-green-50 p-4 text-sm text-green-800 border border-green-200"
+              >
+                {success}
+              </Animated>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email address
+              </label>
+              <AnimatedInput
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
+                disabled={loading}
+              />
+            </div>
+
+            <AnimatedButton
+              type="submit"
+              disabled={loading}
+              loading={loading}
+              className="w-full rounded-md bg-black px-4 py-2.5 text-white font-medium hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
+            >
+              {loading ? 'Sending link...' : 'Send reset link'}
+            </AnimatedButton>
+
+            <div className="text-center">
+              <p className="text-sm text-gray-600">
+                Remembered it?{' '}
+                <Link
+                  href="/auth/login"
+                  className="font-medium text-black hover:underline"
+                >
+                  Sign in
+                </Link>
+              </p>
+            </div>
+          </form>
+        </Animated>
+      </Animated>
+    </div>
+  );
+}
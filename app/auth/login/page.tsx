@@ -1,29 +1,75 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuthStore } from '@/lib/stores/authStore';
 import { Animated, AnimatedInput, AnimatedButton } from '@/components/ui/animated';
+import { ApiError, readApiResponse } from '@/lib/utils/apiErrors';
+import { getAuthCallbackErrorMessage } from '@/lib/utils/authCallback';
 import type { User } from '@supabase/supabase-js';
 
-export default function LoginPage() {
+interface LoginResponse {
+  user: {
+    id: string;
+    email: string | undefined;
+    created_at: string;
+  };
+}
+
+interface MagicLinkResponse {
+  message: string;
+}
+
+interface LoginPageProps {
+  // `error` is set by /auth/callback when an emailed link couldn't sign the user in
+  searchParams: Promise<{ error?: string }>;
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
   const router = useRouter();
   const queryClient = useQueryClient();
   const setUser = useAuthStore((state) => state.setUser);
-  const [error, setError] = useState<string | null>(null);
+  const { error: callbackError } = use(searchParams);
+  const [error, setError] = useState<string | null>(() => getAuthCallbackErrorMessage(callbackError));
+  const [success, setSuccess] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Passwordless: email a sign-in link instead of checking a password
+  const [useMagicLink, setUseMagicLink] = useState(false);
+
+  const handleMagicLink = async (email: string) => {
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const { data } = await readApiResponse<MagicLinkResponse>(response, 'Failed to send sign-in link');
+      setSuccess(data.message);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
+    setSuccess(null);
     setLoading(true);
 
     const formData = new FormData(e.currentTarget);
     const email = formData.get('email') as string;
     const password = formData.get('password') as string;
 
+    if (useMagicLink) {
+      await handleMagicLink(email);
+      return;
+    }
+
     try {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
@@ -31,13 +77,7 @@ export default function LoginPage() {
         body: JSON.stringify({ email, password }),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        setError(data.error || 'Login failed');
-        setLoading(false);
-        return;
-      }
+      const { data } = await readApiResponse<LoginResponse>(response, 'Login failed');
 
       // Clear all React Query cache completely to prevent showing previous user's data
       // This is critical when switching between users
@@ -74,7 +114,8 @@ export default function LoginPage() {
       router.push('/dashboard');
       router.refresh();
     } catch (err) {
-      setError('An error occurred. Please try again.');
+      // The server's message, e.g. "Invalid email or password"
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
       setLoading(false);
     }
   };
@@ -110,6 +151,15 @@ export default function LoginPage() {
               </Animated>
             )}
 
+            {success && (
+              <Animated
+                type="slideRight"
+                className="rounded-md bg-green-50 p-4 text-sm text-green-800 border border-green-200"
+              >
+                {success}
+              </Animated>
+            )}
+
             <div className="space-y-4">
               <div>
                 <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
@@ -125,20 +175,27 @@ export default function LoginPage() {
                   disabled={loading}
                 />
               </div>
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-                  Password
-                </label>
-                <AnimatedInput
-                  id="password"
-                  name="password"
-                  type="password"
-                  autoComplete="current-password"
-                  required
-                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
-                  disabled={loading}
-                />
-              </div>
+              {!useMagicLink && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                      Password
+                    </label>
+                    <Link href="/auth/forgot-password" className="text-sm font-medium text-gray-600 hover:text-black hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <AnimatedInput
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
+                    disabled={loading}
+                  />
+                </div>
+              )}
             </div>
 
             <AnimatedButton
@@ -147,9 +204,26 @@ export default function LoginPage() {
               loading={loading}
               className="w-full rounded-md bg-black px-4 py-2.5 text-white font-medium hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
             >
-              {loading ? 'Signing in...' : 'Sign in'}
+              {useMagicLink
+                ? loading ? 'Sending link...' : 'Email me a sign-in link'
+                : loading ? 'Signing in...' : 'Sign in'}
             </AnimatedButton>
 
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseMagicLink(!useMagicLink);
+                  setError(null);
+                  setSuccess(null);
+                }}
+                className="text-sm font-medium text-gray-600 hover:text-black hover:underline"
+                disabled={loading}
+              >
+                {useMagicLink ? 'Sign in with a password instead' : 'Email me a sign-in link instead'}
+              </button>
+            </div>
+
             <div className="text-center">
               <p className="text-sm text-gray-600">
                 Don't have an account?{' '}
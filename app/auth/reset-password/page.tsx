@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Animated, AnimatedInput, AnimatedButton } from '@/components/ui/animated';
+import { ApiError, readApiResponse } from '@/lib/utils/apiErrors';
+import { getPasswordPolicy } from '@/lib/utils/passwordPolicy';
+
+interface PasswordUpdateResponse {
+  message: string;
+}
+
+const { minLength } = getPasswordPolicy();
+
+/**
+ * Where password reset links end up: /auth/callback has signed the user in with the link,
+ * so the new password is set on that session.
+ */
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  // The session from the reset link is missing or has expired
+  const [linkExpired, setLinkExpired] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+    const password = formData.get('password') as string;
+    const confirmPassword = formData.get('confirmPassword') as string;
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/password/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      await readApiResponse<PasswordUpdateResponse>(response, 'Failed to update password');
+
+      router.push('/dashboard');
+      router.refresh();
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'UNAUTHORIZED') {
+        setLinkExpired(true);
+      } else {
+        setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
+      }
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-linear-to-br from-gray-50 to-gray-100">
+      <Animated type="slideUp" className="w-full max-w-md space-y-8" duration={0.5}>
+        <div className="text-center">
+          <Animated type="scale" delay={0.2} duration={0.6} className="text-4xl font-bold text-gray-900 mb-2">
+            Analytics Challenge
+          </Animated>
+          <Animated
+            type="width"
+            delay={0.4}
+            duration={0.6}
+            className="h-1 bg-black mx-auto rounded-full"
+          >
+            <span className="sr-only">Underline</span>
+          </Animated>
+          <Animated type="fadeInUp" delay={0.3} className="mt-6 text-3xl font-bold tracking-tight text-gray-800">
+            Choose a new password
+          </Animated>
+        </div>
+
+        <Animated type="fadeIn" delay={0.4} className="mt-8 space-y-6">
+          {linkExpired ? (
+            <Animated
+              type="slideRight"
+              className="rounded-md bg-red-50 p-4 text-sm text-red-800 border border-red-200"
+            >
+              Your reset link has expired.{' '}
+              <Link href="/auth/forgot-password" className="font-medium underline">
+                Request a new one
+              </Link>
+              .
+            </Animated>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <Animated
+                  type="slideRight"
+                  className="rounded-md bg-red-50 p-4 text-sm text-red-800 border border-red-200"
+                >
+                  {error}
+                </Animated>
+              )}
+
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                    New password
+                  </label>
+                  <AnimatedInput
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={minLength}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirm new password
+                  </label>
+                  <AnimatedInput
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={minLength}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+
+              <AnimatedButton
+                type="submit"
+                disabled={loading}
+                loading={loading}
+                className="w-full rounded-md bg-black px-4 py-2.5 text-white font-medium hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
+              >
+                {loading ? 'Saving...' : 'Set new password'}
+              </AnimatedButton>
+            </form>
+          )}
+        </Animated>
+      </Animated>
+    </div>
+  );
+}
@@ -1,27 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuthStore } from '@/lib/stores/authStore';
 import { Animated, AnimatedInput, AnimatedButton } from '@/components/ui/animated';
+import { PasswordStrengthMeter } from '@/components/auth/password-strength-meter';
+import { ApiError, readApiResponse } from '@/lib/utils/apiErrors';
+import { checkPasswordRules, getPasswordPolicy, getPasswordStrength } from '@/lib/utils/passwordPolicy';
 import type { User } from '@supabase/supabase-js';
 
-type SignupResponse =
-  | { error: string }
-  | {
-      success: true;
-      user: {
-        id: string;
-        email: string | undefined;
-        created_at: string;
-        email_confirmed_at: string | null;
-      };
-      session: { expires_at: number } | null;
-      requiresEmailConfirmation: boolean;
-      message: string;
-    };
+interface SignupResponse {
+  user: {
+    id: string;
+    email: string | undefined;
+    created_at: string;
+    email_confirmed_at: string | null;
+  };
+  session: { expires_at: number } | null;
+  requiresEmailConfirmation: boolean;
+  message: string;
+}
 
 export default function SignupPage() {
   const router = useRouter();
@@ -30,6 +30,11 @@ export default function SignupPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [password, setPassword] = useState('');
+
+  // The rules validateSignupCredentials enforces on the server, checked as the user types
+  const policy = useMemo(() => getPasswordPolicy(), []);
+  const passwordRules = useMemo(() => checkPasswordRules(password, policy), [password, policy]);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -39,7 +44,6 @@ export default function SignupPage() {
 
     const formData = new FormData(e.currentTarget);
     const email = formData.get('email') as string;
-    const password = formData.get('password') as string;
     const confirmPassword = formData.get('confirmPassword') as string;
 
     if (password !== confirmPassword) {
@@ -48,8 +52,9 @@ export default function SignupPage() {
       return;
     }
 
-    if (password.length < 6) {
-      setError('Password must be at least 6 characters');
+    const failedRule = passwordRules.find((rule) => !rule.passed);
+    if (failedRule) {
+      setError(failedRule.message);
       setLoading(false);
       return;
     }
@@ -61,13 +66,7 @@ export default function SignupPage() {
         body: JSON.stringify({ email, password }),
       });
 
-      const data = (await response.json()) as SignupResponse;
-
-      if (!response.ok || 'error' in data) {
-        setError('error' in data ? data.error : 'Signup failed');
-        setLoading(false);
-        return;
-      }
+      const { data } = await readApiResponse<SignupResponse>(response, 'Signup failed');
 
       setSuccess(data.message || 'Account created successfully!');
       
@@ -116,7 +115,7 @@ export default function SignupPage() {
         }, 4000);
       }
     } catch (err: unknown) {
-      setError('An error occurred. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'An error occurred. Please try again.');
       setLoading(false);
     }
   };
@@ -186,11 +185,13 @@ export default function SignupPage() {
                   type="password"
                   autoComplete="new-password"
                   required
-                  minLength={6}
+                  minLength={policy.minLength}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
                   className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
                   disabled={loading}
                 />
-                <p className="mt-1 text-xs text-gray-500">Must be at least 6 characters</p>
+                <PasswordStrengthMeter results={passwordRules} strength={getPasswordStrength(passwordRules)} />
               </div>
               <div>
                 <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
@@ -202,7 +203,7 @@ export default function SignupPage() {
                   type="password"
                   autoComplete="new-password"
                   required
-                  minLength={6}
+                  minLength={policy.minLength}
                   className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-black focus:ring-1 focus:ring-black transition-colors"
                   disabled={loading}
                 />
@@ -0,0 +1,18 @@
+import { requireAuthForPage } from '@/lib/utils/validation';
+import { DashboardLayout } from '@/components/dashboard/DashboardLayout';
+import { ApiTokensCard, ChangePasswordCard, WorkspaceCard } from '@/components/settings';
+
+export default async function SettingsPage() {
+  const user = await requireAuthForPage();
+
+  return (
+    <DashboardLayout userEmail={user.email}>
+      <div className="mx-auto max-w-4xl space-y-6">
+        <h2 className="text-2xl font-bold">Settings</h2>
+        <WorkspaceCard userId={user.id} />
+        <ChangePasswordCard />
+        <ApiTokensCard />
+      </div>
+    </DashboardLayout>
+  );
+}
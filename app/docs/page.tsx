@@ -0,0 +1,165 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { API_ERROR_STATUS } from '@/lib/utils/apiErrors';
+import {
+  API_OPERATIONS,
+  getOperationErrors,
+  getOperationParameters,
+  isRequestSchema,
+  toJsonSchema,
+  type ApiOperation,
+} from '@/lib/utils/openapi';
+
+export const metadata: Metadata = {
+  title: 'API Reference | Analytics Dashboard',
+};
+
+const METHOD_VARIANTS = {
+  get: 'secondary',
+  post: 'default',
+  patch: 'outline',
+  delete: 'destructive',
+} as const;
+
+/**
+ * Type of a parameter or body field, e.g. `integer (1–100)` or `instagram | tiktok`
+ */
+function describeSchema(schema: Record<string, unknown>): string {
+  if (schema.type === 'array') {
+    const items = schema.items as Record<string, unknown>;
+    return `list of ${describeSchema(items)}`;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : String(schema.type);
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.join(' | ');
+  }
+
+  const range =
+    schema.minimum !== undefined || schema.maximum !== undefined
+      ? ` (${schema.minimum ?? ''}–${schema.maximum ?? ''})`
+      : '';
+  return `${schema.format ? `${type}, ${schema.format}` : type}${range}`;
+}
+
+function FieldTable({ rows }: { rows: { name: string; location: string; required: boolean; schema: Record<string, unknown> }[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>In</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Default</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={`${row.location}-${row.name}`}>
+            <TableCell className="font-mono">
+              {row.name}
+              {row.required && <span className="text-red-600">*</span>}
+            </TableCell>
+            <TableCell>{row.location}</TableCell>
+            <TableCell className="whitespace-normal">{describeSchema(row.schema)}</TableCell>
+            <TableCell className="font-mono">{row.schema.default !== undefined ? String(row.schema.default) : ''}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function OperationCard({ operation }: { operation: ApiOperation }) {
+  const parameters = getOperationParameters(operation);
+  const bodyFields = isRequestSchema(operation.body)
+    ? Object.entries(operation.body).map(([name, field]) => ({
+        name,
+        location: 'body',
+        required: field.meta.required,
+        schema: toJsonSchema(field.meta),
+      }))
+    : [];
+  const rows = [
+    ...parameters.map((parameter) => ({
+      name: parameter.name,
+      location: parameter.in,
+      required: parameter.required,
+      schema: parameter.schema,
+    })),
+    ...bodyFields,
+  ];
+
+  return (
+    <Card id={`${operation.method}-${operation.path}`}>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          <Badge variant={METHOD_VARIANTS[operation.method]} className="uppercase">
+            {operation.method}
+          </Badge>
+          <span className="font-mono text-sm">{operation.path}</span>
+          {operation.deprecated && <Badge variant="outline">deprecated</Badge>}
+          {!operation.authenticated && <Badge variant="outline">public</Badge>}
+          {operation.sessionOnly && <Badge variant="outline">session only</Badge>}
+        </CardTitle>
+        <CardDescription>
+          <span className="font-medium text-gray-900">{operation.summary}.</span> {operation.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length > 0 && <FieldTable rows={rows} />}
+        {operation.body && bodyFields.length === 0 && (
+          <p className="text-sm text-gray-600">JSON body: see the request schema in the OpenAPI document.</p>
+        )}
+        <div className="flex flex-wrap gap-2 text-sm text-gray-600">
+          <span>Responses:</span>
+          <Badge variant="secondary">{operation.status ?? 200}</Badge>
+          {getOperationErrors(operation).map((code) => (
+            <Badge key={code} variant="outline">
+              {API_ERROR_STATUS[code]} {code}
+            </Badge>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * API reference, rendered from the same operations as /api/openapi.json
+ */
+export default function DocsPage() {
+  const tags = Array.from(new Set(API_OPERATIONS.map((operation) => operation.tag)));
+
+  return (
+    <main className="mx-auto max-w-5xl space-y-10 px-4 py-10">
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold text-gray-900">API Reference</h1>
+        <p className="text-gray-600">
+          Every route responds with <code>{'{ success: true, data, requestId }'}</code> or{' '}
+          <code>{'{ success: false, error: { code, message, details?, requestId } }'}</code>. Routes other than
+          the public ones need the session cookies set by <code>POST /api/auth/login</code>, or a personal API
+          token sent as <code>Authorization: Bearer ak_…</code> (<code>read</code> scope for GET,{' '}
+          <code>write</code> for the rest).
+        </p>
+        <p className="text-sm">
+          <Link href="/api/openapi.json" className="font-medium underline">
+            OpenAPI 3.1 document
+          </Link>
+        </p>
+      </header>
+
+      {tags.map((tag) => (
+        <section key={tag} className="space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">{tag}</h2>
+          {API_OPERATIONS.filter((operation) => operation.tag === tag).map((operation) => (
+            <OperationCard key={`${operation.method} ${operation.path}`} operation={operation} />
+          ))}
+        </section>
+      ))}
+    </main>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AnalyticsSummary } from '@/lib/hooks/useAnalyticsSummary';
+
+type BreakdownEntry = AnalyticsSummary['breakdown']['platform'][number];
+
+const LABELS: Record<string, string> = {
+  instagram: 'Instagram',
+  tiktok: 'TikTok',
+  image: 'Image',
+  video: 'Video',
+  carousel: 'Carousel',
+};
+
+function BreakdownTable({ title, entries }: { title: string; entries: BreakdownEntry[] }) {
+  return (
+    <div>
+      <h3 className="text-xs font-semibold mb-2 text-muted-foreground uppercase tracking-wide">
+        {title}
+      </h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No posts in this period</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,4.5rem)] gap-2 text-xs text-muted-foreground">
+            <span />
+            <span className="text-right">Posts</span>
+            <span className="text-right">Engagement</span>
+            <span className="text-right">Avg. rate</span>
+          </div>
+          {entries.map((entry, index) => (
+            <div key={entry.key} className="space-y-1">
+              <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,4.5rem)] gap-2 text-sm">
+                <span className="font-medium truncate">{LABELS[entry.key] ?? entry.key}</span>
+                <span className="text-right">{entry.totalPosts.toLocaleString()}</span>
+                <span className="text-right">{entry.totalEngagements.toLocaleString()}</span>
+                <span className="text-right">{entry.averageEngagementRate}%</span>
+              </div>
+              {/* Share of the period's total engagement */}
+              <div className="flex items-center gap-2">
+                <div className="h-1.5 flex-1 rounded-full bg-muted overflow-hidden">
+                  <motion.div
+                    className="h-full rounded-full bg-primary"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${entry.engagementShare}%` }}
+                    transition={{ delay: 0.2 + index * 0.05, duration: 0.5, ease: 'easeOut' }}
+                  />
+                </div>
+                <span className="w-12 text-right text-xs text-muted-foreground">
+                  {entry.engagementShare}%
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Compact comparison of summary metrics per platform and per media type,
+ * with bars showing each group's share of total engagement.
+ */
+export function SummaryBreakdown({ breakdown }: { breakdown: AnalyticsSummary['breakdown'] }) {
+  return (
+    <Card className="transition-shadow duration-300 hover:shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Breakdown</CardTitle>
+        <CardDescription className="text-xs">
+          Engagement by platform and media type, with share of total engagement
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-2">
+          <BreakdownTable title="By platform" entries={breakdown.platform} />
+          <BreakdownTable title="By media type" entries={breakdown.mediaType} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
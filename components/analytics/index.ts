@@ -1,2 +1,3 @@
 export { AnalyticsSummaryCards } from './AnalyticsSummaryCards';
 
+export { SummaryBreakdown } from './SummaryBreakdown';
@@ -0,0 +1,46 @@
+'use client';
+
+import { Check, X } from 'lucide-react';
+import type { PasswordRuleResult, PasswordStrength } from '@/lib/utils/passwordPolicy';
+
+const STRENGTH_STYLES: Record<PasswordStrength, { label: string; bar: string; text: string; width: string }> = {
+  weak: { label: 'Weak', bar: 'bg-red-500', text: 'text-red-700', width: 'w-1/3' },
+  fair: { label: 'Fair', bar: 'bg-yellow-500', text: 'text-yellow-700', width: 'w-2/3' },
+  strong: { label: 'Strong', bar: 'bg-green-500', text: 'text-green-700', width: 'w-full' },
+};
+
+interface PasswordStrengthMeterProps {
+  // checkPasswordRules results: the rules the server enforces
+  results: PasswordRuleResult[];
+  strength: PasswordStrength;
+}
+
+/**
+ * Live strength bar and rule checklist for a new password
+ */
+export function PasswordStrengthMeter({ results, strength }: PasswordStrengthMeterProps) {
+  const style = STRENGTH_STYLES[strength];
+
+  return (
+    <div className="mt-2 space-y-2" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="h-1.5 flex-1 rounded-full bg-gray-200">
+          <div className={`h-1.5 rounded-full transition-all ${style.bar} ${style.width}`} />
+        </div>
+        <span className={`text-xs font-medium ${style.text}`}>{style.label}</span>
+      </div>
+      <ul className="space-y-1">
+        {results.map((result) => (
+          <li
+            key={result.id}
+            className={`flex items-center gap-1.5 text-xs ${result.passed ? 'text-green-700' : 'text-gray-500'}`}
+          >
+            {result.passed ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+            {result.label}
+            <span className="sr-only">{result.passed ? '(met)' : '(not met)'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
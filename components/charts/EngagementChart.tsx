@@ -3,59 +3,174 @@
 import { useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { Animated } from '@/components/ui/animated';
-import { useDailyMetrics } from '@/lib/hooks';
+import { useActiveWorkspace, useDailyMetrics, useRecomputeDailyMetrics } from '@/lib/hooks';
 import { useUIStore } from '@/lib/stores';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
-import { TrendingUp } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RefreshCw, TrendingUp } from 'lucide-react';
 import { scaleTime, scaleLinear } from '@visx/scale';
-import { AreaClosed, LinePath } from '@visx/shape';
+import { AreaClosed, Bar, LinePath } from '@visx/shape';
 import { curveMonotoneX } from '@visx/curve';
 import { GridRows, GridColumns } from '@visx/grid';
-import { AxisBottom, AxisLeft } from '@visx/axis';
+import { AxisBottom, AxisLeft, AxisRight } from '@visx/axis';
 import { Group } from '@visx/group';
 import { TooltipWithBounds, defaultStyles } from '@visx/tooltip';
 import { localPoint } from '@visx/event';
 import { useTooltip } from '@visx/tooltip';
 import { ParentSize } from '@visx/responsive';
+import {
+  COMPARISON_MODES,
+  formatDateRangeLabel,
+  fromDateParam,
+  getComparisonRange,
+  getPresetRange,
+  toDateParam,
+} from '@/lib/utils/dateRange';
+import { calculateChange } from '@/lib/utils/metrics';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import { getRequiredWorkspaceRole, hasWorkspaceRole } from '@/lib/utils/workspaces';
+import {
+  CHART_GRANULARITIES,
+  CHART_SERIES,
+  CHART_SERIES_KEYS,
+  assignSeriesAxes,
+  getDefaultGranularity,
+  indexByBucketOffset,
+  type ChartGranularity,
+  type ChartAxis,
+  type ChartSeriesKey,
+} from '@/lib/utils/chartSeries';
+import type { ChartViewType } from '@/lib/stores/uiStore';
+import { getBucketOffset, type DailyMetricGranularity, type DailyMetricPoint } from '@/lib/utils/dailyMetrics';
 
-interface EngagementChartProps {
-  days?: number;
-}
+type SeriesValues = Record<ChartSeriesKey, number>;
 
-interface ChartDataPoint {
+type ChartDataPoint = SeriesValues & {
   date: Date;
-  engagement: number;
-}
+  // The comparison period's values for the same day offset, if it has a row for that day
+  previous: SeriesValues | null;
+};
 
 interface TooltipData {
   date: string;
-  engagement: number;
+  point: ChartDataPoint;
 }
 
 const defaultMargin = { top: 20, right: 20, bottom: 60, left: 70 };
-const engagementColor = '#3b82f6';
+// Extra room for tick labels when a series uses the right-hand axis
+const secondaryAxisMargin = 70;
+
+const VIEW_TYPES: { value: ChartViewType; label: string }[] = [
+  { value: 'line', label: 'Line Chart' },
+  { value: 'area', label: 'Area Chart' },
+  { value: 'stacked-bar', label: 'Stacked Bars' },
+];
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+const formatTick = (value: unknown) => compactNumber.format(Number(value));
+
+const formatDelta = (current: number, previous: number) => {
+  const delta = current - previous;
+  const change = calculateChange(current, previous);
+  return `${delta >= 0 ? '+' : ''}${delta.toLocaleString()} (${change >= 0 ? '+' : ''}${change}%)`;
+};
+
+// Tooltip heading for a point, e.g. "Mar 5, 2024", "Week of Mar 4, 2024" or "March 2024"
+const formatBucketLabel = (date: Date, granularity: DailyMetricGranularity) => {
+  if (granularity === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return granularity === 'week' ? `Week of ${label}` : label;
+};
+
+const toSeriesValues = (metric: DailyMetricPoint<ChartSeriesKey>): SeriesValues => ({
+  engagement: metric.engagement || 0,
+  reach: metric.reach || 0,
+  impressions: metric.impressions || 0,
+});
 
 function EngagementChartInner({
   width,
   height,
-  days,
 }: {
   width: number;
   height: number;
-  days: number;
 }) {
-  const { chartViewType, setChartViewType } = useUIStore();
-  
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const {
+    chartViewType,
+    setChartViewType,
+    chartGranularity,
+    setChartGranularity,
+    visibleSeries,
+    toggleChartSeries,
+    dateRange,
+    dateRangePreset,
+    comparisonMode,
+  } = useUIStore();
+  const isStacked = chartViewType === 'stacked-bar';
+
+  // The range comes from the dashboard date picker; fall back to the last 30 days if it's unset
+  const { startDate, endDate } = useMemo(() => {
+    const range = dateRange.start && dateRange.end ? dateRange : getPresetRange('30d')!;
+    return { startDate: range.start!, endDate: range.end! };
+  }, [dateRange]);
+
+  const startParam = toDateParam(startDate);
+  const endParam = toDateParam(endDate);
+  const comparisonRange = getComparisonRange(startParam, endParam, comparisonMode);
+
+  // Long ranges are bucketed by week or month so points stay readable
+  const defaultGranularity = getDefaultGranularity(startParam, endParam);
+  const granularity = chartGranularity === 'auto' ? defaultGranularity : chartGranularity;
+  const granularityLabel = CHART_GRANULARITIES.find((option) => option.value === granularity)?.label;
 
   const { data: metrics, isLoading, error } = useDailyMetrics({
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: endDate.toISOString().split('T')[0],
+    startDate: startParam,
+    endDate: endParam,
+    // Fetch every series up front so toggling the legend doesn't refetch
+    metrics: CHART_SERIES_KEYS,
+    granularity,
+  });
+
+  // The comparison period is drawn as a dashed overlay; it's optional, so a failed fetch only hides it
+  const { data: previousMetrics } = useDailyMetrics({
+    startDate: comparisonRange?.startDate,
+    endDate: comparisonRange?.endDate,
+    metrics: CHART_SERIES_KEYS,
+    granularity,
+    enabled: comparisonRange !== null,
   });
+  const comparisonStartParam = comparisonRange?.startDate;
+  const showComparison = comparisonRange !== null && previousMetrics !== undefined;
+  const comparisonLabel = COMPARISON_MODES.find((mode) => mode.value === comparisonMode)?.label;
+
+  // daily_metrics are derived from posts; rebuild the visible range in the workspace's timezone.
+  // Rebuilding writes, so it is only offered to the roles the recompute route accepts.
+  const activeWorkspace = useActiveWorkspace();
+  const canRebuild = activeWorkspace ? hasWorkspaceRole(activeWorkspace.role, getRequiredWorkspaceRole('POST')) : false;
+  const recompute = useRecomputeDailyMetrics();
+  const rebuildFromPosts = () => recompute.mutate({ startDate: startParam, endDate: endParam });
+  const rebuildButton = canRebuild && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={rebuildFromPosts}
+      disabled={recompute.isPending}
+      title="Recalculate daily metrics from your posts"
+    >
+      <RefreshCw className={`mr-2 h-4 w-4 ${recompute.isPending ? 'animate-spin' : ''}`} />
+      Rebuild from posts
+    </Button>
+  );
 
   const {
     tooltipData,
@@ -69,22 +184,66 @@ function EngagementChartInner({
   const chartData = useMemo<ChartDataPoint[]>(() => {
     if (!metrics) return [];
 
-    return metrics.map((metric) => ({
-      date: new Date(metric.date),
-      engagement: metric.engagement || 0,
-    }));
-  }, [metrics]);
+    // Match each bucket to the comparison bucket with the same offset from its range start
+    const previousByOffset =
+      comparisonStartParam && previousMetrics
+        ? indexByBucketOffset(previousMetrics, comparisonStartParam, granularity)
+        : null;
+
+    return metrics.map((metric) => {
+      const previous = previousByOffset?.get(getBucketOffset(metric.date, startParam, granularity));
+      return {
+        // Parse as a local date so points line up with the local date range
+        date: fromDateParam(metric.date) ?? new Date(metric.date),
+        ...toSeriesValues(metric),
+        previous: previous ? toSeriesValues(previous) : null,
+      };
+    });
+  }, [metrics, previousMetrics, comparisonStartParam, startParam, granularity]);
+
+  const series = useMemo(
+    () => CHART_SERIES.filter((s) => visibleSeries.includes(s.key)),
+    [visibleSeries]
+  );
+
+  // The dashed overlay is drawn for lines and areas; stacked bars show the comparison in the tooltip only
+  const showOverlay = showComparison && !isStacked;
+
+  // Highest value a line reaches, including its dashed comparison line
+  const seriesPeak = useCallback(
+    (d: ChartDataPoint, key: ChartSeriesKey) =>
+      showOverlay && d.previous ? Math.max(d[key], d.previous[key]) : d[key],
+    [showOverlay]
+  );
+
+  // Stacked bars share one axis; otherwise small series move to the right axis
+  const axes = useMemo(() => {
+    const peaks = Object.fromEntries(
+      CHART_SERIES_KEYS.map((key) => [key, Math.max(0, ...chartData.map((d) => seriesPeak(d, key)))])
+    );
+    const assigned = assignSeriesAxes(peaks, visibleSeries);
+    if (isStacked) {
+      visibleSeries.forEach((key) => (assigned[key] = 'left'));
+    }
+    return assigned;
+  }, [chartData, visibleSeries, isStacked, seriesPeak]);
+  const hasRightAxis = series.some((s) => axes[s.key] === 'right');
 
-  const margin = defaultMargin;
+  const margin = hasRightAxis ? { ...defaultMargin, right: secondaryAxisMargin } : defaultMargin;
   // Ensure inner dimensions don't go negative
   const innerWidth = Math.max(0, width - margin.left - margin.right);
   const innerHeight = Math.max(0, height - margin.top - margin.bottom);
 
+  // Bars are centred on their date, so keep half a slot free at either end
+  const slotWidth = chartData.length > 0 ? innerWidth / chartData.length : innerWidth;
+  const barWidth = Math.max(2, slotWidth * 0.7);
+  const xPadding = isStacked ? slotWidth / 2 : 0;
+
   // Scales
   const dateScale = useMemo(
     () =>
       scaleTime({
-        range: [0, innerWidth],
+        range: [xPadding, innerWidth - xPadding],
         domain: chartData.length > 0
           ? [
               new Date(Math.min(...chartData.map((d) => d.date.getTime()))),
@@ -92,24 +251,44 @@ function EngagementChartInner({
             ]
           : [startDate, endDate],
       }),
-    [chartData, innerWidth, startDate, endDate]
+    [chartData, innerWidth, xPadding, startDate, endDate]
+  );
+
+  // Peak of the series on an axis; stacked bars peak at the tallest stack
+  const axisPeak = useCallback(
+    (axis: ChartAxis) => {
+      const keys = series.filter((s) => axes[s.key] === axis).map((s) => s.key);
+      const values = chartData.map((d) =>
+        isStacked
+          ? keys.reduce((total, key) => total + d[key], 0)
+          : Math.max(0, ...keys.map((key) => seriesPeak(d, key)))
+      );
+      return Math.max(0, ...values);
+    },
+    [chartData, series, axes, isStacked, seriesPeak]
+  );
+
+  const leftScale = useMemo(
+    () =>
+      scaleLinear({
+        range: [innerHeight, 0],
+        domain: [0, axisPeak('left') * 1.1 || 1000],
+        nice: true,
+      }),
+    [axisPeak, innerHeight]
   );
 
-  const engagementScale = useMemo(
+  const rightScale = useMemo(
     () =>
       scaleLinear({
         range: [innerHeight, 0],
-        domain: [
-          0,
-          chartData.length > 0
-            ? Math.max(...chartData.map((d) => d.engagement)) * 1.1
-            : 1000,
-        ],
+        domain: [0, axisPeak('right') * 1.1 || 1000],
         nice: true,
       }),
-    [chartData, innerHeight]
+    [axisPeak, innerHeight]
   );
 
+  const scaleFor = (key: ChartSeriesKey) => (axes[key] === 'right' ? rightScale : leftScale);
 
   const handleMouseMove = useCallback(
     (event: React.MouseEvent<SVGRectElement>) => {
@@ -146,18 +325,14 @@ function EngagementChartInner({
       
       showTooltip({
         tooltipData: {
-          date: closest.date.toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-            year: 'numeric',
-          }),
-          engagement: closest.engagement,
+          date: formatBucketLabel(closest.date, granularity),
+          point: closest,
         },
         tooltipLeft: tooltipX,
         tooltipTop: tooltipY,
       });
     },
-    [chartData, dateScale, engagementScale, margin, showTooltip, innerWidth, height]
+    [chartData, dateScale, margin, showTooltip, innerWidth, height, granularity]
   );
 
   if (isLoading) {
@@ -179,7 +354,7 @@ function EngagementChartInner({
       <Card>
         <CardContent className="pt-6">
           <p className="text-destructive text-center">
-            {error instanceof Error ? error.message : 'Failed to load engagement data'}
+            {getErrorMessage(error, 'Failed to load engagement data')}
           </p>
         </CardContent>
       </Card>
@@ -190,7 +365,10 @@ function EngagementChartInner({
     return (
       <Card>
         <CardContent className="pt-6">
-          <p className="text-center text-muted-foreground">No data available</p>
+          <div className="flex flex-col items-center gap-4">
+            <p className="text-center text-muted-foreground">No data available</p>
+            {rebuildButton}
+          </div>
         </CardContent>
       </Card>
     );
@@ -213,26 +391,42 @@ function EngagementChartInner({
                   Engagement Trends
                 </CardTitle>
                 <CardDescription className="mt-1">
-                  Engagement (likes + comments + shares) over the last {days} days
+                  {granularityLabel} engagement, reach and impressions · {formatDateRangeLabel(dateRangePreset, dateRange)}
+                  {recompute.isError && ' · Rebuild failed'}
                 </CardDescription>
               </div>
-            <div className="inline-flex items-center rounded-lg border border-border p-1 bg-muted/50">
-              <Button
-                variant={chartViewType === 'line' ? 'default' : 'ghost'}
-                size="sm"
-                className="h-8 px-3"
-                onClick={() => setChartViewType('line')}
-              >
-                Line Chart
-              </Button>
-              <Button
-                variant={chartViewType === 'area' ? 'default' : 'ghost'}
-                size="sm"
-                className="h-8 px-3"
-                onClick={() => setChartViewType('area')}
+            <div className="flex flex-wrap items-center gap-2">
+              {rebuildButton}
+              <Select
+                value={chartGranularity}
+                onValueChange={(value) => setChartGranularity(value as ChartGranularity)}
               >
-                Area Chart
-              </Button>
+                <SelectTrigger className="h-9 w-[150px]" aria-label="Granularity">
+                  <SelectValue placeholder="Granularity" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHART_GRANULARITIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value === 'auto'
+                        ? `Auto (${CHART_GRANULARITIES.find((g) => g.value === defaultGranularity)?.label})`
+                        : option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="inline-flex items-center rounded-lg border border-border p-1 bg-muted/50">
+                {VIEW_TYPES.map((view) => (
+                  <Button
+                    key={view.value}
+                    variant={chartViewType === view.value ? 'default' : 'ghost'}
+                    size="sm"
+                    className="h-8 px-3"
+                    onClick={() => setChartViewType(view.value)}
+                  >
+                    {view.label}
+                  </Button>
+                ))}
+              </div>
             </div>
           </div>
         </Animated>
@@ -259,7 +453,7 @@ function EngagementChartInner({
               <Group left={margin.left} top={margin.top}>
               {/* Grid */}
               <GridRows
-                scale={engagementScale}
+                scale={leftScale}
                 width={innerWidth}
                 strokeDasharray="3,3"
                 stroke="hsl(var(--muted-foreground))"
@@ -274,48 +468,69 @@ function EngagementChartInner({
               />
 
               {/* Render based on chart type */}
-              {chartViewType === 'area' ? (
-                <>
-                  <AreaClosed
-                    data={chartData}
-                    x={(d) => dateScale(d.date)}
-                    y={(d) => engagementScale(d.engagement)}
-                    yScale={engagementScale}
-                    stroke="none"
-                    fill={engagementColor}
-                    fillOpacity={0.2}
-                    curve={curveMonotoneX}
-                  />
-                  <LinePath
-                    data={chartData}
-                    x={(d) => dateScale(d.date)}
-                    y={(d) => engagementScale(d.engagement)}
-                    stroke={engagementColor}
-                    strokeWidth={2.5}
-                    curve={curveMonotoneX}
-                  />
-                </>
-              ) : (
-                <LinePath
-                  data={chartData}
-                  x={(d) => dateScale(d.date)}
-                  y={(d) => engagementScale(d.engagement)}
-                  stroke={engagementColor}
-                  strokeWidth={2.5}
-                  curve={curveMonotoneX}
-                />
-              )}
+              {isStacked
+                ? chartData.map((d) => {
+                    // Stack visible series bottom-up in legend order
+                    let base = 0;
+                    return series.map((s) => {
+                      const top = base + d[s.key];
+                      const y = leftScale(top);
+                      const barHeight = leftScale(base) - y;
+                      base = top;
+                      return (
+                        <Bar
+                          key={`${s.key}-${d.date.getTime()}`}
+                          x={dateScale(d.date) - barWidth / 2}
+                          y={y}
+                          width={barWidth}
+                          height={Math.max(0, barHeight)}
+                          fill={s.color}
+                          fillOpacity={0.85}
+                        />
+                      );
+                    });
+                  })
+                : series.map((s) => (
+                    <Group key={s.key}>
+                      {chartViewType === 'area' && (
+                        <AreaClosed
+                          data={chartData}
+                          x={(d) => dateScale(d.date)}
+                          y={(d) => scaleFor(s.key)(d[s.key])}
+                          yScale={scaleFor(s.key)}
+                          stroke="none"
+                          fill={s.color}
+                          fillOpacity={0.15}
+                          curve={curveMonotoneX}
+                        />
+                      )}
+                      {showOverlay && (
+                        <LinePath
+                          data={chartData.filter((d) => d.previous)}
+                          x={(d) => dateScale(d.date)}
+                          y={(d) => scaleFor(s.key)(d.previous![s.key])}
+                          stroke={s.color}
+                          strokeWidth={1.5}
+                          strokeDasharray="6,4"
+                          strokeOpacity={0.7}
+                          curve={curveMonotoneX}
+                        />
+                      )}
+                      <LinePath
+                        data={chartData}
+                        x={(d) => dateScale(d.date)}
+                        y={(d) => scaleFor(s.key)(d[s.key])}
+                        stroke={s.color}
+                        strokeWidth={2.5}
+                        curve={curveMonotoneX}
+                      />
+                    </Group>
+                  ))}
 
-              {/* Tooltip indicator line and dot */}
-              {tooltipOpen && tooltipData && tooltipLeft != null && chartData.length > 0 && (() => {
-                const closestDateX = tooltipLeft - margin.left;
-                // Find the data point for the tooltip
-                const tooltipPoint = chartData.find(d => {
-                  const x = dateScale(d.date);
-                  return Math.abs(x - closestDateX) < 5;
-                });
-                
-                if (!tooltipPoint) return null;
+              {/* Tooltip indicator line and dots */}
+              {tooltipOpen && tooltipData && (() => {
+                const tooltipPoint = tooltipData.point;
+                const closestDateX = dateScale(tooltipPoint.date);
                 
                 return (
                   <>
@@ -331,16 +546,19 @@ function EngagementChartInner({
                       opacity={0.4}
                       pointerEvents="none"
                     />
-                    {/* Engagement dot */}
-                    <circle
-                      cx={closestDateX}
-                      cy={engagementScale(tooltipPoint.engagement)}
-                      r={6}
-                      fill={engagementColor}
-                      stroke="white"
-                      strokeWidth={2.5}
-                      pointerEvents="none"
-                    />
+                    {/* One dot per visible series (bars are highlighted by the line alone) */}
+                    {!isStacked && series.map((s) => (
+                      <circle
+                        key={s.key}
+                        cx={closestDateX}
+                        cy={scaleFor(s.key)(tooltipPoint[s.key])}
+                        r={6}
+                        fill={s.color}
+                        stroke="white"
+                        strokeWidth={2.5}
+                        pointerEvents="none"
+                      />
+                    ))}
                   </>
                 );
               })()}
@@ -354,6 +572,15 @@ function EngagementChartInner({
                 tickStroke="hsl(var(--muted-foreground))"
                 tickFormat={(value) => {
                   const date = value as Date;
+                  if (granularity === 'month') {
+                    // e.g. "Jan 2024"
+                    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+                  }
+                  if (granularity === 'week') {
+                    // Weeks are labelled by their Monday, e.g. "Mar 04"
+                    return date.toLocaleDateString('en-US', { month: 'short', day: '2-digit' });
+                  }
+
                   const day = date.getDate();
                   const monthShort = date.toLocaleDateString('en-US', { month: 'short' });
                   const monthLong = date.toLocaleDateString('en-US', { month: 'long' });
@@ -385,9 +612,10 @@ function EngagementChartInner({
                   textAnchor: 'middle',
                 }}
               />
-              {/* Y-axis for Engagement */}
+              {/* Primary y-axis */}
               <AxisLeft
-                scale={engagementScale}
+                scale={leftScale}
+                tickFormat={formatTick}
                 stroke="hsl(var(--muted-foreground))"
                 tickStroke="hsl(var(--muted-foreground))"
                 tickLabelProps={() => ({
@@ -397,6 +625,22 @@ function EngagementChartInner({
                   dx: -10,
                 })}
               />
+              {/* Secondary y-axis for much smaller series */}
+              {hasRightAxis && (
+                <AxisRight
+                  left={innerWidth}
+                  scale={rightScale}
+                  tickFormat={formatTick}
+                  stroke="hsl(var(--muted-foreground))"
+                  tickStroke="hsl(var(--muted-foreground))"
+                  tickLabelProps={() => ({
+                    fill: 'hsl(var(--muted-foreground))',
+                    fontSize: 11,
+                    textAnchor: 'start',
+                    dx: 10,
+                  })}
+                />
+              )}
               </Group>
             </g>
 
@@ -436,30 +680,68 @@ function EngagementChartInner({
             >
               <div className="space-y-2">
                 <div className="font-semibold text-sm border-b pb-1">{tooltipData.date}</div>
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-3 h-3 rounded-full shrink-0"
-                    style={{ backgroundColor: engagementColor }}
-                  />
-                  <div className="flex-1">
-                    <div className="text-xs text-muted-foreground">Engagement</div>
-                    <div className="text-sm font-semibold">{tooltipData.engagement.toLocaleString()}</div>
+                {series.map((s) => (
+                  <div key={s.key} className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: s.color }}
+                    />
+                    <div className="flex-1">
+                      <div className="text-xs text-muted-foreground">{s.label}</div>
+                      <div className="text-sm font-semibold">{tooltipData.point[s.key].toLocaleString()}</div>
+                      {tooltipData.point.previous && (
+                        <div
+                          className={`text-xs ${
+                            tooltipData.point[s.key] >= tooltipData.point.previous[s.key]
+                              ? 'text-green-600 dark:text-green-400'
+                              : 'text-red-600 dark:text-red-400'
+                          }`}
+                        >
+                          {formatDelta(tooltipData.point[s.key], tooltipData.point.previous[s.key])}
+                          <span className="text-muted-foreground">
+                            {' '}vs {tooltipData.point.previous[s.key].toLocaleString()}
+                          </span>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
             </TooltipWithBounds>
           )}
         </Animated>
 
         {/* Legend */}
-        <div className="flex items-center justify-center gap-6 pt-4 border-t">
-          <div className="flex items-center gap-2">
-            <div
-              className="w-3 h-3 rounded-sm shrink-0"
-              style={{ backgroundColor: engagementColor }}
-            />
-            <span className="text-xs text-muted-foreground">Engagement (likes + comments + shares)</span>
-          </div>
+        <div className="flex flex-wrap items-center justify-center gap-6 pt-4 border-t">
+          {CHART_SERIES.map((s) => {
+            const isVisible = visibleSeries.includes(s.key);
+            return (
+              <button
+                key={s.key}
+                type="button"
+                onClick={() => toggleChartSeries(s.key)}
+                aria-pressed={isVisible}
+                className={`flex items-center gap-2 transition-opacity ${isVisible ? '' : 'opacity-40'}`}
+              >
+                <div
+                  className="w-3 h-3 rounded-sm shrink-0"
+                  style={{ backgroundColor: s.color }}
+                />
+                <span className="text-xs text-muted-foreground">
+                  {s.label}
+                  {isVisible && !isStacked && axes[s.key] === 'right' && ' (right axis)'}
+                </span>
+              </button>
+            );
+          })}
+          {showOverlay && (
+            <div className="flex items-center gap-2">
+              <svg width={18} height={4} className="shrink-0 text-muted-foreground" aria-hidden>
+                <line x1={0} x2={18} y1={2} y2={2} stroke="currentColor" strokeWidth={1.5} strokeDasharray="4,3" />
+              </svg>
+              <span className="text-xs text-muted-foreground">Dashed: {comparisonLabel}</span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -467,7 +749,7 @@ function EngagementChartInner({
   );
 }
 
-export function EngagementChart({ days = 30 }: EngagementChartProps) {
+export function EngagementChart() {
   return (
     <div className="w-full">
       <ParentSize debounceTime={10}>
@@ -478,7 +760,6 @@ export function EngagementChart({ days = 30 }: EngagementChartProps) {
             <EngagementChartInner 
               width={containerWidth}
               height={400} 
-              days={days} 
             />
           );
         }}
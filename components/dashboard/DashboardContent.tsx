@@ -22,7 +22,7 @@ export function DashboardContent() {
           <Animated type="slideRight" delay={0.35} className="mb-4">
             <h2 className="text-2xl font-semibold">Engagement Trends</h2>
           </Animated>
-          <EngagementChart days={30} />
+          <EngagementChart />
         </div>
       </Animated>
       
@@ -0,0 +1,111 @@
+'use client';
+
+import { CalendarDays } from 'lucide-react';
+import { useUIStore } from '@/lib/stores';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  COMPARISON_MODES,
+  DATE_RANGE_PRESETS,
+  fromDateParam,
+  toDateParam,
+  type ComparisonMode,
+  type DateRangePreset,
+} from '@/lib/utils/dateRange';
+
+/**
+ * Dashboard-wide date range selector.
+ * Drives the analytics summary, engagement chart and posts table through useUIStore,
+ * and picks the period the summary trends are compared against.
+ */
+export function DateRangePicker() {
+  const {
+    dateRange,
+    dateRangePreset,
+    comparisonMode,
+    setDateRange,
+    setDateRangePreset,
+    setComparisonMode,
+  } = useUIStore();
+  const today = toDateParam(new Date());
+
+  const handleStartChange = (value: string) => {
+    const start = fromDateParam(value);
+    if (!start) return;
+    // Keep the range ordered: moving the start past the end drags the end along
+    const end = dateRange.end && dateRange.end >= start ? dateRange.end : start;
+    setDateRange({ start, end });
+  };
+
+  const handleEndChange = (value: string) => {
+    const end = fromDateParam(value);
+    if (!end) return;
+    const start = dateRange.start && dateRange.start <= end ? dateRange.start : end;
+    setDateRange({ start, end });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={dateRangePreset}
+        onValueChange={(value) => setDateRangePreset(value as DateRangePreset)}
+      >
+        <SelectTrigger className="w-[160px]" aria-label="Date range">
+          <CalendarDays className="h-4 w-4 text-muted-foreground" />
+          <SelectValue placeholder="Date range" />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_RANGE_PRESETS.map((preset) => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {dateRangePreset === 'custom' && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            aria-label="Start date"
+            value={dateRange.start ? toDateParam(dateRange.start) : ''}
+            max={today}
+            onChange={(e) => handleStartChange(e.target.value)}
+            className="w-[150px]"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            aria-label="End date"
+            value={dateRange.end ? toDateParam(dateRange.end) : ''}
+            max={today}
+            onChange={(e) => handleEndChange(e.target.value)}
+            className="w-[150px]"
+          />
+        </div>
+      )}
+
+      <Select
+        value={comparisonMode}
+        onValueChange={(value) => setComparisonMode(value as ComparisonMode)}
+      >
+        <SelectTrigger className="w-[200px]" aria-label="Compare to">
+          <SelectValue placeholder="Compare to" />
+        </SelectTrigger>
+        <SelectContent>
+          {COMPARISON_MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
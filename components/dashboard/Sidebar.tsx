@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
-import { LayoutDashboard, BarChart3, FileText, LogOut, X } from 'lucide-react';
+import { LayoutDashboard, BarChart3, FileText, Settings, LogOut, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState, useEffect } from 'react';
 import { useUIStore } from '@/lib/stores/uiStore';
@@ -29,6 +29,11 @@ const navItems: NavItem[] = [
     href: '/dashboard#posts',
     icon: FileText,
   },
+  {
+    title: 'Settings',
+    href: '/dashboard/settings',
+    icon: Settings,
+  },
 ];
 
 export function Sidebar() {
@@ -105,10 +110,12 @@ export function Sidebar() {
           const Icon = item.icon;
           // Extract the hash from href for active state checking
           const hash = item.href.split('#')[1] || '';
-          const isActive = pathname === '/dashboard' && (
-            (item.title === 'Dashboard' && (!activeHash || activeHash === 'analytics-overview')) ||
-            (hash && activeHash === hash)
-          );
+          const isActive = hash
+            ? pathname === '/dashboard' && (
+              (item.title === 'Dashboard' && (!activeHash || activeHash === 'analytics-overview')) ||
+              activeHash === hash
+            )
+            : pathname === item.href;
           
           return (
             <Link
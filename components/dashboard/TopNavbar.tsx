@@ -5,6 +5,8 @@ import { Animated } from '@/components/ui/animated';
 import { User, Menu } from 'lucide-react';
 import { useUIStore } from '@/lib/stores/uiStore';
 import { Button } from '@/components/ui/button';
+import { DateRangePicker } from './DateRangePicker';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 interface TopNavbarProps {
   userEmail?: string;
@@ -15,7 +17,7 @@ export function TopNavbar({ userEmail }: TopNavbarProps) {
 
   return (
     <nav className="sticky top-0 z-50 w-full border-b border-border bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/60">
-      <div className="flex h-16 items-center justify-between px-6">
+      <div className="flex min-h-16 flex-wrap items-center justify-between gap-y-2 px-6 py-2">
         {/* Welcome Section */}
         <div className="flex items-center gap-4">
           <Button
@@ -39,9 +41,11 @@ export function TopNavbar({ userEmail }: TopNavbarProps) {
           </div>
         </div>
 
-        {/* User Info */}
+        {/* Workspace, Date Range & User Info */}
         <Animated type="slideLeft" delay={0.2}>
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <WorkspaceSwitcher />
+            <DateRangePicker />
             <motion.div
               className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-primary-foreground"
               whileHover={{ scale: 1.1 }}
@@ -49,7 +53,7 @@ export function TopNavbar({ userEmail }: TopNavbarProps) {
             >
               <User className="h-4 w-4" />
             </motion.div>
-            <span className="text-sm font-medium text-muted-foreground">
+            <span className="hidden sm:inline text-sm font-medium text-muted-foreground">
               {userEmail || 'User'}
             </span>
           </div>
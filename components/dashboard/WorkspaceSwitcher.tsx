@@ -0,0 +1,47 @@
+'use client';
+
+import { Building2 } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSwitchWorkspace, useWorkspaces } from '@/lib/hooks';
+import { WORKSPACE_ROLE_LABELS } from '@/lib/utils/workspaces';
+
+/**
+ * Picks the workspace the dashboard shows. The choice is kept in a cookie that withAuth
+ * reads, so every API request acts on it; switching refetches everything.
+ */
+export function WorkspaceSwitcher() {
+  const { data, isLoading } = useWorkspaces();
+  const switchWorkspace = useSwitchWorkspace();
+
+  if (isLoading) {
+    return <Skeleton className="h-9 w-[180px]" />;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <Select value={data.activeWorkspaceId} onValueChange={switchWorkspace}>
+      <SelectTrigger className="w-[180px]" aria-label="Workspace">
+        <Building2 className="h-4 w-4 text-muted-foreground" />
+        <SelectValue placeholder="Workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {data.workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+            <span className="text-xs text-muted-foreground">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, CheckCircle2, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useImportPosts } from '@/lib/hooks';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import {
+  parseCsv,
+  suggestColumnMapping,
+  buildImportPreview,
+  POST_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  MAX_IMPORT_FILE_SIZE,
+  type ColumnMapping,
+  type PostImportField,
+} from '@/lib/utils/postImport';
+
+// Rows listed in the preview; the counts always cover the whole file
+const PREVIEW_LIMIT = 100;
+
+interface ParsedFile {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Imports posts from a CSV file: upload, map columns to post fields,
+ * review per-row validation errors, then import the valid rows in one batch.
+ */
+export function ImportPostsDialog() {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const importPosts = useImportPosts();
+
+  const preview = useMemo(
+    () => (file ? buildImportPreview(file.rows, mapping) : []),
+    [file, mapping]
+  );
+  const validPosts = useMemo(
+    () => preview.filter((row) => row.errors.length === 0).map((row) => row.post),
+    [preview]
+  );
+  // Rows with errors first, so problems are visible without scrolling
+  const previewRows = useMemo(
+    () =>
+      [...preview]
+        .sort((a, b) => Number(b.errors.length > 0) - Number(a.errors.length > 0) || a.row - b.row)
+        .slice(0, PREVIEW_LIMIT),
+    [preview]
+  );
+  const invalidCount = preview.length - validPosts.length;
+
+  const reset = () => {
+    setFile(null);
+    setFileError(null);
+    setMapping({});
+    importPosts.reset();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      reset();
+    }
+  };
+
+  const handleFileChange = async (selected: File | undefined) => {
+    reset();
+    if (!selected) return;
+
+    if (selected.size > MAX_IMPORT_FILE_SIZE) {
+      setFileError('File is too large (maximum 5 MB)');
+      return;
+    }
+
+    const [headers, ...rows] = parseCsv(await selected.text());
+    if (!headers || rows.length === 0) {
+      setFileError('File has no data rows');
+      return;
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      setFileError(`File has ${rows.length} rows; a single import is limited to ${MAX_IMPORT_ROWS}`);
+      return;
+    }
+
+    setFile({ headers, rows });
+    setMapping(suggestColumnMapping(headers));
+  };
+
+  const handleMappingChange = (field: PostImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === 'none') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <motion.div
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        </DialogTrigger>
+      </motion.div>
+      <DialogContent className="max-w-4xl sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import posts</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file with one post per row. Every row needs a permalink: it is how posts
+            already imported are recognized and skipped, so importing a file again adds nothing twice.
+          </DialogDescription>
+        </DialogHeader>
+
+        {importPosts.isSuccess ? (
+          <div className="flex items-center gap-3 rounded-md border p-4">
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+            <p className="text-sm">
+              Imported {importPosts.data.imported} {importPosts.data.imported === 1 ? 'post' : 'posts'}
+              {importPosts.data.skipped > 0 && `, skipped ${importPosts.data.skipped} already imported`}.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              aria-label="CSV file"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+            {file && (
+              <>
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Columns</h3>
+                  <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                    {POST_IMPORT_FIELDS.map(({ field, label, required }) => (
+                      <label key={field} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          {label}
+                          {required && <span className="text-destructive"> *</span>}
+                        </span>
+                        <Select
+                          value={mapping[field] !== undefined ? String(mapping[field]) : 'none'}
+                          onValueChange={(value) => handleMappingChange(field, value)}
+                        >
+                          <SelectTrigger className="w-[150px]" size="sm" aria-label={`${label} column`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not mapped</SelectItem>
+                            {file.headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </label>
+                    ))}
+                  </div>
+                  {mapping.permalink === undefined && (
+                    <p className="flex items-center gap-1 text-sm text-destructive mt-2">
+                      <AlertCircle className="h-4 w-4 shrink-0" />
+                      Map a Permalink column to import: without one, importing the file again would duplicate every post.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2">
+                    Preview: {validPosts.length} valid, {invalidCount} with errors
+                  </h3>
+                  <div className="rounded-md border max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-14">Row</TableHead>
+                          <TableHead>Platform</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Posted at</TableHead>
+                          <TableHead>Caption</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {previewRows.map(({ row, post, errors }) => (
+                          <TableRow key={row}>
+                            <TableCell>{row}</TableCell>
+                            <TableCell>{post.platform ?? '—'}</TableCell>
+                            <TableCell>{post.mediaType ?? '—'}</TableCell>
+                            <TableCell>{post.postedAt ?? '—'}</TableCell>
+                            <TableCell className="max-w-[200px] truncate">{post.caption ?? ''}</TableCell>
+                            <TableCell>
+                              {errors.length === 0 ? (
+                                <span className="text-green-600">Ready</span>
+                              ) : (
+                                <ul className="text-destructive space-y-0.5">
+                                  {errors.map((error) => (
+                                    <li key={error} className="flex items-start gap-1">
+                                      <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                      {error}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {preview.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Showing {PREVIEW_LIMIT} of {preview.length} rows
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {importPosts.isError && (
+              <p className="text-sm text-destructive">{getErrorMessage(importPosts.error, 'Failed to import posts')}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {importPosts.isSuccess ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <Button
+              onClick={() => importPosts.mutate(validPosts)}
+              disabled={validPosts.length === 0 || importPosts.isPending}
+            >
+              {importPosts.isPending
+                ? 'Importing...'
+                : `Import ${validPosts.length} valid ${validPosts.length === 1 ? 'row' : 'rows'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,13 @@
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
   getFilteredRowModel,
   flexRender,
+  functionalUpdate,
   type ColumnDef,
   type SortingState,
   type ColumnFiltersState,
+  type OnChangeFn,
 } from '@tanstack/react-table';
 import { useState, useMemo } from 'react';
 import {
@@ -23,7 +24,9 @@ import { Button } from '@/components/ui/button';
 import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 import type { Tables } from '@/lib/database.types';
 import { cn } from '@/lib/utils';
+import { getSearchTerms, splitHighlights } from '@/lib/utils/search';
 import { useUIStore } from '@/lib/stores';
+import type { SortField } from '@/lib/stores/uiStore';
 
 type Post = Tables<'posts'>;
 
@@ -40,6 +43,34 @@ function truncateText(text: string | null, maxLength: number = 50): string {
   return text.slice(0, maxLength) + '...';
 }
 
+// Caption with the active search terms highlighted
+function HighlightedCaption({ caption }: { caption: string | null }) {
+  const searchQuery = useUIStore((state) => state.searchQuery);
+  const truncated = truncateText(caption, 60);
+
+  const segments = useMemo(
+    () => (caption ? splitHighlights(truncated, getSearchTerms(searchQuery)) : [{ text: truncated, match: false }]),
+    [caption, truncated, searchQuery]
+  );
+
+  return (
+    <p className="text-sm text-muted-foreground line-clamp-2 wrap-break-word">
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark
+            key={i}
+            className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
 // Sortable header component
 function SortableHeader({
   column,
@@ -96,12 +127,9 @@ const defaultColumns: ColumnDef<Post>[] = [
     header: 'Caption',
     cell: ({ row }) => {
       const caption = row.getValue('caption') as string | null;
-      const truncated = truncateText(caption, 60);
       return (
         <div className="max-w-[150px] sm:max-w-[200px] md:max-w-[300px]">
-          <p className="text-sm text-muted-foreground line-clamp-2 wrap-break-word">
-            {truncated}
-          </p>
+          <HighlightedCaption caption={caption} />
         </div>
       );
     },
@@ -211,11 +239,28 @@ export function PostsTable({
   isLoading = false,
   columns = defaultColumns,
 }: PostsTableProps) {
-  const [sorting, setSorting] = useState<SortingState>([
-    { id: 'posted_at', desc: true },
-  ]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const { setSelectedPost, platformFilter } = useUIStore();
+  const {
+    setSelectedPost,
+    platformFilter,
+    sortField,
+    sortOrder,
+    setSortField,
+    setSortOrder,
+  } = useUIStore();
+
+  // Sorting is applied server-side: the table only mirrors and updates the store
+  const sorting = useMemo<SortingState>(
+    () => [{ id: sortField, desc: sortOrder === 'desc' }],
+    [sortField, sortOrder]
+  );
+
+  const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
+    const [next] = functionalUpdate(updater, sorting);
+    // Clearing the sort falls back to the default ordering (newest first)
+    setSortField((next?.id as SortField) ?? 'posted_at');
+    setSortOrder(next ? (next.desc ? 'desc' : 'asc') : 'desc');
+  };
 
   // Apply platform filter to column filters
   useMemo(() => {
@@ -230,9 +275,9 @@ export function PostsTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
-    onSortingChange: setSorting,
+    manualSorting: true,
+    onSortingChange: handleSortingChange,
     onColumnFiltersChange: setColumnFilters,
     state: {
       sorting,
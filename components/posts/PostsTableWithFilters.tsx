@@ -3,7 +3,8 @@
 import { motion } from 'framer-motion';
 import { Animated } from '@/components/ui/animated';
 import { PostsTable } from './PostsTable';
-import { usePosts } from '@/lib/hooks';
+import { ImportPostsDialog } from './ImportPostsDialog';
+import { useInfinitePosts, useDebouncedValue, useExportPosts } from '@/lib/hooks';
 import { useUIStore } from '@/lib/stores';
 import { Button } from '@/components/ui/button';
 import {
@@ -14,39 +15,75 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { RefreshCw } from 'lucide-react';
-import { useMemo } from 'react';
+import { RefreshCw, ChevronDown, Search, Download } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { toDateParam } from '@/lib/utils/dateRange';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
 
 export function PostsTableWithFilters() {
   const {
     platformFilter,
     mediaTypeFilter,
     dateRange,
+    searchQuery,
     sortField,
     sortOrder,
     setPlatformFilter,
     setMediaTypeFilter,
+    setSearchQuery,
     resetFilters,
   } = useUIStore();
 
-  const { data: posts, isLoading, error, refetch } = usePosts({
+  // The input updates immediately; the store (and therefore the query) only after typing pauses
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const debouncedSearch = useDebouncedValue(searchInput, 300);
+
+  useEffect(() => {
+    setSearchQuery(debouncedSearch.trim());
+  }, [debouncedSearch, setSearchQuery]);
+
+  // Keep the input in sync when the store is cleared elsewhere (e.g. "Clear Filters")
+  useEffect(() => {
+    if (searchQuery === '') {
+      setSearchInput('');
+    }
+  }, [searchQuery]);
+
+  const filters = {
     platform: platformFilter !== 'all' ? platformFilter : undefined,
     mediaType: mediaTypeFilter !== 'all' ? mediaTypeFilter : undefined,
-    startDate: dateRange.start ? dateRange.start.toISOString().split('T')[0] : undefined,
-    endDate: dateRange.end ? dateRange.end.toISOString().split('T')[0] : undefined,
+    startDate: dateRange.start ? toDateParam(dateRange.start) : undefined,
+    endDate: dateRange.end ? toDateParam(dateRange.end) : undefined,
+    q: searchQuery || undefined,
     sortField,
     sortOrder,
-  });
+  };
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfinitePosts(filters);
 
+  // Exports use the table's exact filters and ordering, including rows not loaded yet
+  const exportPosts = useExportPosts();
+
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+
+  // The date range is set from the dashboard header and isn't cleared with the table filters
   const hasActiveFilters = useMemo(() => {
     return (
       platformFilter !== 'all' ||
       mediaTypeFilter !== 'all' ||
-      dateRange.start !== null ||
-      dateRange.end !== null
+      searchQuery !== ''
     );
-  }, [platformFilter, mediaTypeFilter, dateRange]);
+  }, [platformFilter, mediaTypeFilter, searchQuery]);
 
   if (isLoading) {
     return (
@@ -76,7 +113,7 @@ export function PostsTableWithFilters() {
         <CardContent className="pt-6">
           <div className="text-center py-8">
             <p className="text-destructive mb-4">
-              Error loading posts: {error instanceof Error ? error.message : 'Unknown error'}
+              Error loading posts: {getErrorMessage(error, 'Unknown error')}
             </p>
             <Button onClick={() => refetch()} variant="outline">
               <RefreshCw className="mr-2 h-4 w-4" />
@@ -97,26 +134,60 @@ export function PostsTableWithFilters() {
               <div>
                 <CardTitle>Posts</CardTitle>
                 <CardDescription>
-                  {posts?.length || 0} {posts?.length === 1 ? 'post' : 'posts'} found
+                  {posts.length} {posts.length === 1 ? 'post' : 'posts'} {hasNextPage ? 'loaded' : 'found'}
+                  {exportPosts.isError && (
+                    <span className="text-destructive" title={getErrorMessage(exportPosts.error, 'Export failed')}> · Export failed</span>
+                  )}
                 </CardDescription>
               </div>
-              <motion.div
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-              >
-                <Button
-                  onClick={() => refetch()}
-                  variant="outline"
-                  size="sm"
+              <div className="flex items-center gap-2">
+                <ImportPostsDialog />
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
                 >
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Refresh
-                </Button>
-              </motion.div>
+                  <Button
+                    onClick={() => exportPosts.mutate({ ...filters, format: 'csv' })}
+                    disabled={exportPosts.isPending || posts.length === 0}
+                    variant="outline"
+                    size="sm"
+                    title="Download as CSV"
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    {exportPosts.isPending ? 'Exporting...' : 'Export'}
+                  </Button>
+                </motion.div>
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  <Button
+                    onClick={() => refetch()}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Refresh
+                  </Button>
+                </motion.div>
+              </div>
             </div>
           </Animated>
           <Animated type="slideUp" delay={0.3}>
             <div className="flex gap-2 mt-4 flex-wrap">
+            <div className="relative w-full sm:w-[260px]">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+              <Input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search captions..."
+                aria-label="Search captions"
+                maxLength={200}
+                className="pl-9"
+              />
+            </div>
+
             <Select
               value={platformFilter}
               onValueChange={(value) => setPlatformFilter(value as 'instagram' | 'tiktok' | 'all')}
@@ -161,7 +232,20 @@ export function PostsTableWithFilters() {
           </Animated>
         </CardHeader>
         <CardContent>
-          <PostsTable data={posts || []} isLoading={isLoading} />
+          <PostsTable data={posts} isLoading={isLoading} />
+          {hasNextPage && (
+            <div className="flex justify-center pt-4">
+              <Button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                variant="outline"
+                size="sm"
+              >
+                <ChevronDown className="mr-2 h-4 w-4" />
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </Animated>
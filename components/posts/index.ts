@@ -2,3 +2,4 @@ export { PostsTable } from './PostsTable';
 export { PostsTableWithFilters } from './PostsTableWithFilters';
 export { PostDetailModal } from './PostDetailModal';
 
+export { ImportPostsDialog } from './ImportPostsDialog';
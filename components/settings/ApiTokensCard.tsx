@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy, KeyRound, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from '@/lib/hooks';
+import type { CreatedApiToken } from '@/lib/hooks/useApiTokens';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '@/lib/utils/apiTokens';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: 'Read posts, metrics and analytics',
+  write: 'Create, update, delete and import posts; recompute metrics',
+};
+
+function formatDate(value: string | null, fallback: string) {
+  return value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : fallback;
+}
+
+/**
+ * Lists, creates and revokes personal API tokens. A new token is shown once, right after it
+ * is created; afterwards only its prefix is known.
+ */
+export function ApiTokensCard() {
+  const { data: tokens, isLoading, error } = useApiTokens();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [expiry, setExpiry] = useState('90');
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((value) => value !== scope) : [...current, scope]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setCopied(false);
+    createToken.mutate(
+      { name, scopes, expiresInDays: expiry === 'never' ? undefined : Number(expiry) },
+      {
+        onSuccess: (token) => {
+          setCreatedToken(token);
+          setName('');
+        },
+      }
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken.token);
+    setCopied(true);
+  };
+
+  const handleRevoke = (id: string, tokenName: string) => {
+    if (!window.confirm(`Revoke "${tokenName}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    if (createdToken?.id === id) {
+      setCreatedToken(null);
+    }
+    revokeToken.mutate(id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API tokens
+        </CardTitle>
+        <CardDescription>
+          Personal tokens let scripts call the API as you: send one as{' '}
+          <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>. See the{' '}
+          <a href="/docs" className="underline">
+            API reference
+          </a>
+          .
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div>
+              <label htmlFor="token-name" className="block text-sm font-medium mb-1">
+                Name
+              </label>
+              <Input
+                id="token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Nightly ETL"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="token-expiry" className="block text-sm font-medium mb-1">
+                Expires
+              </label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="token-expiry" className="w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium mb-1">Scopes</legend>
+            {API_TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                <span className="font-mono">{scope}</span>
+                <span className="text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          {createToken.error && (
+            <p className="text-sm text-destructive">{getErrorMessage(createToken.error, 'Failed to create API token')}</p>
+          )}
+
+          <Button type="submit" disabled={createToken.isPending || !name.trim() || scopes.length === 0}>
+            {createToken.isPending ? 'Creating...' : 'Create token'}
+          </Button>
+        </form>
+
+        {createdToken && (
+          <div className="space-y-2 rounded-md border border-green-200 bg-green-50 p-4">
+            <p className="text-sm font-medium text-green-900">
+              Copy &quot;{createdToken.name}&quot; now. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-xs">{createdToken.token}</code>
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{getErrorMessage(error, 'Failed to load API tokens')}</p>
+        ) : tokens && tokens.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="sr-only">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => {
+                const expired = token.expires_at !== null && new Date(token.expires_at) <= new Date();
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{token.token_prefix}…</TableCell>
+                    <TableCell className="space-x-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell>{formatDate(token.last_used_at, 'Never')}</TableCell>
+                    <TableCell>
+                      {expired ? <Badge variant="destructive">Expired</Badge> : formatDate(token.expires_at, 'Never')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => handleRevoke(token.id, token.name)}
+                        disabled={revokeToken.isPending}
+                        aria-label={`Revoke ${token.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+        )}
+
+        {revokeToken.error && (
+          <p className="text-sm text-destructive">{getErrorMessage(revokeToken.error, 'Failed to revoke API token')}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useChangePassword } from '@/lib/hooks';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import { getPasswordPolicy } from '@/lib/utils/passwordPolicy';
+
+const { minLength } = getPasswordPolicy();
+
+/**
+ * Changes the signed-in user's password. Signed-out users reset it from the login page instead.
+ */
+export function ChangePasswordCard() {
+  const changePassword = useChangePassword();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mismatch, setMismatch] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setMismatch(true);
+      return;
+    }
+    setMismatch(false);
+    changePassword.mutate(
+      { currentPassword, password },
+      {
+        onSuccess: () => {
+          setCurrentPassword('');
+          setPassword('');
+          setConfirmPassword('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Password
+        </CardTitle>
+        <CardDescription>Change the password you sign in with.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="max-w-sm space-y-4">
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium mb-1">
+              Current password
+            </label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium mb-1">
+              New password
+            </label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={minLength}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="confirm-new-password" className="block text-sm font-medium mb-1">
+              Confirm new password
+            </label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              minLength={minLength}
+              required
+            />
+          </div>
+
+          {mismatch && <p className="text-sm text-destructive">Passwords do not match</p>}
+          {changePassword.error && (
+            <p className="text-sm text-destructive">{getErrorMessage(changePassword.error, 'Failed to update password')}</p>
+          )}
+          {changePassword.isSuccess && <p className="text-sm text-green-700">{changePassword.data}</p>}
+
+          <Button type="submit" disabled={changePassword.isPending}>
+            {changePassword.isPending ? 'Saving...' : 'Change password'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
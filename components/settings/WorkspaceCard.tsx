@@ -0,0 +1,372 @@
+'use client';
+
+import { useState } from 'react';
+import { Building2, LogOut, Mail, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  useAcceptInvitation,
+  useCreateWorkspace,
+  useDeleteInvitation,
+  useInviteWorkspaceMember,
+  useReceivedInvitations,
+  useRemoveWorkspaceMember,
+  useUpdateWorkspace,
+  useWorkspaceInvitations,
+  useWorkspaceMembers,
+  useWorkspaces,
+} from '@/lib/hooks';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import {
+  hasWorkspaceRole,
+  WORKSPACE_HEADER,
+  WORKSPACE_ROLE_LABELS,
+  WORKSPACE_ROLES,
+  type WorkspaceRole,
+} from '@/lib/utils/workspaces';
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Everything, including managing owners',
+  admin: 'Manage members other than owners; edit data',
+  analyst: 'Create, edit, import and delete posts',
+  viewer: 'Read only',
+};
+
+// IANA time zones the browser knows, for the daily metrics timezone
+const TIME_ZONES = Array.from(new Set(['UTC', ...Intl.supportedValuesOf('timeZone')]));
+
+interface WorkspaceCardProps {
+  userId: string;
+}
+
+/**
+ * Members of the active workspace (picked in the navbar's switcher): admins invite members by email
+ * and remove them, and set the timezone its daily metrics use; anyone can leave. Also lists the
+ * invitations waiting for the user, and creates new workspaces.
+ */
+export function WorkspaceCard({ userId }: WorkspaceCardProps) {
+  const { data: workspaces, isLoading: workspacesLoading } = useWorkspaces();
+  const { data: members, isLoading: membersLoading, error } = useWorkspaceMembers();
+  const { data: receivedInvitations } = useReceivedInvitations();
+  const inviteMember = useInviteWorkspaceMember();
+  const removeMember = useRemoveWorkspaceMember(userId);
+  const acceptInvitation = useAcceptInvitation();
+  const deleteInvitation = useDeleteInvitation();
+  const createWorkspace = useCreateWorkspace();
+  const updateWorkspace = useUpdateWorkspace();
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('viewer');
+  const [workspaceName, setWorkspaceName] = useState('');
+
+  const active = workspaces?.workspaces.find((workspace) => workspace.id === workspaces.activeWorkspaceId);
+  const canManage = active ? hasWorkspaceRole(active.role, 'admin') : false;
+  const { data: invitations } = useWorkspaceInvitations({ enabled: canManage });
+  // Only owners can grant the owner role
+  const grantableRoles = WORKSPACE_ROLES.filter((value) => value !== 'owner' || active?.role === 'owner');
+
+  const handleInvite = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    inviteMember.mutate({ email, role }, { onSuccess: () => setEmail('') });
+  };
+
+  const handleCreateWorkspace = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    createWorkspace.mutate(workspaceName, { onSuccess: () => setWorkspaceName('') });
+  };
+
+  const handleRemove = (memberId: string, memberEmail: string) => {
+    const leaving = memberId === userId;
+    const message = leaving
+      ? `Leave "${active?.name}"? You will lose access to its posts and metrics.`
+      : `Remove ${memberEmail} from "${active?.name}"?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+    removeMember.mutate(memberId);
+  };
+
+  const canRemove = (memberId: string, memberRole: WorkspaceRole) =>
+    memberId === userId || (canManage && (memberRole !== 'owner' || active?.role === 'owner'));
+
+  // Only owners manage invitations to the owner role
+  const canCancel = (invitationRole: WorkspaceRole) =>
+    canManage && (invitationRole !== 'owner' || active?.role === 'owner');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Workspace
+        </CardTitle>
+        <CardDescription>
+          {workspacesLoading || !active ? (
+            'Posts and metrics belong to a workspace, shared by its members.'
+          ) : (
+            <>
+              Members of <span className="font-medium text-foreground">{active.name}</span>, where you are{' '}
+              {WORKSPACE_ROLE_LABELS[active.role].toLowerCase()}. API tokens act on it when sent with{' '}
+              <code className="text-xs">
+                {WORKSPACE_HEADER}: {active.id}
+              </code>
+              .
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {receivedInvitations && receivedInvitations.length > 0 && (
+          <div className="space-y-2 rounded-md border p-4">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Mail className="h-4 w-4" />
+              Invitations
+            </p>
+            <ul className="space-y-2">
+              {receivedInvitations.map((invitation) => (
+                <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span>
+                    Join <span className="font-medium">{invitation.workspace_name}</span> as{' '}
+                    {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()}
+                  </span>
+                  <span className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => acceptInvitation.mutate(invitation.id)}
+                      disabled={acceptInvitation.isPending || deleteInvitation.isPending}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteInvitation.mutate(invitation.id)}
+                      disabled={acceptInvitation.isPending || deleteInvitation.isPending}
+                    >
+                      Decline
+                    </Button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {acceptInvitation.error && (
+              <p className="text-sm text-destructive">
+                {getErrorMessage(acceptInvitation.error, 'Failed to accept the invitation')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {membersLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{getErrorMessage(error, 'Failed to load workspace members')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="sr-only">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members?.map((member) => (
+                <TableRow key={member.user_id}>
+                  <TableCell className="font-medium">
+                    {member.email}
+                    {member.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={member.role === 'owner' ? 'default' : 'secondary'}>
+                      {WORKSPACE_ROLE_LABELS[member.role]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canRemove(member.user_id, member.role) && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => handleRemove(member.user_id, member.email)}
+                        disabled={removeMember.isPending}
+                        aria-label={member.user_id === userId ? 'Leave workspace' : `Remove ${member.email}`}
+                      >
+                        {member.user_id === userId ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {removeMember.error && (
+          <p className="text-sm text-destructive">
+            {getErrorMessage(removeMember.error, 'Failed to remove workspace member')}
+          </p>
+        )}
+
+        {canManage && invitations && invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pending invitations</p>
+            <ul className="space-y-1">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {invitation.email}{' '}
+                    <Badge variant="outline">{WORKSPACE_ROLE_LABELS[invitation.role]}</Badge>
+                  </span>
+                  {canCancel(invitation.role) && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => deleteInvitation.mutate(invitation.id)}
+                      disabled={deleteInvitation.isPending}
+                      aria-label={`Cancel the invitation for ${invitation.email}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {deleteInvitation.error && (
+          <p className="text-sm text-destructive">
+            {getErrorMessage(deleteInvitation.error, 'Failed to delete the invitation')}
+          </p>
+        )}
+
+        {active && (
+          <div className="space-y-2">
+            <p id="workspace-timezone-label" className="text-sm font-medium">
+              Daily metrics timezone
+            </p>
+            {canManage ? (
+              <Select
+                value={active.timezone}
+                onValueChange={(timezone) => updateWorkspace.mutate({ timezone })}
+                disabled={updateWorkspace.isPending}
+              >
+                <SelectTrigger aria-labelledby="workspace-timezone-label" className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(TIME_ZONES.includes(active.timezone) ? TIME_ZONES : [active.timezone, ...TIME_ZONES]).map(
+                    (timezone) => (
+                      <SelectItem key={timezone} value={timezone}>
+                        {timezone}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-sm">{active.timezone}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Posts count towards the day they were published on in this timezone, for every member. Changing it
+              recomputes all of the workspace&apos;s daily metrics.
+            </p>
+            {updateWorkspace.error && (
+              <p className="text-sm text-destructive">
+                {getErrorMessage(updateWorkspace.error, 'Failed to change the timezone')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+              <div>
+                <label htmlFor="member-email" className="block text-sm font-medium mb-1">
+                  Invite a member
+                </label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="teammate@example.com"
+                  maxLength={254}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="member-role" className="block text-sm font-medium mb-1">
+                  Role
+                </label>
+                <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+                  <SelectTrigger id="member-role" className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {grantableRoles.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {WORKSPACE_ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {ROLE_DESCRIPTIONS[role]}. They join once they accept the invitation on Settings, signed in with this
+              email; inviting an existing member changes their role.
+            </p>
+
+            {inviteMember.error && (
+              <p className="text-sm text-destructive">
+                {getErrorMessage(inviteMember.error, 'Failed to invite workspace member')}
+              </p>
+            )}
+            {inviteMember.data && (
+              <p className="text-sm text-muted-foreground">
+                {inviteMember.data.status === 'invited'
+                  ? `Invited ${inviteMember.data.email} as ${WORKSPACE_ROLE_LABELS[inviteMember.data.role].toLowerCase()}.`
+                  : `${inviteMember.data.email} is now ${WORKSPACE_ROLE_LABELS[inviteMember.data.role].toLowerCase()}.`}
+              </p>
+            )}
+
+            <Button type="submit" disabled={inviteMember.isPending || !email.trim()}>
+              {inviteMember.isPending ? 'Inviting...' : 'Invite'}
+            </Button>
+          </form>
+        )}
+
+        <form onSubmit={handleCreateWorkspace} className="space-y-2 border-t pt-6">
+          <label htmlFor="workspace-name" className="block text-sm font-medium">
+            New workspace
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="workspace-name"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              placeholder="e.g. Acme marketing"
+              maxLength={100}
+              required
+            />
+            <Button type="submit" disabled={createWorkspace.isPending || !workspaceName.trim()}>
+              {createWorkspace.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </div>
+          {createWorkspace.error && (
+            <p className="text-sm text-destructive">
+              {getErrorMessage(createWorkspace.error, 'Failed to create workspace')}
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
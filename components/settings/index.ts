@@ -0,0 +1,3 @@
+export { ApiTokensCard } from './ApiTokensCard';
+export { ChangePasswordCard } from './ChangePasswordCard';
+export { WorkspaceCard } from './WorkspaceCard';
@@ -14,32 +14,100 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_tokens: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          last_used_at: string | null
+          name: string
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name: string
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       daily_metrics: {
         Row: {
+          comments: number | null
           created_at: string | null
           date: string
           engagement: number | null
+          follower_count: number | null
           id: string
+          impressions: number | null
+          likes: number | null
+          posts_published: number | null
+          profile_visits: number | null
           reach: number | null
-          user_id: string
+          saves: number | null
+          shares: number | null
+          workspace_id: string
         }
         Insert: {
+          comments?: number | null
           created_at?: string | null
           date: string
           engagement?: number | null
+          follower_count?: number | null
           id?: string
+          impressions?: number | null
+          likes?: number | null
+          posts_published?: number | null
+          profile_visits?: number | null
           reach?: number | null
-          user_id: string
+          saves?: number | null
+          shares?: number | null
+          workspace_id: string
         }
         Update: {
+          comments?: number | null
           created_at?: string | null
           date?: string
           engagement?: number | null
+          follower_count?: number | null
           id?: string
+          impressions?: number | null
+          likes?: number | null
+          posts_published?: number | null
+          profile_visits?: number | null
           reach?: number | null
-          user_id?: string
+          saves?: number | null
+          shares?: number | null
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "daily_metrics_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       posts: {
         Row: {
@@ -58,7 +126,8 @@ export type Database = {
           saves: number | null
           shares: number | null
           thumbnail_url: string | null
-          user_id: string
+          user_id: string | null
+          workspace_id: string
         }
         Insert: {
           caption?: string | null
@@ -76,7 +145,8 @@ export type Database = {
           saves?: number | null
           shares?: number | null
           thumbnail_url?: string | null
-          user_id: string
+          user_id?: string | null
+          workspace_id: string
         }
         Update: {
           caption?: string | null
@@ -94,7 +164,104 @@ export type Database = {
           saves?: number | null
           shares?: number | null
           thumbnail_url?: string | null
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invitations: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
           user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          timezone: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          timezone?: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          timezone?: string
         }
         Relationships: []
       }
@@ -103,7 +270,107 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: {
+          created_at: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+      }
+      authenticate_api_token: {
+        Args: {
+          p_token_hash: string
+        }
+        Returns: {
+          scopes: string[]
+          user_id: string
+        }[]
+      }
+      create_workspace: {
+        Args: {
+          p_name: string
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          timezone: string
+        }
+      }
+      get_analytics_summary: {
+        Args: {
+          p_compare_end_date?: string
+          p_compare_start_date?: string
+          p_end_date: string
+          p_start_date: string
+          p_timezone: string
+          p_workspace_id: string
+        }
+        Returns: Json
+      }
+      get_my_workspace_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          id: string
+          role: string
+          workspace_id: string
+          workspace_name: string
+        }[]
+      }
+      get_workspace_members: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      has_workspace_role: {
+        Args: {
+          p_roles: string[]
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      recompute_daily_metrics: {
+        Args: {
+          p_dates: string[]
+          p_workspace_id: string
+        }
+        Returns: number
+      }
+      invitation_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      set_workspace_member_role: {
+        Args: {
+          p_role: string
+          p_user_id: string
+          p_workspace_id: string
+        }
+        Returns: {
+          created_at: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+      }
+      workspace_role: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
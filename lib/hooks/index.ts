@@ -1,6 +1,24 @@
-export { usePosts } from './usePosts';
-export { useDailyMetrics } from './useDailyMetrics';
+export { usePosts, useInfinitePosts } from './usePosts';
+export { useDailyMetrics, useRecomputeDailyMetrics } from './useDailyMetrics';
 export { useAnalyticsSummary } from './useAnalyticsSummary';
-export { useCreatePost, useUpdatePost, useDeletePost } from './usePostMutations';
+export { useCreatePost, useUpdatePost, useDeletePost, useImportPosts } from './usePostMutations';
+export { useExportPosts } from './useExportPosts';
+export { useApiTokens, useCreateApiToken, useRevokeApiToken } from './useApiTokens';
+export { useChangePassword } from './useChangePassword';
+export {
+  useWorkspaces,
+  useActiveWorkspace,
+  useSwitchWorkspace,
+  useCreateWorkspace,
+  useUpdateWorkspace,
+  useWorkspaceMembers,
+  useInviteWorkspaceMember,
+  useRemoveWorkspaceMember,
+  useWorkspaceInvitations,
+  useReceivedInvitations,
+  useAcceptInvitation,
+  useDeleteInvitation,
+} from './useWorkspaces';
 export { queryKeys } from './queryKeys';
 
+export { useDebouncedValue } from './useDebouncedValue';
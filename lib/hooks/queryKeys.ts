@@ -1,21 +1,29 @@
+import type { ComparisonMode } from '@/lib/utils/dateRange';
+
 /**
  * Query keys factory pattern for TanStack Query
  * Centralizes all query keys to ensure consistency and type safety
  */
 
+interface PostListFilters {
+  platform?: string;
+  mediaType?: string;
+  startDate?: string;
+  endDate?: string;
+  q?: string;
+  sortField?: string;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+}
+
 export const queryKeys = {
   // Posts queries
   posts: {
     all: ['posts'] as const,
     lists: () => [...queryKeys.posts.all, 'list'] as const,
-    list: (filters?: {
-      platform?: string;
-      mediaType?: string;
-      startDate?: string;
-      endDate?: string;
-      sortField?: string;
-      sortOrder?: 'asc' | 'desc';
-    }) => [...queryKeys.posts.lists(), filters] as const,
+    list: (filters?: PostListFilters) => [...queryKeys.posts.lists(), filters] as const,
+    // Nested under lists() so list invalidations also reset paginated caches
+    infinite: (filters?: PostListFilters) => [...queryKeys.posts.lists(), 'infinite', filters] as const,
     details: () => [...queryKeys.posts.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.posts.details(), id] as const,
   },
@@ -23,7 +31,12 @@ export const queryKeys = {
   // Analytics queries
   analytics: {
     all: ['analytics'] as const,
-    summary: () => [...queryKeys.analytics.all, 'summary'] as const,
+    summaries: () => [...queryKeys.analytics.all, 'summary'] as const,
+    summary: (params?: {
+      startDate?: string;
+      endDate?: string;
+      compareTo?: ComparisonMode;
+    }) => [...queryKeys.analytics.summaries(), params] as const,
   },
 
   // Daily metrics queries
@@ -33,7 +46,24 @@ export const queryKeys = {
     list: (filters?: {
       startDate?: string;
       endDate?: string;
+      metrics?: string[];
+      granularity?: string;
     }) => [...queryKeys.dailyMetrics.lists(), filters] as const,
   },
+
+  // Personal API tokens
+  apiTokens: {
+    all: ['api-tokens'] as const,
+    list: () => [...queryKeys.apiTokens.all, 'list'] as const,
+  },
+
+  // Workspaces the user belongs to or is invited to, and members and invitations of the active one
+  workspaces: {
+    all: ['workspaces'] as const,
+    list: () => [...queryKeys.workspaces.all, 'list'] as const,
+    members: () => [...queryKeys.workspaces.all, 'members'] as const,
+    invitations: () => [...queryKeys.workspaces.all, 'invitations'] as const,
+    receivedInvitations: () => [...queryKeys.workspaces.all, 'received-invitations'] as const,
+  },
 } as const;
 
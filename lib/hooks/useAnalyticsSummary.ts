@@ -1,7 +1,38 @@
 import { useQuery } from '@tanstack/react-query';
 import { queryKeys } from './queryKeys';
+import type { ComparisonMode } from '@/lib/utils/dateRange';
+import { readApiResponse, shouldRetryRequest } from '@/lib/utils/apiErrors';
 
-interface AnalyticsSummary {
+interface SummaryChanges {
+  totalPosts: number;
+  totalViews: number;
+  totalEngagements: number;
+  averageEngagementRate: number;
+  totalReach: number;
+  totalLikes: number;
+  totalComments: number;
+  totalShares: number;
+}
+
+interface BreakdownEntry {
+  key: string;
+  totalPosts: number;
+  totalViews: number;
+  totalEngagements: number;
+  averageEngagementRate: number;
+  totalReach: number;
+  totalLikes: number;
+  totalComments: number;
+  totalShares: number;
+  engagementShare: number;
+}
+
+interface SummaryPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface AnalyticsSummary {
   totalPosts: number;
   totalViews: number;
   totalEngagements: number;
@@ -16,44 +47,45 @@ interface AnalyticsSummary {
     engagement: number;
     postedAt: string;
   } | null;
-  changes: {
-    totalPosts: number;
-    totalViews: number;
-    totalEngagements: number;
-    averageEngagementRate: number;
-    totalReach: number;
-    totalLikes: number;
-    totalComments: number;
-    totalShares: number;
+  breakdown: {
+    platform: BreakdownEntry[];
+    mediaType: BreakdownEntry[];
   };
+  period: SummaryPeriod;
+  compareTo: ComparisonMode;
+  // Null when compareTo is 'none'
+  comparisonPeriod: SummaryPeriod | null;
+  changes: SummaryChanges | null;
 }
 
-interface AnalyticsSummaryResponse {
-  success: boolean;
-  data: AnalyticsSummary;
-  error?: string;
+interface UseAnalyticsSummaryParams {
+  startDate?: string;
+  endDate?: string;
+  compareTo?: ComparisonMode;
+  enabled?: boolean;
 }
 
-async function fetchAnalyticsSummary(): Promise<AnalyticsSummary> {
-  const response = await fetch('/api/analytics/summary');
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch analytics summary');
-  }
+async function fetchAnalyticsSummary(params: UseAnalyticsSummaryParams): Promise<AnalyticsSummary> {
+  const searchParams = new URLSearchParams();
+
+  if (params.startDate) searchParams.set('startDate', params.startDate);
+  if (params.endDate) searchParams.set('endDate', params.endDate);
+  if (params.compareTo) searchParams.set('compareTo', params.compareTo);
 
-  const result: AnalyticsSummaryResponse = await response.json();
-  
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to fetch analytics summary');
-  }
+  const response = await fetch(`/api/analytics/summary?${searchParams.toString()}`);
+  const result = await readApiResponse<AnalyticsSummary>(response, 'Failed to fetch analytics summary');
 
   return result.data;
 }
 
-export function useAnalyticsSummary() {
+export function useAnalyticsSummary(params: UseAnalyticsSummaryParams = {}) {
+  const { enabled, ...filters } = params;
+
   return useQuery({
-    queryKey: queryKeys.analytics.summary(),
-    queryFn: fetchAnalyticsSummary,
+    queryKey: queryKeys.analytics.summary(filters),
+    queryFn: () => fetchAnalyticsSummary(filters),
+    enabled: enabled !== false,
+    retry: shouldRetryRequest,
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 }
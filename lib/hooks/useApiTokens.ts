@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from './queryKeys';
+import type { Tables } from '@/lib/database.types';
+import type { ApiTokenScope } from '@/lib/utils/apiTokens';
+import { readApiResponse, shouldRetryRequest } from '@/lib/utils/apiErrors';
+
+// token_hash never leaves the server
+export type ApiToken = Omit<Tables<'api_tokens'>, 'token_hash' | 'user_id'>;
+
+export interface CreatedApiToken extends ApiToken {
+  // The token itself, returned only once
+  token: string;
+}
+
+interface CreateApiTokenParams {
+  name: string;
+  scopes: ApiTokenScope[];
+  // Omit for a token that never expires
+  expiresInDays?: number;
+}
+
+async function fetchApiTokens(): Promise<ApiToken[]> {
+  const response = await fetch('/api/tokens');
+  const result = await readApiResponse<ApiToken[]>(response, 'Failed to fetch API tokens');
+
+  return result.data;
+}
+
+async function createApiToken(params: CreateApiTokenParams): Promise<CreatedApiToken> {
+  const response = await fetch('/api/tokens', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await readApiResponse<CreatedApiToken>(response, 'Failed to create API token');
+
+  return result.data;
+}
+
+async function revokeApiToken(id: string): Promise<void> {
+  const response = await fetch(`/api/tokens/${id}`, {
+    method: 'DELETE',
+  });
+
+  await readApiResponse<{ id: string }>(response, 'Failed to revoke API token');
+}
+
+export function useApiTokens() {
+  return useQuery({
+    queryKey: queryKeys.apiTokens.list(),
+    queryFn: fetchApiTokens,
+    retry: shouldRetryRequest,
+  });
+}
+
+/**
+ * Mutation hook for creating an API token. The result holds the token itself,
+ * which the UI must show right away: it can't be fetched again.
+ */
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createApiToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens.all });
+    },
+  });
+}
+
+/**
+ * Mutation hook for revoking an API token
+ */
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeApiToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens.all });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useMutation } from '@tanstack/react-query';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+
+interface ChangePasswordParams {
+  currentPassword: string;
+  password: string;
+}
+
+async function changePassword(params: ChangePasswordParams): Promise<string> {
+  const response = await fetch('/api/auth/password/update', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await readApiResponse<{ message: string }>(response, 'Failed to update password');
+
+  return result.data.message;
+}
+
+/**
+ * Mutation hook for changing the signed-in user's password. The current password is
+ * checked again by the server before the new one is set.
+ */
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: changePassword,
+  });
+}
@@ -1,48 +1,85 @@
-import { useQuery } from '@tanstack/react-query';
-import type { Tables } from '@/lib/database.types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { DailyMetricGranularity, DailyMetricKey, DailyMetricPoint } from '@/lib/utils/dailyMetrics';
 import { queryKeys } from './queryKeys';
+import { readApiResponse, shouldRetryRequest } from '@/lib/utils/apiErrors';
 
-type DailyMetric = Tables<'daily_metrics'>;
-
-interface UseDailyMetricsParams {
+interface UseDailyMetricsParams<K extends DailyMetricKey> {
   startDate?: string;
   endDate?: string;
+  // Only fetch these columns (plus date); all columns when omitted
+  metrics?: K[];
+  // Sum into weekly or monthly buckets, dated by their first day; daily when omitted
+  granularity?: DailyMetricGranularity;
   enabled?: boolean;
 }
 
-interface DailyMetricsResponse {
-  success: boolean;
-  data: DailyMetric[];
-  error?: string;
-}
-
-async function fetchDailyMetrics(params: UseDailyMetricsParams): Promise<DailyMetric[]> {
+async function fetchDailyMetrics<K extends DailyMetricKey>(
+  params: UseDailyMetricsParams<K>
+): Promise<DailyMetricPoint<K>[]> {
   const searchParams = new URLSearchParams();
   
   if (params.startDate) searchParams.set('startDate', params.startDate);
   if (params.endDate) searchParams.set('endDate', params.endDate);
+  if (params.metrics?.length) searchParams.set('metrics', params.metrics.join(','));
+  if (params.granularity) searchParams.set('granularity', params.granularity);
 
-  const response = await fetch(`/api/daily-metrics?${searchParams.toString()}`);
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch daily metrics');
-  }
-
-  const result: DailyMetricsResponse = await response.json();
-  
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to fetch daily metrics');
-  }
+  const response = await fetch(`/api/v1/metrics/daily?${searchParams.toString()}`);
+  const result = await readApiResponse<DailyMetricPoint<K>[]>(response, 'Failed to fetch daily metrics');
 
   return result.data;
 }
 
-export function useDailyMetrics(params: UseDailyMetricsParams = {}) {
+export function useDailyMetrics<K extends DailyMetricKey = DailyMetricKey>(
+  params: UseDailyMetricsParams<K> = {}
+) {
+  const { enabled, ...filters } = params;
+
   return useQuery({
-    queryKey: queryKeys.dailyMetrics.list(params),
-    queryFn: () => fetchDailyMetrics(params),
-    enabled: params.enabled !== false,
+    queryKey: queryKeys.dailyMetrics.list(filters),
+    queryFn: () => fetchDailyMetrics(filters),
+    enabled: enabled !== false,
+    retry: shouldRetryRequest,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
 
+interface RecomputeDailyMetricsParams {
+  startDate: string;
+  endDate: string;
+  // Must be the workspace's IANA time zone when sent; it changes with useUpdateWorkspace
+  timezone?: string;
+}
+
+export interface RecomputeDailyMetricsResult {
+  days: number;
+  timezone: string;
+}
+
+async function recomputeDailyMetrics(params: RecomputeDailyMetricsParams): Promise<RecomputeDailyMetricsResult> {
+  const response = await fetch('/api/daily-metrics/recompute', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await readApiResponse<RecomputeDailyMetricsResult>(response, 'Failed to recompute daily metrics');
+
+  return result.data;
+}
+
+/**
+ * Mutation hook that rebuilds daily metrics from posts for a date range
+ * Automatically invalidates daily metrics queries
+ */
+export function useRecomputeDailyMetrics() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: recomputeDailyMetrics,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.lists() });
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { useMutation } from '@tanstack/react-query';
+import type { ExportFormat } from '@/lib/utils/export';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+import { buildPostsSearchParams, type UsePostsParams } from './usePosts';
+
+interface ExportPostsParams extends Omit<UsePostsParams, 'enabled' | 'limit'> {
+  format: ExportFormat;
+}
+
+async function exportPosts({ format, ...filters }: ExportPostsParams): Promise<void> {
+  const searchParams = buildPostsSearchParams(filters);
+  searchParams.set('format', format);
+
+  const response = await fetch(`/api/posts/export?${searchParams.toString()}`);
+
+  if (!response.ok) {
+    // Failures are a JSON error envelope rather than a file; this throws its ApiError
+    await readApiResponse<never>(response, 'Failed to export posts');
+  }
+
+  // Prefer the server's filename, which is dated on the server
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `posts.${format}`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads every post matching the given filters and ordering as CSV or JSON
+ */
+export function useExportPosts() {
+  return useMutation({
+    mutationFn: exportPosts,
+  });
+}
@@ -1,6 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from './queryKeys';
 import type { Tables } from '@/lib/database.types';
+import type { PostImportRow } from '@/lib/utils/postImport';
+import { readApiResponse } from '@/lib/utils/apiErrors';
 
 type Post = Tables<'posts'>;
 
@@ -19,21 +21,15 @@ interface CreatePostParams {
   postedAt: string;
 }
 
-interface UpdatePostParams {
+// engagement_rate is not writable: the server recomputes it whenever counters change
+interface UpdatePostParams extends Partial<CreatePostParams> {
   id: string;
-  likes?: number;
-  comments?: number;
-  shares?: number;
-  saves?: number;
-  impressions?: number;
-  reach?: number;
-  engagementRate?: number;
 }
 
-interface PostResponse {
-  success: boolean;
-  data: Post;
-  error?: string;
+export interface ImportPostsResult {
+  imported: number;
+  // Posts whose permalink already existed
+  skipped: number;
 }
 
 async function createPost(params: CreatePostParams): Promise<Post> {
@@ -45,37 +41,23 @@ async function createPost(params: CreatePostParams): Promise<Post> {
     body: JSON.stringify(params),
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to create post');
-  }
-
-  const result: PostResponse = await response.json();
-
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to create post');
-  }
+  // Validation errors name the rejected field, so surface the server's message
+  const result = await readApiResponse<Post>(response, 'Failed to create post');
 
   return result.data;
 }
 
 async function updatePost(params: UpdatePostParams): Promise<Post> {
-  const response = await fetch(`/api/posts/${params.id}`, {
+  const { id, ...fields } = params;
+  const response = await fetch(`/api/posts/${id}`, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify(params),
+    body: JSON.stringify(fields),
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to update post');
-  }
-
-  const result: PostResponse = await response.json();
-
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to update post');
-  }
+  const result = await readApiResponse<Post>(response, 'Failed to update post');
 
   return result.data;
 }
@@ -85,9 +67,22 @@ async function deletePost(id: string): Promise<void> {
     method: 'DELETE',
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to delete post');
-  }
+  await readApiResponse<{ id: string }>(response, 'Failed to delete post');
+}
+
+async function importPosts(posts: PostImportRow[]): Promise<ImportPostsResult> {
+  const response = await fetch('/api/posts/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ posts }),
+  });
+
+  // Surface the server's message: it names the rejected post
+  const result = await readApiResponse<ImportPostsResult>(response, 'Failed to import posts');
+
+  return result.data;
 }
 
 /**
@@ -103,7 +98,7 @@ export function useCreatePost() {
       // Invalidate all posts lists to refetch with new data
       queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
       // Invalidate analytics summary as it depends on posts data
-      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summary() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summaries() });
       // Invalidate daily metrics as they may be affected
       queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.lists() });
     },
@@ -125,7 +120,7 @@ export function useUpdatePost() {
       // Invalidate the specific post detail
       queryClient.invalidateQueries({ queryKey: queryKeys.posts.detail(data.id) });
       // Invalidate analytics summary
-      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summary() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summaries() });
       // Invalidate daily metrics
       queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.lists() });
     },
@@ -145,10 +140,29 @@ export function useDeletePost() {
       // Invalidate all posts lists
       queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
       // Invalidate analytics summary
-      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summary() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summaries() });
       // Invalidate daily metrics
       queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.lists() });
     },
   });
 }
 
+/**
+ * Mutation hook for importing a batch of posts from a CSV file
+ * Automatically invalidates posts list and analytics queries
+ */
+export function useImportPosts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importPosts,
+    onSuccess: () => {
+      // Invalidate all posts lists
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
+      // Invalidate analytics summary
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.summaries() });
+      // Invalidate daily metrics
+      queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.lists() });
+    },
+  });
+}
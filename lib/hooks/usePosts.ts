@@ -1,56 +1,85 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
 import type { Tables } from '@/lib/database.types';
 import { queryKeys } from './queryKeys';
+import { readApiResponse, shouldRetryRequest } from '@/lib/utils/apiErrors';
 
 type Post = Tables<'posts'>;
 
-interface UsePostsParams {
+export interface UsePostsParams {
   platform?: string;
   mediaType?: string;
   startDate?: string;
   endDate?: string;
+  q?: string;
   sortField?: string;
   sortOrder?: 'asc' | 'desc';
+  limit?: number;
   enabled?: boolean;
 }
 
-interface PostsResponse {
-  success: boolean;
+export interface PostsPage {
   data: Post[];
-  error?: string;
+  nextCursor: string | null;
 }
 
-async function fetchPosts(params: UsePostsParams): Promise<Post[]> {
+/**
+ * Serializes the posts list filters and ordering as /api/posts query parameters
+ */
+export function buildPostsSearchParams(params: Omit<UsePostsParams, 'enabled'>): URLSearchParams {
   const searchParams = new URLSearchParams();
   
   if (params.platform) searchParams.set('platform', params.platform);
   if (params.mediaType) searchParams.set('mediaType', params.mediaType);
   if (params.startDate) searchParams.set('startDate', params.startDate);
   if (params.endDate) searchParams.set('endDate', params.endDate);
+  if (params.q) searchParams.set('q', params.q);
   if (params.sortField) searchParams.set('sortField', params.sortField);
   if (params.sortOrder) searchParams.set('sortOrder', params.sortOrder);
+  if (params.limit) searchParams.set('limit', String(params.limit));
 
-  const response = await fetch(`/api/posts?${searchParams.toString()}`);
-  
-  if (!response.ok) {
-    throw new Error('Failed to fetch posts');
-  }
+  return searchParams;
+}
 
-  const result: PostsResponse = await response.json();
-  
-  if (!result.success) {
-    throw new Error(result.error || 'Failed to fetch posts');
-  }
+async function fetchPostsPage(params: UsePostsParams, cursor?: string | null): Promise<PostsPage> {
+  const searchParams = buildPostsSearchParams(params);
+  if (cursor) searchParams.set('cursor', cursor);
+
+  const response = await fetch(`/api/posts?${searchParams.toString()}`);
+  const result = await readApiResponse<Post[], { nextCursor: string | null }>(response, 'Failed to fetch posts');
 
-  return result.data;
+  return { data: result.data, nextCursor: result.nextCursor };
 }
 
+/**
+ * Fetches a single page of posts (the first `limit` rows for the given filters and ordering)
+ */
 export function usePosts(params: UsePostsParams = {}) {
+  const { enabled, ...filters } = params;
+
   return useQuery({
-    queryKey: queryKeys.posts.list(params),
-    queryFn: () => fetchPosts(params),
-    enabled: params.enabled !== false,
+    queryKey: queryKeys.posts.list(filters),
+    queryFn: async () => (await fetchPostsPage(filters)).data,
+    enabled: enabled !== false,
+    retry: shouldRetryRequest,
     staleTime: 60 * 1000, // 1 minute
   });
 }
 
+/**
+ * Cursor-paginated posts for PostsTable; call fetchNextPage() to load more rows
+ */
+export function useInfinitePosts(params: UsePostsParams = {}) {
+  const { enabled, ...filters } = params;
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.posts.infinite(filters),
+    queryFn: ({ pageParam }) => fetchPostsPage(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the current rows while a new filter/search/sort loads
+    placeholderData: keepPreviousData,
+    enabled: enabled !== false,
+    retry: shouldRetryRequest,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
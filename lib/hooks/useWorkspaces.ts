@@ -0,0 +1,307 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from './queryKeys';
+import { readApiResponse, shouldRetryRequest } from '@/lib/utils/apiErrors';
+import { ACTIVE_WORKSPACE_COOKIE, type WorkspaceMembership, type WorkspaceRole } from '@/lib/utils/workspaces';
+
+export interface WorkspacesResponse {
+  workspaces: WorkspaceMembership[];
+  // The workspace every other request acts on
+  activeWorkspaceId: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string | null;
+}
+
+interface UpdateWorkspaceParams {
+  timezone: string;
+}
+
+// A pending invitation to the active workspace
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string | null;
+}
+
+// An invitation waiting for the signed-in user
+export interface ReceivedInvitation {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+interface InviteWorkspaceMemberParams {
+  email: string;
+  role: WorkspaceRole;
+}
+
+export interface InviteWorkspaceMemberResult {
+  email: string;
+  role: WorkspaceRole;
+  // 'member': the email was a member's, whose role changed; 'invited': an invitation is waiting
+  status: 'member' | 'invited';
+}
+
+// How long the browser remembers the active workspace
+const ACTIVE_WORKSPACE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+// Forgets the active workspace, so withAuth falls back to the oldest membership
+function clearActiveWorkspaceCookie() {
+  document.cookie = `${ACTIVE_WORKSPACE_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
+
+async function fetchWorkspaces(): Promise<WorkspacesResponse> {
+  const response = await fetch('/api/workspaces');
+  const result = await readApiResponse<WorkspacesResponse>(response, 'Failed to fetch workspaces');
+
+  return result.data;
+}
+
+async function createWorkspace(name: string): Promise<WorkspaceMembership> {
+  const response = await fetch('/api/workspaces', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name }),
+  });
+
+  const result = await readApiResponse<WorkspaceMembership>(response, 'Failed to create workspace');
+
+  return result.data;
+}
+
+async function updateWorkspace(params: UpdateWorkspaceParams): Promise<WorkspaceMembership> {
+  const response = await fetch('/api/workspace', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await readApiResponse<WorkspaceMembership>(response, 'Failed to update workspace');
+
+  return result.data;
+}
+
+async function fetchWorkspaceMembers(): Promise<WorkspaceMember[]> {
+  const response = await fetch('/api/workspace/members');
+  const result = await readApiResponse<WorkspaceMember[]>(response, 'Failed to fetch workspace members');
+
+  return result.data;
+}
+
+async function inviteWorkspaceMember(params: InviteWorkspaceMemberParams): Promise<InviteWorkspaceMemberResult> {
+  const response = await fetch('/api/workspace/members', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await readApiResponse<InviteWorkspaceMemberResult>(response, 'Failed to invite workspace member');
+
+  return result.data;
+}
+
+async function fetchWorkspaceInvitations(): Promise<WorkspaceInvitation[]> {
+  const response = await fetch('/api/workspace/invitations');
+  const result = await readApiResponse<WorkspaceInvitation[]>(response, 'Failed to fetch workspace invitations');
+
+  return result.data;
+}
+
+async function fetchReceivedInvitations(): Promise<ReceivedInvitation[]> {
+  const response = await fetch('/api/workspaces/invitations');
+  const result = await readApiResponse<ReceivedInvitation[]>(response, 'Failed to fetch invitations');
+
+  return result.data;
+}
+
+async function acceptInvitation(id: string): Promise<WorkspaceMembership> {
+  const response = await fetch(`/api/workspaces/invitations/${id}`, {
+    method: 'POST',
+  });
+
+  const result = await readApiResponse<WorkspaceMembership>(response, 'Failed to accept the invitation');
+
+  return result.data;
+}
+
+async function deleteInvitation(id: string): Promise<void> {
+  const response = await fetch(`/api/workspaces/invitations/${id}`, {
+    method: 'DELETE',
+  });
+
+  await readApiResponse<{ id: string }>(response, 'Failed to delete the invitation');
+}
+
+async function removeWorkspaceMember(userId: string): Promise<void> {
+  const response = await fetch(`/api/workspace/members/${userId}`, {
+    method: 'DELETE',
+  });
+
+  await readApiResponse<{ user_id: string }>(response, 'Failed to remove workspace member');
+}
+
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.list(),
+    queryFn: fetchWorkspaces,
+    retry: shouldRetryRequest,
+  });
+}
+
+/**
+ * The workspace other requests act on, with the user's role in it; undefined while loading
+ */
+export function useActiveWorkspace(): WorkspaceMembership | undefined {
+  const { data } = useWorkspaces();
+
+  return data?.workspaces.find((workspace) => workspace.id === data.activeWorkspaceId);
+}
+
+/**
+ * Makes `workspaceId` the active workspace for this browser. Every cached query belonged
+ * to the previous workspace, so they are all reset and refetched.
+ */
+export function useSwitchWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (workspaceId: string) => {
+      document.cookie = `${ACTIVE_WORKSPACE_COOKIE}=${encodeURIComponent(workspaceId)}; path=/; max-age=${ACTIVE_WORKSPACE_MAX_AGE_SECONDS}; samesite=lax`;
+      return queryClient.resetQueries();
+    },
+    [queryClient]
+  );
+}
+
+/**
+ * Mutation hook for creating a workspace, which then becomes the active one
+ */
+export function useCreateWorkspace() {
+  const switchWorkspace = useSwitchWorkspace();
+
+  return useMutation({
+    mutationFn: createWorkspace,
+    onSuccess: (workspace) => switchWorkspace(workspace.id),
+  });
+}
+
+/**
+ * Mutation hook for changing the active workspace's settings (owners and admins). A new
+ * timezone rebuilds the workspace's daily metrics, so those are refetched too.
+ */
+export function useUpdateWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateWorkspace,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dailyMetrics.all });
+    },
+  });
+}
+
+export function useWorkspaceMembers() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.members(),
+    queryFn: fetchWorkspaceMembers,
+    retry: shouldRetryRequest,
+  });
+}
+
+/**
+ * Mutation hook for inviting an email to the active workspace, or changing the role of the
+ * member who has it
+ */
+export function useInviteWorkspaceMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: inviteWorkspaceMember,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.members() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.invitations() });
+    },
+  });
+}
+
+/**
+ * Pending invitations to the active workspace; only owners and admins may list them
+ */
+export function useWorkspaceInvitations({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.invitations(),
+    queryFn: fetchWorkspaceInvitations,
+    retry: shouldRetryRequest,
+    enabled,
+  });
+}
+
+export function useReceivedInvitations() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.receivedInvitations(),
+    queryFn: fetchReceivedInvitations,
+    retry: shouldRetryRequest,
+  });
+}
+
+/**
+ * Mutation hook for accepting an invitation; the workspace joined becomes the active one
+ */
+export function useAcceptInvitation() {
+  const switchWorkspace = useSwitchWorkspace();
+
+  return useMutation({
+    mutationFn: acceptInvitation,
+    onSuccess: (workspace) => switchWorkspace(workspace.id),
+  });
+}
+
+/**
+ * Mutation hook for declining an invitation, or cancelling one to the active workspace
+ */
+export function useDeleteInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteInvitation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.invitations() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.receivedInvitations() });
+    },
+  });
+}
+
+/**
+ * Mutation hook for removing a member from the active workspace, or leaving it when the
+ * member is `currentUserId`. Leaving also forgets the workspace and resets every cached query,
+ * since its posts and metrics are no longer accessible.
+ */
+export function useRemoveWorkspaceMember(currentUserId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: removeWorkspaceMember,
+    onSuccess: (_data, userId) => {
+      if (userId === currentUserId) {
+        clearActiveWorkspaceCookie();
+        return queryClient.resetQueries();
+      }
+      return queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.all });
+    },
+  });
+}
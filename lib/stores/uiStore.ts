@@ -1,18 +1,33 @@
 import { create } from 'zustand';
 import type { Tables } from '@/lib/database.types';
+import {
+  getPresetRange,
+  type ComparisonMode,
+  type DateRange,
+  type DateRangePreset,
+} from '@/lib/utils/dateRange';
+import {
+  CHART_SERIES_KEYS,
+  toggleSeries,
+  type ChartGranularity,
+  type ChartSeriesKey,
+} from '@/lib/utils/chartSeries';
 
 type Platform = 'instagram' | 'tiktok' | 'all';
 type MediaType = 'image' | 'video' | 'carousel' | 'all';
-type SortField = 'posted_at' | 'likes' | 'engagement_rate' | 'reach';
+export type SortField = 'posted_at' | 'platform' | 'likes' | 'comments' | 'shares' | 'engagement_rate' | 'reach';
 type SortOrder = 'asc' | 'desc';
-type ChartViewType = 'line' | 'area';
+export type ChartViewType = 'line' | 'area' | 'stacked-bar';
 type Post = Tables<'posts'>;
 
 interface UIState {
   // Filters
   platformFilter: Platform;
   mediaTypeFilter: MediaType;
-  dateRange: { start: Date | null; end: Date | null };
+  dateRange: DateRange;
+  dateRangePreset: DateRangePreset;
+  comparisonMode: ComparisonMode;
+  searchQuery: string;
   
   // Sorting
   sortField: SortField;
@@ -23,6 +38,8 @@ interface UIState {
   
   // Chart view state
   chartViewType: ChartViewType;
+  chartGranularity: ChartGranularity;
+  visibleSeries: ChartSeriesKey[];
   
   // Sidebar state
   sidebarOpen: boolean;
@@ -30,12 +47,17 @@ interface UIState {
   // Actions
   setPlatformFilter: (platform: Platform) => void;
   setMediaTypeFilter: (mediaType: MediaType) => void;
-  setDateRange: (range: { start: Date | null; end: Date | null }) => void;
+  setDateRange: (range: DateRange) => void;
+  setDateRangePreset: (preset: DateRangePreset) => void;
+  setComparisonMode: (mode: ComparisonMode) => void;
+  setSearchQuery: (query: string) => void;
   setSortField: (field: SortField) => void;
   setSortOrder: (order: SortOrder) => void;
   resetFilters: () => void;
   setSelectedPost: (post: Post | null) => void;
   setChartViewType: (type: ChartViewType) => void;
+  setChartGranularity: (granularity: ChartGranularity) => void;
+  toggleChartSeries: (key: ChartSeriesKey) => void;
   setSidebarOpen: (open: boolean) => void;
   toggleSidebar: () => void;
 }
@@ -43,24 +65,42 @@ interface UIState {
 const initialState = {
   platformFilter: 'all' as Platform,
   mediaTypeFilter: 'all' as MediaType,
-  dateRange: { start: null, end: null },
+  searchQuery: '',
   sortField: 'posted_at' as SortField,
   sortOrder: 'desc' as SortOrder,
   selectedPost: null as Post | null,
   chartViewType: 'line' as ChartViewType,
+  chartGranularity: 'auto' as ChartGranularity,
   sidebarOpen: false,
 };
 
+const DEFAULT_DATE_RANGE_PRESET: DateRangePreset = '30d';
+
 export const useUIStore = create<UIState>((set) => ({
   ...initialState,
+  // The date range and chart series are dashboard-wide rather than table filters,
+  // so they live outside initialState and survive resetFilters()
+  dateRange: getPresetRange(DEFAULT_DATE_RANGE_PRESET)!,
+  dateRangePreset: DEFAULT_DATE_RANGE_PRESET,
+  comparisonMode: 'previous',
+  visibleSeries: CHART_SERIES_KEYS,
   setPlatformFilter: (platform) => set({ platformFilter: platform }),
   setMediaTypeFilter: (mediaType) => set({ mediaTypeFilter: mediaType }),
-  setDateRange: (range) => set({ dateRange: range }),
+  setDateRange: (range) => set({ dateRange: range, dateRangePreset: 'custom' }),
+  setDateRangePreset: (preset) =>
+    set((state) => ({
+      dateRangePreset: preset,
+      dateRange: getPresetRange(preset) ?? state.dateRange,
+    })),
+  setComparisonMode: (mode) => set({ comparisonMode: mode }),
+  setSearchQuery: (query) => set({ searchQuery: query }),
   setSortField: (field) => set({ sortField: field }),
   setSortOrder: (order) => set({ sortOrder: order }),
   resetFilters: () => set(initialState),
   setSelectedPost: (post) => set({ selectedPost: post }),
   setChartViewType: (type) => set({ chartViewType: type }),
+  setChartGranularity: (granularity) => set({ chartGranularity: granularity }),
+  toggleChartSeries: (key) => set((state) => ({ visibleSeries: toggleSeries(state.visibleSeries, key) })),
   setSidebarOpen: (open) => set({ sidebarOpen: open }),
   toggleSidebar: () => set((state) => ({ sidebarOpen: !state.sidebarOpen })),
 }));
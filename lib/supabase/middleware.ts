@@ -1,8 +1,67 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
 import type { Database } from '@/lib/database.types';
+import { apiError, apiRateLimitError } from '@/lib/utils/apiResponse';
+import { parseBearerToken } from '@/lib/utils/apiTokens';
+import {
+  consumeRateLimit,
+  EMAIL_RATE_LIMITED_ROUTES,
+  getClientIp,
+  getRateLimitBuckets,
+  getRateLimitStore,
+} from '@/lib/utils/rateLimit';
+
+// Auth routes that stay reachable once signed in: a reset link signs the user in before
+// they choose a new password
+const SIGNED_IN_AUTH_ROUTES = ['/auth/callback', '/auth/reset-password'];
+
+const hasBearerToken = (request: NextRequest) => parseBearerToken(request.headers.get('authorization')) !== null;
+
+/**
+ * The `email` of an auth request's JSON body, for the per-email bucket. The route reads
+ * the original body, so only a clone is consumed here.
+ */
+async function readEmail(request: NextRequest): Promise<string | null> {
+  if (request.method !== 'POST' || !EMAIL_RATE_LIMITED_ROUTES.includes(request.nextUrl.pathname)) {
+    return null;
+  }
+  try {
+    const body: unknown = await request.clone().json();
+    const email = body && typeof body === 'object' ? (body as { email?: unknown }).email : null;
+    return typeof email === 'string' ? email : null;
+  } catch {
+    // Invalid JSON: each of these routes answers 400 VALIDATION_FAILED, and the IP bucket still counts it
+    return null;
+  }
+}
+
+/**
+ * 429 with Retry-After when an API request exceeds its per-IP or per-email bucket, otherwise null
+ */
+async function enforceRateLimit(request: NextRequest) {
+  const buckets = getRateLimitBuckets(
+    { method: request.method, pathname: request.nextUrl.pathname, ip: getClientIp(request) },
+    await readEmail(request)
+  );
+  const { allowed, retryAfterSeconds } = await consumeRateLimit(getRateLimitStore(), buckets);
+
+  return allowed ? null : apiRateLimitError(request, retryAfterSeconds);
+}
 
 export async function updateSession(request: NextRequest) {
+  // Throttle API requests before any auth work, so floods never reach Supabase
+  if (request.nextUrl.pathname.startsWith('/api')) {
+    try {
+      const rateLimited = await enforceRateLimit(request);
+      if (rateLimited) {
+        return rateLimited;
+      }
+    } catch (error) {
+      // A store outage shouldn't take the API down with it
+      console.error('Rate limit error in middleware:', error);
+    }
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   });
@@ -47,19 +106,19 @@ export async function updateSession(request: NextRequest) {
     
     const pathname = request.nextUrl.pathname;
     const isAuthRoute = pathname.startsWith('/auth');
-    const isPublicApiRoute = pathname.startsWith('/api/auth');
+    const isPublicApiRoute = pathname.startsWith('/api/auth') || pathname === '/api/openapi.json';
+    const isDocsRoute = pathname === '/docs';
+    const isApiTokenRequest = pathname.startsWith('/api') && hasBearerToken(request);
     
-    // Allow auth routes and public API routes to proceed
-    if (isAuthRoute || isPublicApiRoute) {
+    // Allow auth routes, public API routes and the API docs to proceed,
+    // and leave API token requests to withAuth
+    if (isAuthRoute || isPublicApiRoute || isDocsRoute || isApiTokenRequest) {
       return supabaseResponse;
     }
     
     // For protected API routes, return 401
     if (pathname.startsWith('/api')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+      return apiError(request, 'UNAUTHORIZED', 'Unauthorized');
     }
     
     // For pages, redirect to login
@@ -70,21 +129,21 @@ export async function updateSession(request: NextRequest) {
 
   const pathname = request.nextUrl.pathname;
   const isAuthRoute = pathname.startsWith('/auth');
-  const isPublicApiRoute = pathname.startsWith('/api/auth');
+  const isPublicApiRoute = pathname.startsWith('/api/auth') || pathname === '/api/openapi.json';
+  const isDocsRoute = pathname === '/docs';
+  const isApiTokenRequest = pathname.startsWith('/api') && hasBearerToken(request);
   
   // If no user and trying to access protected routes
   if (!user) {
-    // Allow auth routes (login, signup) to proceed
-    if (isAuthRoute || isPublicApiRoute) {
+    // Allow auth routes (login, signup) and the API docs to proceed.
+    // Requests with an API token have no session; withAuth verifies the token instead.
+    if (isAuthRoute || isPublicApiRoute || isDocsRoute || isApiTokenRequest) {
       return supabaseResponse;
     }
     
     // For protected API routes, return 401
     if (pathname.startsWith('/api')) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+      return apiError(request, 'UNAUTHORIZED', 'Unauthorized');
     }
     
     // For protected pages, redirect to login
@@ -93,8 +152,10 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url);
   }
   
-  // If user is authenticated and trying to access auth pages, redirect to dashboard
-  if (isAuthRoute && !isPublicApiRoute) {
+  // If user is authenticated and trying to access auth pages, redirect to dashboard.
+  // Email links still land on the callback, e.g. a magic link opened while signed in, and
+  // password reset links continue to /auth/reset-password.
+  if (isAuthRoute && !isPublicApiRoute && !SIGNED_IN_AUTH_ROUTES.includes(pathname)) {
     const url = request.nextUrl.clone();
     url.pathname = '/dashboard';
     return NextResponse.redirect(url);
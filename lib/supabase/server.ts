@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr';
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import type { Database } from '@/lib/database.types';
 import { validateEnvironmentVariables } from '@/lib/utils/env';
@@ -48,3 +49,32 @@ export async function createClient() {
   );
 }
 
+
+export type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Client for requests authenticated by an API token instead of cookies: acts as the user
+ * `accessToken` was signed for (see signAccessToken in lib/utils/apiTokens.ts), or as anon
+ * without one. Nothing is read from or written to cookies.
+ */
+export function createTokenClient(accessToken?: string): ServerClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      'Missing Supabase environment variables. Please check your .env.local file.'
+    );
+  }
+
+  return createSupabaseClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
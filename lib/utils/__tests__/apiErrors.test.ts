@@ -0,0 +1,130 @@
+import { NextRequest } from 'next/server';
+import { ApiError, getErrorMessage, readApiResponse, shouldRetryRequest } from '../apiErrors';
+import {
+  apiError,
+  apiRateLimitError,
+  apiSuccess,
+  apiValidationError,
+  getRequestId,
+  REQUEST_ID_HEADER,
+} from '../apiResponse';
+
+const request = (headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost/api/posts', { headers });
+
+describe('apiSuccess / apiError', () => {
+  it('should wrap data in the success envelope with meta and a request id header', async () => {
+    const response = apiSuccess(request(), [1, 2], { meta: { nextCursor: null } });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ success: true, data: [1, 2], nextCursor: null, requestId: expect.any(String) });
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe(body.requestId);
+  });
+
+  it('should use the status of the error code', async () => {
+    const response = apiError(request(), 'NOT_FOUND', 'Post not found');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Post not found', requestId: expect.any(String) },
+    });
+  });
+
+  it('should list the field of a validation error', async () => {
+    const response = apiValidationError(request(), 'Invalid post id', 'id');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.details).toEqual([{ field: 'id', message: 'Invalid post id' }]);
+  });
+
+  it('should tell rate limited clients when to retry', async () => {
+    const response = apiRateLimitError(request(), 42);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('42');
+    expect((await response.json()).error.code).toBe('RATE_LIMITED');
+  });
+
+  it('should echo a well-formed forwarded request id only', () => {
+    expect(getRequestId(request({ [REQUEST_ID_HEADER]: 'lb-12345678' }))).toBe('lb-12345678');
+    expect(getRequestId(request({ [REQUEST_ID_HEADER]: '<script>' }))).not.toBe('<script>');
+  });
+});
+
+describe('readApiResponse', () => {
+  it('should return the success envelope', async () => {
+    const result = await readApiResponse<number[]>(apiSuccess(null, [1]), 'Failed');
+    expect(result.data).toEqual([1]);
+  });
+
+  it('should throw an ApiError carrying the code, details and request id', async () => {
+    const response = apiValidationError(request({ [REQUEST_ID_HEADER]: 'req-12345678' }), 'bad', 'limit');
+
+    await expect(readApiResponse(response, 'Failed')).rejects.toMatchObject({
+      name: 'ApiError',
+      code: 'VALIDATION_FAILED',
+      status: 400,
+      details: [{ field: 'limit', message: 'bad' }],
+      requestId: 'req-12345678',
+    });
+  });
+
+  it('should infer the code from the status when the body is not an envelope', async () => {
+    const response = new Response('<html>Bad gateway</html>', { status: 502 });
+    const notFound = new Response('Not found', { status: 404 });
+
+    await expect(readApiResponse(response, 'Failed to load')).rejects.toMatchObject({
+      code: 'INTERNAL',
+      message: 'Failed to load',
+    });
+    await expect(readApiResponse(notFound, 'Failed to load')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('shouldRetryRequest', () => {
+  it('should not retry client errors', () => {
+    expect(shouldRetryRequest(0, new ApiError({ code: 'UNAUTHORIZED', message: 'Unauthorized' }, 401))).toBe(false);
+    expect(shouldRetryRequest(0, new ApiError({ code: 'RATE_LIMITED', message: 'Slow down' }, 429))).toBe(false);
+  });
+
+  it('should retry server and network errors up to three times', () => {
+    const serverError = new ApiError({ code: 'INTERNAL', message: 'Failed' }, 500);
+
+    expect(shouldRetryRequest(2, serverError)).toBe(true);
+    expect(shouldRetryRequest(3, serverError)).toBe(false);
+    expect(shouldRetryRequest(0, new TypeError('Failed to fetch'))).toBe(true);
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('should join validation details', () => {
+    const error = new ApiError(
+      {
+        code: 'VALIDATION_FAILED',
+        message: 'Invalid',
+        details: [
+          { field: 'likes', message: 'likes must not be negative' },
+          { field: 'reach', message: 'reach must be an integer' },
+        ],
+      },
+      400
+    );
+
+    expect(getErrorMessage(error, 'Failed')).toBe('likes must not be negative; reach must be an integer');
+  });
+
+  it('should add the request id to server errors', () => {
+    const error = new ApiError({ code: 'INTERNAL', message: 'Failed to fetch posts', requestId: 'abc' }, 500);
+    expect(getErrorMessage(error, 'Failed')).toBe('Failed to fetch posts (request abc)');
+  });
+
+  it('should use friendly text for expired sessions and the fallback for non-errors', () => {
+    const error = new ApiError({ code: 'UNAUTHORIZED', message: 'Unauthorized' }, 401);
+
+    expect(getErrorMessage(error, 'Failed')).toBe('Your session has expired. Please sign in again.');
+    expect(getErrorMessage(new Error('Network down'), 'Failed')).toBe('Network down');
+    expect(getErrorMessage(null, 'Failed')).toBe('Failed');
+  });
+});
@@ -0,0 +1,77 @@
+import { createHash, createHmac } from 'crypto';
+import {
+  API_ACCESS_TOKEN_TTL_SECONDS,
+  API_TOKEN_PREFIX,
+  generateApiToken,
+  getRequiredScope,
+  hashApiToken,
+  parseBearerToken,
+  signAccessToken,
+} from '../apiTokens';
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+describe('generateApiToken', () => {
+  it('should create distinct prefixed tokens with their hash and display prefix', async () => {
+    const first = await generateApiToken();
+    const second = await generateApiToken();
+
+    expect(first.token).toMatch(new RegExp(`^${API_TOKEN_PREFIX}[A-Za-z0-9_-]{43}$`));
+    expect(first.token).not.toBe(second.token);
+    expect(first.hash).toBe(await hashApiToken(first.token));
+    expect(first.token.startsWith(first.prefix)).toBe(true);
+    expect(first.prefix.length).toBeLessThan(first.token.length / 2);
+  });
+});
+
+describe('hashApiToken', () => {
+  it('should be the hex SHA-256 of the token', async () => {
+    expect(await hashApiToken('ak_example')).toBe(createHash('sha256').update('ak_example').digest('hex'));
+  });
+});
+
+describe('parseBearerToken', () => {
+  it('should read bearer tokens', () => {
+    expect(parseBearerToken('Bearer ak_abc')).toBe('ak_abc');
+    expect(parseBearerToken('bearer   ak_abc ')).toBe('ak_abc');
+  });
+
+  it('should ignore missing headers and other schemes', () => {
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken('')).toBeNull();
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(parseBearerToken('Bearer')).toBeNull();
+  });
+});
+
+describe('getRequiredScope', () => {
+  it('should require read for safe methods and write for the rest', () => {
+    expect(getRequiredScope('GET')).toBe('read');
+    expect(getRequiredScope('head')).toBe('read');
+    for (const method of ['POST', 'PATCH', 'PUT', 'DELETE']) {
+      expect(getRequiredScope(method)).toBe('write');
+    }
+  });
+});
+
+describe('signAccessToken', () => {
+  const userId = '9747bcab-47cf-44fe-8001-542d7b0c9225';
+  const secret = 'super-secret-jwt-token-with-at-least-32-characters';
+
+  it('should sign an HS256 JWT for the user', async () => {
+    const jwt = await signAccessToken(userId, secret, Date.UTC(2024, 0, 1));
+    const [header, payload, signature] = jwt.split('.');
+
+    expect(decodeSegment(header)).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(signature).toBe(createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url'));
+
+    const issuedAt = Date.UTC(2024, 0, 1) / 1000;
+    expect(decodeSegment(payload)).toEqual({
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: issuedAt,
+      exp: issuedAt + API_ACCESS_TOKEN_TTL_SECONDS,
+    });
+  });
+});
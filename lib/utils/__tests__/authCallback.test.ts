@@ -0,0 +1,66 @@
+import {
+  AUTH_CALLBACK_ERRORS,
+  classifyAuthCallbackError,
+  getAuthCallbackErrorMessage,
+  getSafeRedirectPath,
+} from '../authCallback';
+
+describe('classifyAuthCallbackError', () => {
+  it('should recognize expired links by code or message', () => {
+    expect(classifyAuthCallbackError({ code: 'otp_expired' })).toBe('link_expired');
+    expect(classifyAuthCallbackError({ code: 'flow_state_expired' })).toBe('link_expired');
+    expect(classifyAuthCallbackError({ message: 'Email link is invalid or has expired' })).toBe('link_expired');
+  });
+
+  it('should recognize links opened in another browser', () => {
+    expect(
+      classifyAuthCallbackError({ message: 'invalid request: both auth code and code verifier should be non-empty' })
+    ).toBe('link_other_browser');
+  });
+
+  it('should treat anything else as an invalid link', () => {
+    expect(classifyAuthCallbackError({ code: 'bad_code_verifier_unknown_x', message: 'Invalid grant' })).toBe(
+      'link_invalid'
+    );
+    expect(classifyAuthCallbackError({})).toBe('link_invalid');
+  });
+});
+
+describe('getAuthCallbackErrorMessage', () => {
+  it('should return the message for known errors only', () => {
+    expect(getAuthCallbackErrorMessage('link_expired')).toBe(AUTH_CALLBACK_ERRORS.link_expired);
+    expect(getAuthCallbackErrorMessage('toString')).toBeNull();
+    expect(getAuthCallbackErrorMessage('<script>')).toBeNull();
+    expect(getAuthCallbackErrorMessage(undefined)).toBeNull();
+  });
+});
+
+describe('getSafeRedirectPath', () => {
+  const ORIGIN = 'https://app.example.com';
+
+  it('should keep paths on this site', () => {
+    expect(getSafeRedirectPath('/dashboard/settings?tab=tokens', ORIGIN)).toBe('/dashboard/settings?tab=tokens');
+    expect(getSafeRedirectPath('/dashboard#posts', ORIGIN)).toBe('/dashboard#posts');
+  });
+
+  it('should fall back for missing, absolute and protocol-relative values', () => {
+    expect(getSafeRedirectPath(null, ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('https://evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('//evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('dashboard', ORIGIN, '/')).toBe('/');
+  });
+
+  it('should fall back for other sites disguised with backslashes', () => {
+    expect(getSafeRedirectPath('/\\evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('/\\/evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('\\\\evil.example', ORIGIN)).toBe('/dashboard');
+  });
+
+  it('should fall back for other sites disguised with control characters', () => {
+    // searchParams.get('next') decodes `/%09/evil.example` to a tab, which URL parsing strips
+    expect(getSafeRedirectPath('/\t/evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('/\n/evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('/\r\n/evil.example', ORIGIN)).toBe('/dashboard');
+    expect(getSafeRedirectPath('/\t\\evil.example', ORIGIN)).toBe('/dashboard');
+  });
+});
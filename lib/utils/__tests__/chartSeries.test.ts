@@ -0,0 +1,84 @@
+import {
+  assignSeriesAxes,
+  getDefaultGranularity,
+  indexByBucketOffset,
+  toggleSeries,
+} from '../chartSeries';
+
+describe('assignSeriesAxes', () => {
+  it('should keep series of similar magnitude on the left axis', () => {
+    expect(
+      assignSeriesAxes({ engagement: 800, reach: 2000, impressions: 3000 }, ['engagement', 'reach', 'impressions'])
+    ).toEqual({ engagement: 'left', reach: 'left', impressions: 'left' });
+  });
+
+  it('should move much smaller series to the right axis', () => {
+    expect(
+      assignSeriesAxes({ engagement: 500, reach: 20000, impressions: 30000 }, ['engagement', 'reach', 'impressions'])
+    ).toEqual({ engagement: 'right', reach: 'left', impressions: 'left' });
+  });
+
+  it('should only consider visible series', () => {
+    expect(assignSeriesAxes({ engagement: 500, reach: 20000 }, ['engagement'])).toEqual({ engagement: 'left' });
+  });
+
+  it('should keep empty series on the left axis', () => {
+    expect(assignSeriesAxes({ engagement: 0, reach: 20000 }, ['engagement', 'reach'])).toEqual({
+      engagement: 'left',
+      reach: 'left',
+    });
+  });
+});
+
+describe('toggleSeries', () => {
+  it('should remove a visible series', () => {
+    expect(toggleSeries(['engagement', 'reach'], 'engagement')).toEqual(['reach']);
+  });
+
+  it('should never hide the last visible series', () => {
+    expect(toggleSeries(['reach'], 'reach')).toEqual(['reach']);
+  });
+
+  it('should add a hidden series back in legend order', () => {
+    expect(toggleSeries(['impressions'], 'engagement')).toEqual(['engagement', 'impressions']);
+  });
+});
+
+describe('indexByBucketOffset', () => {
+  it('should key daily points by days since the start of the range', () => {
+    const index = indexByBucketOffset(
+      [{ date: '2024-02-01' }, { date: '2024-02-03' }],
+      '2024-02-01'
+    );
+
+    expect([...index.keys()]).toEqual([0, 2]);
+    expect(index.get(2)).toEqual({ date: '2024-02-03' });
+  });
+
+  it('should line up two periods of the same length day by day', () => {
+    const current = indexByBucketOffset([{ date: '2024-03-01' }], '2024-02-29');
+    const previous = indexByBucketOffset([{ date: '2024-02-28' }], '2024-02-27');
+
+    expect([...current.keys()]).toEqual([...previous.keys()]);
+  });
+
+  it('should key weekly and monthly buckets by bucket count', () => {
+    // 2024-03-06 is a Wednesday; its ISO week starts on Monday 2024-03-04
+    expect([...indexByBucketOffset([{ date: '2024-03-04' }, { date: '2024-03-18' }], '2024-03-06', 'week').keys()])
+      .toEqual([0, 2]);
+    expect([...indexByBucketOffset([{ date: '2024-01-01' }, { date: '2024-03-01' }], '2023-12-15', 'month').keys()])
+      .toEqual([1, 3]);
+  });
+});
+
+describe('getDefaultGranularity', () => {
+  it('should stay daily up to 90 days', () => {
+    expect(getDefaultGranularity('2024-01-01', '2024-03-30')).toBe('day');
+  });
+
+  it('should switch to weeks, then months, for longer ranges', () => {
+    expect(getDefaultGranularity('2024-01-01', '2024-03-31')).toBe('week');
+    expect(getDefaultGranularity('2023-01-01', '2024-01-01')).toBe('week');
+    expect(getDefaultGranularity('2023-01-01', '2024-01-02')).toBe('month');
+  });
+});
@@ -0,0 +1,62 @@
+import { bucketDailyMetrics, getBucketOffset, getBucketStart } from '../dailyMetrics';
+
+describe('getBucketStart', () => {
+  it('should start ISO weeks on Monday', () => {
+    // 2024-03-06 is a Wednesday, 2024-03-10 a Sunday
+    expect(getBucketStart('2024-03-06', 'week')).toBe('2024-03-04');
+    expect(getBucketStart('2024-03-10', 'week')).toBe('2024-03-04');
+    expect(getBucketStart('2024-03-11', 'week')).toBe('2024-03-11');
+  });
+
+  it('should keep weeks that span a year boundary together', () => {
+    // ISO week 1 of 2025 starts on Monday 2024-12-30
+    expect(getBucketStart('2025-01-01', 'week')).toBe('2024-12-30');
+  });
+
+  it('should start months on the first', () => {
+    expect(getBucketStart('2024-02-29', 'month')).toBe('2024-02-01');
+  });
+
+  it('should leave days unchanged', () => {
+    expect(getBucketStart('2024-02-29', 'day')).toBe('2024-02-29');
+  });
+});
+
+describe('getBucketOffset', () => {
+  it('should count buckets from the one the range starts in', () => {
+    expect(getBucketOffset('2024-03-05', '2024-03-01', 'day')).toBe(4);
+    expect(getBucketOffset('2024-03-11', '2024-03-06', 'week')).toBe(1);
+    expect(getBucketOffset('2025-02-10', '2024-11-30', 'month')).toBe(3);
+  });
+});
+
+describe('bucketDailyMetrics', () => {
+  const rows = [
+    { date: '2024-03-09', likes: 10, follower_count: 100 },
+    { date: '2024-03-10', likes: 5, follower_count: null },
+    { date: '2024-03-11', likes: null, follower_count: 120 },
+    { date: '2024-03-12', likes: 7, follower_count: 125 },
+  ];
+
+  it('should sum counters per ISO week, dated by the Monday', () => {
+    expect(bucketDailyMetrics(rows, 'week', ['likes'])).toEqual([
+      { date: '2024-03-04', likes: 15 },
+      { date: '2024-03-11', likes: 7 },
+    ]);
+  });
+
+  it('should keep the last known follower count instead of summing it', () => {
+    expect(bucketDailyMetrics(rows, 'week', ['follower_count'])).toEqual([
+      { date: '2024-03-04', follower_count: 100 },
+      { date: '2024-03-11', follower_count: 125 },
+    ]);
+  });
+
+  it('should sum per calendar month', () => {
+    expect(bucketDailyMetrics(rows, 'month', ['likes'])).toEqual([{ date: '2024-03-01', likes: 22 }]);
+  });
+
+  it('should return daily rows unchanged', () => {
+    expect(bucketDailyMetrics(rows, 'day', ['likes'])).toBe(rows);
+  });
+});
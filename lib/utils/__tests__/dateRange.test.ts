@@ -0,0 +1,135 @@
+import {
+  getPresetRange,
+  toDateParam,
+  fromDateParam,
+  addDays,
+  addYears,
+  countDays,
+  listDates,
+  toDateInTimeZone,
+  getComparisonRange,
+  formatDateRangeLabel,
+} from '../dateRange';
+
+// Local-time "now" so the assertions hold in any timezone
+const now = new Date(2024, 2, 15, 18, 30);
+
+describe('getPresetRange', () => {
+  it('should return inclusive "last N days" ranges ending today', () => {
+    const range = getPresetRange('7d', now)!;
+    expect(toDateParam(range.start!)).toBe('2024-03-09');
+    expect(toDateParam(range.end!)).toBe('2024-03-15');
+
+    expect(toDateParam(getPresetRange('30d', now)!.start!)).toBe('2024-02-15');
+    expect(toDateParam(getPresetRange('90d', now)!.start!)).toBe('2023-12-17');
+  });
+
+  it('should start month to date on the first of the month', () => {
+    const range = getPresetRange('mtd', now)!;
+    expect(toDateParam(range.start!)).toBe('2024-03-01');
+    expect(toDateParam(range.end!)).toBe('2024-03-15');
+  });
+
+  it('should return null for custom ranges', () => {
+    expect(getPresetRange('custom', now)).toBeNull();
+  });
+});
+
+describe('toDateParam / fromDateParam', () => {
+  it('should round-trip local dates', () => {
+    expect(toDateParam(fromDateParam('2024-01-05')!)).toBe('2024-01-05');
+  });
+
+  it('should return null for malformed dates', () => {
+    expect(fromDateParam('2024/01/05')).toBeNull();
+    expect(fromDateParam('')).toBeNull();
+  });
+});
+
+describe('addDays', () => {
+  it('should add and subtract days across month and year boundaries', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31');
+  });
+});
+
+describe('addYears', () => {
+  it('should shift the year and clamp Feb 29', () => {
+    expect(addYears('2024-03-15', -1)).toBe('2023-03-15');
+    expect(addYears('2024-02-29', -1)).toBe('2023-02-28');
+  });
+});
+
+describe('getComparisonRange', () => {
+  it('should return the same-length period immediately before', () => {
+    expect(getComparisonRange('2024-03-01', '2024-03-30', 'previous')).toEqual({
+      startDate: '2024-01-31',
+      endDate: '2024-02-29',
+    });
+  });
+
+  it('should return the same dates one year earlier', () => {
+    expect(getComparisonRange('2024-03-01', '2024-03-30', 'last_year')).toEqual({
+      startDate: '2023-03-01',
+      endDate: '2023-03-30',
+    });
+  });
+
+  it('should end last year\'s period before a range longer than a year starts', () => {
+    expect(getComparisonRange('2023-01-01', '2024-06-30', 'last_year')).toEqual({
+      startDate: '2022-01-01',
+      endDate: '2022-12-31',
+    });
+    // Exactly one year still compares every day
+    expect(getComparisonRange('2023-01-01', '2023-12-31', 'last_year')).toEqual({
+      startDate: '2022-01-01',
+      endDate: '2022-12-31',
+    });
+  });
+
+  it('should return null without a comparison', () => {
+    expect(getComparisonRange('2024-03-01', '2024-03-30', 'none')).toBeNull();
+  });
+});
+
+describe('countDays', () => {
+  it('should count both ends of the range', () => {
+    expect(countDays('2024-03-01', '2024-03-01')).toBe(1);
+    expect(countDays('2024-03-01', '2024-03-30')).toBe(30);
+  });
+});
+
+describe('listDates', () => {
+  it('should list every day of the range, across month ends', () => {
+    expect(listDates('2024-02-28', '2024-03-01')).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+    expect(listDates('2024-03-01', '2024-03-01')).toEqual(['2024-03-01']);
+  });
+
+  it('should return an empty list for reversed ranges', () => {
+    expect(listDates('2024-03-02', '2024-03-01')).toEqual([]);
+  });
+});
+
+describe('toDateInTimeZone', () => {
+  it('should return the calendar date in the given time zone', () => {
+    expect(toDateInTimeZone('2024-03-01T02:00:00Z', 'UTC')).toBe('2024-03-01');
+    expect(toDateInTimeZone('2024-03-01T02:00:00Z', 'America/New_York')).toBe('2024-02-29');
+    expect(toDateInTimeZone('2024-03-01T20:00:00Z', 'Asia/Tokyo')).toBe('2024-03-02');
+  });
+});
+
+describe('formatDateRangeLabel', () => {
+  it('should use the preset label for presets', () => {
+    expect(formatDateRangeLabel('30d', { start: null, end: null })).toBe('Last 30 days');
+  });
+
+  it('should format custom ranges', () => {
+    expect(
+      formatDateRangeLabel('custom', { start: new Date(2024, 0, 1), end: new Date(2024, 0, 15) })
+    ).toBe('Jan 1 – Jan 15, 2024');
+    expect(
+      formatDateRangeLabel('custom', { start: new Date(2023, 11, 20), end: new Date(2024, 0, 15) })
+    ).toBe('Dec 20, 2023 – Jan 15, 2024');
+  });
+});
@@ -0,0 +1,120 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { API_TOKEN_SCOPES } from '../apiTokens';
+import { DB_ENUM_CONSTRAINTS, POSTGRES_INTEGER_MAX } from '../dbConstraints';
+import { createPostBodySchema, POST_BODY_COLUMNS, updatePostBodySchema } from '../postValidation';
+import { POST_SORT_FIELDS, postListFiltersSchema } from '../routeSchemas';
+
+/**
+ * Keeps the request schemas in step with the database: these tests read the migrations
+ * and fail when a CHECK constraint or column changes without the schemas following.
+ */
+
+const MIGRATIONS_DIR = join(__dirname, '../../../supabase/migrations');
+
+const migrations = readdirSync(MIGRATIONS_DIR)
+  .filter((file) => file.endsWith('.sql'))
+  .map((file) => readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+
+/**
+ * `table.column` => values of every `CHECK (column IN (...))`, attributed to the
+ * CREATE TABLE / ALTER TABLE statement it appears in
+ */
+function readEnumConstraints(): Record<string, string[]> {
+  const constraints: Record<string, string[]> = {};
+
+  for (const sql of migrations) {
+    for (const statement of sql.split(';')) {
+      const table = /(?:CREATE|ALTER)\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:public\.)?(\w+)/i.exec(statement)?.[1];
+      for (const [, column, values] of statement.matchAll(/CHECK\s*\(\s*(\w+)\s+IN\s*\(([^)]*)\)\s*\)/gi)) {
+        constraints[`${table}.${column}`] = values.split(',').map((value) => value.trim().replace(/^'|'$/g, ''));
+      }
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Column definitions of CREATE TABLE `table`: name => the rest of the definition
+ */
+function readColumns(table: string): Record<string, string> {
+  const body = migrations
+    .map((sql) => new RegExp(`CREATE\\s+TABLE\\s+(?:public\\.)?${table}\\s*\\(([\\s\\S]*?)\\n\\);`, 'i').exec(sql)?.[1])
+    .find(Boolean);
+
+  if (!body) {
+    throw new Error(`No CREATE TABLE ${table} in supabase/migrations`);
+  }
+
+  return Object.fromEntries(
+    body
+      .split('\n')
+      .map((line) => /^\s*(\w+)\s+(.+?),?\s*$/.exec(line))
+      .filter((match): match is RegExpExecArray => !!match && !/^(CONSTRAINT|UNIQUE|PRIMARY|CHECK)$/i.test(match[1]))
+      .map((match) => [match[1], match[2]])
+  );
+}
+
+describe('DB_ENUM_CONSTRAINTS', () => {
+  it('should list exactly the CHECK (... IN ...) constraints of the migrations', () => {
+    expect(readEnumConstraints()).toEqual(DB_ENUM_CONSTRAINTS);
+  });
+
+  it('should be what the post schemas accept', () => {
+    for (const schema of [createPostBodySchema, updatePostBodySchema, postListFiltersSchema]) {
+      expect(schema.platform.meta.enum).toEqual(DB_ENUM_CONSTRAINTS['posts.platform']);
+      expect(schema.mediaType.meta.enum).toEqual(DB_ENUM_CONSTRAINTS['posts.media_type']);
+    }
+  });
+});
+
+describe('post body schemas', () => {
+  const columns = readColumns('posts');
+
+  it('should write existing posts columns', () => {
+    for (const column of Object.values(POST_BODY_COLUMNS)) {
+      expect(columns).toHaveProperty(column);
+    }
+  });
+
+  it('should require the NOT NULL columns without a default', () => {
+    // user_id always comes from the session, never from the body
+    const requiredColumns = Object.entries(columns)
+      .filter(([name, definition]) => name !== 'user_id' && /NOT NULL/i.test(definition) && !/DEFAULT|PRIMARY KEY/i.test(definition))
+      .map(([name]) => name);
+
+    const requiredFields = Object.entries(createPostBodySchema)
+      .filter(([, field]) => field.meta.required)
+      .map(([field]) => POST_BODY_COLUMNS[field as keyof typeof POST_BODY_COLUMNS]);
+
+    expect(requiredFields.sort()).toEqual(requiredColumns.sort());
+  });
+
+  it('should keep INTEGER columns within the Postgres INTEGER range', () => {
+    for (const [field, column] of Object.entries(POST_BODY_COLUMNS)) {
+      if (/^INTEGER\b/i.test(columns[column])) {
+        expect(createPostBodySchema[field as keyof typeof createPostBodySchema].meta.maximum).toBe(POSTGRES_INTEGER_MAX);
+      }
+    }
+  });
+});
+
+describe('POST_SORT_FIELDS', () => {
+  it('should only name posts columns', () => {
+    const columns = readColumns('posts');
+    for (const field of POST_SORT_FIELDS) {
+      expect(columns).toHaveProperty(field);
+    }
+  });
+});
+
+describe('API_TOKEN_SCOPES', () => {
+  it('should be the scopes api_tokens accepts', () => {
+    const check = migrations
+      .map((sql) => /scopes\s*<@\s*ARRAY\[([^\]]*)\]/i.exec(sql)?.[1])
+      .find(Boolean);
+
+    expect(check?.split(',').map((value) => value.trim().replace(/^'|'$/g, ''))).toEqual([...API_TOKEN_SCOPES]);
+  });
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withDeprecation } from '../deprecation';
+
+describe('withDeprecation', () => {
+  const handler = async () => NextResponse.json({ success: true, data: [] }, { status: 200 });
+  const GET = withDeprecation(handler, {
+    successor: '/api/v1/metrics/daily',
+    deprecatedOn: '2026-10-19',
+  });
+
+  it('should pass the response through with deprecation headers', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/daily-metrics'), undefined);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, data: [] });
+    expect(response.headers.get('Deprecation')).toBe('@1792368000');
+    expect(response.headers.get('Link')).toBe('</api/v1/metrics/daily>; rel="successor-version"');
+  });
+});
@@ -0,0 +1,67 @@
+import { escapeCsvValue, toCsvRow, toExportedPost, getExportFilename, POST_EXPORT_COLUMNS } from '../export';
+
+describe('escapeCsvValue', () => {
+  it('should leave plain values unquoted', () => {
+    expect(escapeCsvValue('instagram')).toBe('instagram');
+    expect(escapeCsvValue(42)).toBe('42');
+    expect(escapeCsvValue(-1)).toBe('-1');
+  });
+
+  it('should write null and undefined as empty cells', () => {
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(undefined)).toBe('');
+  });
+
+  it('should quote values containing commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('one, two')).toBe('"one, two"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('should neutralize text that spreadsheets would run as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvValue('+1 new follower')).toBe("'+1 new follower");
+    expect(escapeCsvValue('@brand')).toBe("'@brand");
+  });
+});
+
+describe('toCsvRow', () => {
+  it('should join escaped cells and end with CRLF', () => {
+    expect(toCsvRow(['a', null, 'b,c', 3])).toBe('a,,"b,c",3\r\n');
+  });
+});
+
+describe('toExportedPost', () => {
+  it('should keep only the exported columns', () => {
+    const exported = toExportedPost({
+      id: 'post-1',
+      workspace_id: 'workspace-1',
+      user_id: 'user-1',
+      platform: 'tiktok',
+      media_type: 'video',
+      caption: 'Hello',
+      thumbnail_url: null,
+      permalink: null,
+      posted_at: '2024-01-15T10:00:00Z',
+      created_at: null,
+      impressions: 10,
+      reach: 8,
+      likes: 1,
+      comments: 0,
+      shares: 0,
+      saves: 0,
+      engagement_rate: 12.5,
+    });
+
+    expect(Object.keys(exported)).toEqual([...POST_EXPORT_COLUMNS]);
+    expect(exported).not.toHaveProperty('workspace_id');
+    expect(exported).not.toHaveProperty('user_id');
+  });
+});
+
+describe('getExportFilename', () => {
+  it('should include the date and format', () => {
+    expect(getExportFilename('csv', '2024-01-15')).toBe('posts-2024-01-15.csv');
+    expect(getExportFilename('json', '2024-01-15')).toBe('posts-2024-01-15.json');
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  calculateEngagementRate,
+  calculateSummaryChanges,
+  calculateChange,
+  type SummaryMetrics,
+} from '../metrics';
+
+describe('calculateEngagementRate', () => {
+  it('should divide total engagement by reach', () => {
+    expect(calculateEngagementRate({ likes: 50, comments: 20, shares: 20, saves: 10, reach: 1000 })).toBe(10);
+  });
+
+  it('should round to two decimal places', () => {
+    expect(calculateEngagementRate({ likes: 1, reach: 3 })).toBe(33.33);
+  });
+
+  it('should treat missing counters as zero', () => {
+    expect(calculateEngagementRate({ likes: null, reach: 100 })).toBe(0);
+  });
+
+  it('should return null when reach is zero or missing', () => {
+    expect(calculateEngagementRate({ likes: 10, reach: 0 })).toBeNull();
+    expect(calculateEngagementRate({ likes: 10 })).toBeNull();
+  });
+
+  it('should cap the rate to fit the database column', () => {
+    expect(calculateEngagementRate({ likes: 100000, reach: 1 })).toBe(999.99);
+  });
+});
+
+const metrics = (overrides: Partial<SummaryMetrics> = {}): SummaryMetrics => ({
+  totalPosts: 0,
+  totalViews: 0,
+  totalEngagements: 0,
+  averageEngagementRate: 0,
+  totalReach: 0,
+  totalLikes: 0,
+  totalComments: 0,
+  totalShares: 0,
+  ...overrides,
+});
+
+describe('calculateChange', () => {
+  it('should return the percentage change rounded to one decimal', () => {
+    expect(calculateChange(150, 100)).toBe(50);
+    expect(calculateChange(2, 3)).toBe(-33.3);
+  });
+
+  it('should handle a zero previous value', () => {
+    expect(calculateChange(5, 0)).toBe(100);
+    expect(calculateChange(0, 0)).toBe(0);
+  });
+});
+
+describe('calculateSummaryChanges', () => {
+  it('should compute the change for every metric', () => {
+    const current = metrics({ totalPosts: 1, totalLikes: 20, totalReach: 100 });
+    const previous = metrics({ totalPosts: 2, totalLikes: 10, totalReach: 100 });
+    const changes = calculateSummaryChanges(current, previous);
+
+    expect(changes.totalLikes).toBe(100);
+    expect(changes.totalPosts).toBe(-50);
+    expect(changes.totalReach).toBe(0);
+  });
+});
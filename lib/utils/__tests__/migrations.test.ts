@@ -0,0 +1,45 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * The RLS test runner (`npm run test:rls`) needs Postgres, so it doesn't run here. These
+ * tests keep it applying every migration, in the order the README lists them.
+ */
+
+const ROOT = join(__dirname, '../../..');
+
+/** Migrations in the order the README's setup steps apply them */
+function readReadmeMigrations(): string[] {
+  const readme = readFileSync(join(ROOT, 'README.md'), 'utf8');
+
+  return Array.from(readme.matchAll(/^\s*- `supabase\/migrations\/(\w+)\.sql`/gm), ([, name]) => name);
+}
+
+/** The MIGRATIONS array of the runner script */
+function readRunnerMigrations(): string[] {
+  const script = readFileSync(join(ROOT, 'supabase/tests/run_rls_tests.sh'), 'utf8');
+  const list = /^MIGRATIONS=\(\n([\s\S]*?)\n\)/m.exec(script)?.[1] ?? '';
+
+  return list.split('\n').map((line) => line.trim());
+}
+
+describe('migrations', () => {
+  it('should all be listed in the README setup steps', () => {
+    const files = readdirSync(join(ROOT, 'supabase/migrations'))
+      .filter((file) => file.endsWith('.sql'))
+      .map((file) => file.replace(/\.sql$/, ''));
+
+    expect(readReadmeMigrations().sort()).toEqual(files.sort());
+  });
+
+  it('should be applied by the RLS test runner in the README order', () => {
+    expect(readRunnerMigrations()).toEqual(readReadmeMigrations());
+  });
+
+  it('should enable RLS right after creating posts and daily_metrics', () => {
+    const order = readReadmeMigrations();
+
+    expect(order.indexOf('rls_policies')).toBe(order.indexOf('daily_metrics') + 1);
+    expect(order.indexOf('rls_policies')).toBeLessThan(order.indexOf('workspaces'));
+  });
+});
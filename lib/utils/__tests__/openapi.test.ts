@@ -0,0 +1,199 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import { API_ERROR_STATUS } from '../apiErrors';
+import { API_OPERATIONS, buildOpenApiDocument, getOperationErrors } from '../openapi';
+import * as postValidation from '../postValidation';
+import * as routeSchemas from '../routeSchemas';
+
+/**
+ * Keeps the OpenAPI document in step with the route handlers: these tests read app/api
+ * and fail when a route, method or parsed schema changes without API_OPERATIONS following.
+ */
+
+const ROOT_DIR = join(__dirname, '../../..');
+const API_DIR = join(ROOT_DIR, 'app/api');
+
+// The document itself isn't part of the API it describes
+const UNDOCUMENTED_PATHS = ['/api/openapi.json'];
+
+// Validators that parse a schema on the route's behalf
+const SCHEMA_VALIDATORS: Record<string, string> = {
+  validateCreatePostPayload: 'createPostBodySchema',
+  validateUpdatePostPayload: 'updatePostBodySchema',
+};
+
+// Components generated from a request schema, for bodies that embed one (e.g. the posts of an import)
+const SCHEMA_COMPONENTS: Record<string, string> = {
+  CreatePostBody: 'createPostBodySchema',
+};
+
+const SCHEMAS: Record<string, unknown> = { ...routeSchemas, ...postValidation };
+
+function findRouteFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) {
+      return findRouteFiles(path);
+    }
+    return entry === 'route.ts' ? [path] : [];
+  });
+}
+
+/**
+ * `app/api/posts/[id]/route.ts` => `/api/posts/{id}`
+ */
+const toApiPath = (file: string) =>
+  `/${relative(join(ROOT_DIR, 'app'), file).replace(/\/route\.ts$/, '').replace(/\[(\w+)\]/g, '{$1}')}`;
+
+/**
+ * Source of a route, followed through re-exports of another route's handlers (deprecated aliases)
+ */
+function readRouteSource(file: string): string {
+  const source = readFileSync(file, 'utf8');
+  const target = /from '@\/(app\/api\/[\w/[\]-]+\/route)'/.exec(source)?.[1];
+  return target ? readRouteSource(join(ROOT_DIR, `${target}.ts`)) : source;
+}
+
+const routes = findRouteFiles(API_DIR)
+  .map((file) => ({ path: toApiPath(file), source: readRouteSource(file), ownSource: readFileSync(file, 'utf8') }))
+  .filter((route) => !UNDOCUMENTED_PATHS.includes(route.path));
+
+/**
+ * Handlers a route file exports, as `get`, `post`, ...
+ */
+const exportedMethods = (source: string) =>
+  Array.from(source.matchAll(/export\s+(?:const|async\s+function|function)\s+(GET|POST|PUT|PATCH|DELETE)\b/g))
+    .map(([, method]) => method.toLowerCase())
+    .sort();
+
+/**
+ * Names of the request schemas a route parses, directly or through a validator
+ */
+function parsedSchemas(source: string): string[] {
+  const names = new Set<string>();
+  for (const [name] of source.matchAll(/\b\w+(?:Query|Body|Params)Schema\b/g)) {
+    names.add(name);
+  }
+  for (const [validator, schema] of Object.entries(SCHEMA_VALIDATORS)) {
+    if (source.includes(`${validator}(`)) {
+      names.add(schema);
+    }
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Names of the request schemas the spec declares for a path
+ */
+function documentedSchemas(path: string): string[] {
+  const names = new Set<string>();
+  for (const operation of API_OPERATIONS.filter((op) => op.path === path)) {
+    for (const schema of [operation.pathParams, operation.query, operation.body]) {
+      const name = Object.entries(SCHEMAS).find(([, value]) => value === schema)?.[0];
+      if (name) {
+        names.add(name);
+      }
+    }
+    for (const [component, name] of Object.entries(SCHEMA_COMPONENTS)) {
+      if (JSON.stringify(operation.body ?? {}).includes(`"#/components/schemas/${component}"`)) {
+        names.add(name);
+      }
+    }
+  }
+  return Array.from(names).sort();
+}
+
+describe('API_OPERATIONS', () => {
+  it('should document every route', () => {
+    const documentedPaths = Array.from(new Set(API_OPERATIONS.map((operation) => operation.path))).sort();
+    expect(documentedPaths).toEqual(routes.map((route) => route.path).sort());
+  });
+
+  it.each(routes.map((route) => [route.path, route]))('should document the methods of %s', (path, route) => {
+    const methods = API_OPERATIONS.filter((operation) => operation.path === path)
+      .map((operation) => operation.method)
+      .sort();
+    expect(methods).toEqual(exportedMethods(route.ownSource));
+  });
+
+  it.each(routes.map((route) => [route.path, route]))('should document the schemas %s parses', (path, route) => {
+    expect(documentedSchemas(path)).toEqual(parsedSchemas(route.source));
+  });
+
+  it('should mark exactly the routes outside withAuth as public', () => {
+    for (const route of routes) {
+      const authenticated = /withAuth\b/.test(route.source);
+      for (const operation of API_OPERATIONS.filter((op) => op.path === route.path)) {
+        expect({ path: route.path, authenticated: operation.authenticated }).toEqual({ path: route.path, authenticated });
+      }
+    }
+  });
+
+  it('should mark exactly the routes that reject API tokens as session-only', () => {
+    for (const route of routes) {
+      const sessionOnly = /allowApiTokens:\s*false/.test(route.source);
+      for (const operation of API_OPERATIONS.filter((op) => op.path === route.path)) {
+        expect({ path: route.path, sessionOnly: !!operation.sessionOnly }).toEqual({ path: route.path, sessionOnly });
+      }
+    }
+  });
+
+  it('should mark the deprecated aliases as deprecated', () => {
+    for (const route of routes) {
+      const deprecated = /withDeprecation\(/.test(route.ownSource);
+      for (const operation of API_OPERATIONS.filter((op) => op.path === route.path)) {
+        expect({ path: route.path, deprecated: !!operation.deprecated }).toEqual({ path: route.path, deprecated });
+      }
+    }
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument();
+  const json = JSON.stringify(document);
+
+  it('should be an OpenAPI 3.1 document', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(existsSync(join(API_DIR, 'openapi.json/route.ts'))).toBe(true);
+  });
+
+  it('should only reference defined components', () => {
+    for (const [, kind, name] of json.matchAll(/"#\/components\/(\w+)\/(\w+)"/g)) {
+      expect(document.components).toHaveProperty([kind, name]);
+    }
+  });
+
+  it('should describe the error responses of every operation', () => {
+    for (const operation of API_OPERATIONS) {
+      const responses = (document.paths[operation.path][operation.method] as { responses: Record<string, unknown> })
+        .responses;
+      const statuses = getOperationErrors(operation).map((code) => String(API_ERROR_STATUS[code]));
+
+      expect(Object.keys(responses).sort()).toEqual([String(operation.status ?? 200), ...statuses].sort());
+      if (operation.authenticated) {
+        expect(responses).toHaveProperty('401');
+      }
+      expect(responses).toHaveProperty('500');
+    }
+  });
+
+  it('should generate parameters from the route schemas', () => {
+    const parameters = (document.paths['/api/posts'].get as { parameters: { name: string; schema: unknown }[] })
+      .parameters;
+
+    expect(parameters.map((parameter) => parameter.name)).toEqual(Object.keys(routeSchemas.postsListQuerySchema));
+    expect(parameters.find((parameter) => parameter.name === 'limit')?.schema).toEqual({
+      type: 'integer',
+      minimum: 1,
+      maximum: 100,
+      default: 50,
+    });
+  });
+
+  it('should have unique operation ids', () => {
+    const ids = API_OPERATIONS.map(
+      (operation) => (document.paths[operation.path][operation.method] as { operationId: string }).operationId
+    );
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,65 @@
+import { encodeCursor, decodeCursor, buildKeysetFilter } from '../pagination';
+
+const id = '9747bcab-47cf-44fe-8001-542d7b0c9225';
+
+describe('encodeCursor / decodeCursor', () => {
+  it('should round-trip numeric, timestamp and null sort values', () => {
+    const likes = encodeCursor('likes', { id, likes: 42 });
+    expect(decodeCursor(likes, 'likes')).toEqual({ field: 'likes', value: 42, id });
+
+    const postedAt = encodeCursor('posted_at', { id, posted_at: '2024-01-15T10:00:00.123456+00:00' });
+    expect(decodeCursor(postedAt, 'posted_at')).toEqual({
+      field: 'posted_at',
+      value: '2024-01-15T10:00:00.123456+00:00',
+      id,
+    });
+
+    const rate = encodeCursor('engagement_rate', { id, engagement_rate: null });
+    expect(decodeCursor(rate, 'engagement_rate')).toEqual({ field: 'engagement_rate', value: null, id });
+  });
+
+  it('should produce URL-safe cursors', () => {
+    expect(encodeCursor('posted_at', { id, posted_at: '2024-01-15T10:00:00+00:00' })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject cursors issued for a different sort field', () => {
+    const cursor = encodeCursor('likes', { id, likes: 42 });
+    expect(decodeCursor(cursor, 'reach')).toBeNull();
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeCursor(null, 'likes')).toBeNull();
+    expect(decodeCursor('not a cursor!', 'likes')).toBeNull();
+    expect(decodeCursor('bm90LWpzb24', 'likes')).toBeNull();
+  });
+
+  it('should reject cursor values that could alter the filter', () => {
+    const forge = (value: unknown, cursorId = id) =>
+      btoa(JSON.stringify({ field: 'platform', value, id: cursorId }));
+
+    expect(decodeCursor(forge('instagram),user_id.neq.(x'), 'platform')).toBeNull();
+    expect(decodeCursor(forge('"tiktok"'), 'platform')).toBeNull();
+    expect(decodeCursor(forge('tiktok', 'abc'), 'platform')).toBeNull();
+    expect(decodeCursor(forge('tiktok'), 'platform')).toEqual({ field: 'platform', value: 'tiktok', id });
+  });
+});
+
+describe('buildKeysetFilter', () => {
+  it('should select rows after the cursor in descending order', () => {
+    expect(buildKeysetFilter({ field: 'likes', value: 42, id }, 'desc')).toBe(
+      `likes.lt."42",and(likes.eq."42",id.lt.${id}),likes.is.null`
+    );
+  });
+
+  it('should select rows after the cursor in ascending order', () => {
+    expect(buildKeysetFilter({ field: 'likes', value: 42, id }, 'asc')).toBe(
+      `likes.gt."42",and(likes.eq."42",id.gt.${id}),likes.is.null`
+    );
+  });
+
+  it('should stay within the trailing NULL block once it is reached', () => {
+    expect(buildKeysetFilter({ field: 'engagement_rate', value: null, id }, 'desc')).toBe(
+      `and(engagement_rate.is.null,id.lt.${id})`
+    );
+  });
+});
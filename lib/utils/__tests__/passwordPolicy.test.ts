@@ -0,0 +1,88 @@
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordStrength,
+  isCommonPassword,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  parsePasswordPolicy,
+} from '../passwordPolicy';
+import { COMMON_PASSWORDS } from '../commonPasswords';
+
+describe('parsePasswordPolicy', () => {
+  it('should default every missing setting', () => {
+    expect(parsePasswordPolicy({})).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('should read the settings', () => {
+    expect(
+      parsePasswordPolicy({ minLength: '12', characterClasses: 'digit, symbol', rejectCommonPasswords: 'false' })
+    ).toEqual({ minLength: 12, characterClasses: ['digit', 'symbol'], rejectCommonPasswords: false });
+    expect(parsePasswordPolicy({ characterClasses: 'none' }).characterClasses).toEqual([]);
+  });
+
+  it('should clamp the minimum length', () => {
+    expect(parsePasswordPolicy({ minLength: '4' }).minLength).toBe(MIN_PASSWORD_LENGTH);
+    expect(parsePasswordPolicy({ minLength: '500' }).minLength).toBe(MAX_PASSWORD_LENGTH);
+  });
+
+  it('should keep the defaults for invalid settings', () => {
+    expect(
+      parsePasswordPolicy({ minLength: 'ten', characterClasses: 'digit,emoji', rejectCommonPasswords: 'no' })
+    ).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+});
+
+describe('isCommonPassword', () => {
+  it('should match the list ignoring case', () => {
+    expect(isCommonPassword('Password1')).toBe(true);
+    expect(isCommonPassword('QWERTY')).toBe(true);
+  });
+
+  it('should match list entries with digits and symbols appended', () => {
+    expect(isCommonPassword('Monkey2025!')).toBe(true);
+    expect(isCommonPassword('Sunshine_99')).toBe(true);
+  });
+
+  it('should not match other passwords', () => {
+    expect(isCommonPassword('Correct-Horse9')).toBe(false);
+    expect(isCommonPassword('!!!123')).toBe(false);
+  });
+
+  it('should only hold lowercase entries', () => {
+    for (const password of COMMON_PASSWORDS) {
+      expect(password).toBe(password.toLowerCase());
+    }
+  });
+});
+
+describe('checkPasswordRules', () => {
+  it('should report every rule of the policy in order', () => {
+    expect(checkPasswordRules('monkey', DEFAULT_PASSWORD_POLICY).map(({ id, passed }) => [id, passed])).toEqual([
+      ['minLength', false],
+      ['lowercase', true],
+      ['uppercase', false],
+      ['digit', false],
+      ['common', false],
+    ]);
+  });
+
+  it('should only include the configured rules', () => {
+    const results = checkPasswordRules('abc', { minLength: 6, characterClasses: ['symbol'], rejectCommonPasswords: false });
+    expect(results.map((result) => result.id)).toEqual(['minLength', 'symbol']);
+    expect(results[0].label).toBe('At least 6 characters');
+  });
+
+  it('should not mark an empty password as uncommon', () => {
+    const common = checkPasswordRules('', DEFAULT_PASSWORD_POLICY).find((result) => result.id === 'common');
+    expect(common?.passed).toBe(false);
+  });
+});
+
+describe('getPasswordStrength', () => {
+  it('should be strong only when every rule passes', () => {
+    expect(getPasswordStrength(checkPasswordRules('Correct-Horse9', DEFAULT_PASSWORD_POLICY))).toBe('strong');
+    expect(getPasswordStrength(checkPasswordRules('correct-horse9', DEFAULT_PASSWORD_POLICY))).toBe('fair');
+    expect(getPasswordStrength(checkPasswordRules('abc', DEFAULT_PASSWORD_POLICY))).toBe('weak');
+  });
+});
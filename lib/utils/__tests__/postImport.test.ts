@@ -0,0 +1,115 @@
+import { parseCsv, suggestColumnMapping, buildImportPreview } from '../postImport';
+import { toCsvRow } from '../export';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should handle quoted fields, doubled quotes and CRLF line breaks', () => {
+    expect(parseCsv('caption,likes\r\n"Hello, ""world""\nagain",5\r\n')).toEqual([
+      ['caption', 'likes'],
+      ['Hello, "world"\nagain', '5'],
+    ]);
+  });
+
+  it('should ignore a byte order mark and keep empty fields', () => {
+    expect(parseCsv('\uFEFFa,b,c\n1,,3')).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+  });
+
+  it('should read back rows written by the CSV export', () => {
+    const csv = toCsvRow(['id', 'caption']) + toCsvRow(['post-1', 'Say "hi", then =SUM(1)']);
+    expect(parseCsv(csv)).toEqual([['id', 'caption'], ['post-1', 'Say "hi", then =SUM(1)']]);
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('should match headers regardless of case and separators', () => {
+    expect(suggestColumnMapping(['Platform', 'media_type', 'Posted At', 'Likes', 'Views'])).toEqual({
+      platform: 0,
+      mediaType: 1,
+      postedAt: 2,
+      likes: 3,
+      impressions: 4,
+    });
+  });
+
+  it('should map each column to at most one field', () => {
+    expect(suggestColumnMapping(['url'])).toEqual({ permalink: 0 });
+  });
+});
+
+describe('buildImportPreview', () => {
+  const mapping = { platform: 0, mediaType: 1, postedAt: 2, likes: 3, permalink: 4 };
+
+  it('should map a valid row onto post fields', () => {
+    const [row] = buildImportPreview([['Instagram', 'video', '2024-01-15', '1,234', 'https://example.com/p/1']], mapping);
+
+    expect(row).toEqual({
+      row: 2,
+      post: {
+        platform: 'instagram',
+        mediaType: 'video',
+        postedAt: '2024-01-15',
+        likes: 1234,
+        permalink: 'https://example.com/p/1',
+      },
+      errors: [],
+    });
+  });
+
+  it('should report every invalid field of a row', () => {
+    const [row] = buildImportPreview([['facebook', 'video', 'yesterday', '-5', 'https://example.com/p/1']], mapping);
+
+    expect(row.errors).toEqual([
+      'platform must be one of: instagram, tiktok',
+      'postedAt must be a valid ISO date',
+      'likes must not be negative',
+    ]);
+  });
+
+  it('should require platform, mediaType, postedAt and permalink', () => {
+    const [row] = buildImportPreview([['', '', '', '3', '']], mapping);
+    expect(row.errors).toEqual([
+      'platform is required',
+      'mediaType is required',
+      'postedAt is required',
+      'permalink is required',
+    ]);
+  });
+
+  it('should reject every row when no column is mapped to permalink', () => {
+    // Re-importing rows without a permalink would duplicate them
+    const [row] = buildImportPreview(
+      [['tiktok', 'video', '2024-01-15', '1', 'https://example.com/p/1']],
+      { ...mapping, permalink: undefined }
+    );
+    expect(row.errors).toEqual(['permalink is required']);
+  });
+
+  it('should flag permalinks repeated within the file', () => {
+    const preview = buildImportPreview(
+      [
+        ['tiktok', 'video', '2024-01-15', '1', 'https://example.com/p/1'],
+        ['tiktok', 'video', '2024-01-16', '2', 'https://example.com/p/1'],
+      ],
+      mapping
+    );
+
+    expect(preview[0].errors).toEqual([]);
+    expect(preview[1].errors).toEqual(['permalink duplicates row 2']);
+  });
+
+  it('should skip blank rows but keep spreadsheet row numbers', () => {
+    const preview = buildImportPreview(
+      [['', '', '', '', ''], ['tiktok', 'image', '2024-01-15', '', 'https://example.com/p/1']],
+      mapping
+    );
+    expect(preview.map((row) => row.row)).toEqual([3]);
+  });
+
+  it('should undo the formula guard added by the CSV export', () => {
+    const [row] = buildImportPreview([['tiktok', 'image', '2024-01-15', "'=1+1"]], { ...mapping, caption: 3, likes: undefined });
+    expect(row.post.caption).toBe('=1+1');
+  });
+});
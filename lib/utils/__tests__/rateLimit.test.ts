@@ -0,0 +1,151 @@
+import {
+  clearFailedLogins,
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  getClientIp,
+  getLoginLockout,
+  getRateLimitBuckets,
+  LOGIN_LOCKOUT,
+  loginLockoutMessage,
+  RATE_LIMIT_RULES,
+  recordFailedLogin,
+} from '../rateLimit';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('createMemoryRateLimitStore', () => {
+  it('should count within a window and reset after it', async () => {
+    const store = createMemoryRateLimitStore();
+
+    expect(await store.increment('key', 1000, NOW)).toEqual({ count: 1, resetAt: NOW + 1000 });
+    expect(await store.increment('key', 1000, NOW + 500)).toEqual({ count: 2, resetAt: NOW + 1000 });
+    expect(await store.get('key', NOW + 1000)).toBeNull();
+    expect(await store.increment('key', 1000, NOW + 1000)).toEqual({ count: 1, resetAt: NOW + 2000 });
+  });
+
+  it('should delete counters', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.increment('key', 1000, NOW);
+    await store.delete('key');
+
+    expect(await store.get('key', NOW)).toBeNull();
+  });
+});
+
+describe('getClientIp', () => {
+  const request = (headers: Record<string, string>) => new Request('http://localhost/api/posts', { headers });
+
+  it('should use the first forwarded hop, then x-real-ip', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+    expect(getClientIp(request({}))).toBe('unknown');
+  });
+});
+
+describe('getRateLimitBuckets', () => {
+  it('should limit auth requests per IP and per email', () => {
+    expect(
+      getRateLimitBuckets({ method: 'POST', pathname: '/api/auth/login', ip: '1.2.3.4' }, ' User@Example.com ')
+    ).toEqual([
+      { key: 'auth-ip:1.2.3.4', rule: RATE_LIMIT_RULES.authIp },
+      { key: 'auth-email:user@example.com', rule: RATE_LIMIT_RULES.authEmail },
+    ]);
+  });
+
+  it('should only count emails for the routes that send one', () => {
+    expect(
+      getRateLimitBuckets({ method: 'POST', pathname: '/api/auth/logout', ip: '1.2.3.4' }, 'user@example.com')
+    ).toEqual([{ key: 'auth-ip:1.2.3.4', rule: RATE_LIMIT_RULES.authIp }]);
+  });
+
+  it('should limit other API requests per IP', () => {
+    expect(getRateLimitBuckets({ method: 'GET', pathname: '/api/posts', ip: '1.2.3.4' })).toEqual([
+      { key: 'api-ip:1.2.3.4', rule: RATE_LIMIT_RULES.apiIp },
+    ]);
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('should refuse requests over the limit until the window resets', async () => {
+    const store = createMemoryRateLimitStore();
+    const buckets = [{ key: 'api-ip:1.2.3.4', rule: { limit: 2, windowMs: 60_000 } }];
+
+    expect(await consumeRateLimit(store, buckets, NOW)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(await consumeRateLimit(store, buckets, NOW)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(await consumeRateLimit(store, buckets, NOW + 10_000)).toEqual({ allowed: false, retryAfterSeconds: 50 });
+    expect((await consumeRateLimit(store, buckets, NOW + 60_000)).allowed).toBe(true);
+  });
+
+  it('should wait for the most restrictive exceeded bucket', async () => {
+    const store = createMemoryRateLimitStore();
+    const buckets = [
+      { key: 'a', rule: { limit: 0, windowMs: 10_000 } },
+      { key: 'b', rule: { limit: 0, windowMs: 30_000 } },
+    ];
+
+    expect(await consumeRateLimit(store, buckets, NOW)).toEqual({ allowed: false, retryAfterSeconds: 30 });
+  });
+});
+
+describe('login lockout', () => {
+  const email = 'user@example.com';
+
+  const failTimes = async (store: ReturnType<typeof createMemoryRateLimitStore>, times: number, now: number) => {
+    let lockout: number | null = null;
+    for (let i = 0; i < times; i++) {
+      lockout = await recordFailedLogin(store, email, now);
+    }
+    return lockout;
+  };
+
+  it('should lock an email once failures reach the threshold', async () => {
+    const store = createMemoryRateLimitStore();
+
+    expect(await failTimes(store, LOGIN_LOCKOUT.threshold - 1, NOW)).toBeNull();
+    expect(await getLoginLockout(store, email, NOW)).toBeNull();
+    expect(await recordFailedLogin(store, email, NOW)).toBe(LOGIN_LOCKOUT.baseLockoutMs / 1000);
+    expect(await getLoginLockout(store, 'USER@example.com', NOW + 10_000)).toBe(20);
+    expect(await getLoginLockout(store, email, NOW + LOGIN_LOCKOUT.baseLockoutMs)).toBeNull();
+  });
+
+  it('should double the lockout for each further failure, up to the maximum', async () => {
+    const store = createMemoryRateLimitStore();
+    await failTimes(store, LOGIN_LOCKOUT.threshold, NOW);
+
+    // Each attempt comes once the previous lockout has ended
+    const lockouts: (number | null)[] = [];
+    let now = NOW + LOGIN_LOCKOUT.baseLockoutMs;
+    for (let i = 0; i < 6; i++) {
+      const lockout = await recordFailedLogin(store, email, now);
+      lockouts.push(lockout);
+      now += (lockout ?? 0) * 1000;
+    }
+
+    expect(lockouts).toEqual([60, 120, 240, 480, 900, 900]);
+  });
+
+  it('should forget failures after a successful login', async () => {
+    const store = createMemoryRateLimitStore();
+    await failTimes(store, LOGIN_LOCKOUT.threshold, NOW);
+    await clearFailedLogins(store, email);
+
+    expect(await getLoginLockout(store, email, NOW)).toBeNull();
+    expect(await recordFailedLogin(store, email, NOW)).toBeNull();
+  });
+
+  it('should count user ids separately from emails', async () => {
+    const store = createMemoryRateLimitStore();
+    const userId = '8f1c1a52-5d0b-4f7e-9a59-3c8f1d2b7e10';
+    for (let i = 0; i < LOGIN_LOCKOUT.threshold; i++) {
+      await recordFailedLogin(store, userId, NOW);
+    }
+
+    expect(await getLoginLockout(store, userId, NOW)).toBe(LOGIN_LOCKOUT.baseLockoutMs / 1000);
+    expect(await getLoginLockout(store, email, NOW)).toBeNull();
+  });
+
+  it('should tell users how long to wait', () => {
+    expect(loginLockoutMessage(30)).toBe('Too many failed sign-in attempts. Try again in 30 seconds.');
+    expect(loginLockoutMessage(90)).toBe('Too many failed sign-in attempts. Try again in 2 minutes.');
+  });
+});
@@ -0,0 +1,119 @@
+import { enumField, integerField, parseBody, parseQuery, stringField } from '../requestSchema';
+import {
+  dailyMetricsQuerySchema,
+  postIdParamsSchema,
+  postsListQuerySchema,
+  recomputeDailyMetricsBodySchema,
+} from '../routeSchemas';
+
+const query = (params: Record<string, string>) => new URLSearchParams(params);
+
+describe('parseQuery', () => {
+  it('should apply defaults to missing and empty parameters', () => {
+    expect(parseQuery(postsListQuerySchema, query({ platform: '', q: '   ' }))).toEqual({
+      data: {
+        platform: undefined,
+        mediaType: undefined,
+        startDate: undefined,
+        endDate: undefined,
+        q: undefined,
+        sortField: 'posted_at',
+        sortOrder: 'desc',
+        limit: 50,
+        cursor: undefined,
+      },
+      error: null,
+    });
+  });
+
+  it('should parse typed values', () => {
+    const { data } = parseQuery(
+      postsListQuerySchema,
+      query({ platform: ' tiktok ', limit: ' 10 ', sortField: 'likes', sortOrder: 'asc', q: 'summer\u0000 launch' })
+    );
+
+    expect(data).toMatchObject({ platform: 'tiktok', limit: 10, sortField: 'likes', sortOrder: 'asc', q: 'summer launch' });
+  });
+
+  it('should list every invalid parameter', () => {
+    const result = parseQuery(postsListQuerySchema, query({ platform: 'facebook', sortOrder: 'ASC', limit: '1000' }));
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBe('platform must be one of: instagram, tiktok');
+    expect(result.details).toEqual([
+      { field: 'platform', message: 'platform must be one of: instagram, tiktok' },
+      { field: 'sortOrder', message: 'sortOrder must be one of: asc, desc' },
+      { field: 'limit', message: 'limit must be at most 100' },
+    ]);
+  });
+
+  it('should reject limits that are not positive integers', () => {
+    for (const limit of ['0', '-5', 'ten', '1.5']) {
+      expect(parseQuery(postsListQuerySchema, query({ limit })).details?.[0].field).toBe('limit');
+    }
+  });
+
+  it('should parse comma-separated metrics without duplicates', () => {
+    expect(parseQuery(dailyMetricsQuerySchema, query({ metrics: 'likes, comments,likes' })).data).toMatchObject({
+      metrics: ['likes', 'comments'],
+      granularity: 'day',
+    });
+    expect(parseQuery(dailyMetricsQuerySchema, query({ metrics: 'likes,*' })).details?.[0].field).toBe('metrics');
+    expect(parseQuery(dailyMetricsQuerySchema, query({ granularity: 'year' })).details?.[0].field).toBe('granularity');
+  });
+
+  it('should reject malformed dates', () => {
+    expect(parseQuery(dailyMetricsQuerySchema, query({ startDate: '2024/01/15' })).error).toBe(
+      'startDate must be a YYYY-MM-DD date'
+    );
+  });
+});
+
+describe('parseBody', () => {
+  it('should require an object body', () => {
+    expect(parseBody(recomputeDailyMetricsBodySchema, [])).toEqual({
+      data: null,
+      error: 'Request body must be a JSON object',
+      details: [],
+    });
+  });
+
+  it('should report missing required fields', () => {
+    expect(parseBody(recomputeDailyMetricsBodySchema, { startDate: '2024-01-01' }).details).toEqual([
+      { field: 'endDate', message: 'endDate is required' },
+    ]);
+  });
+
+  it('should canonicalize time zones', () => {
+    expect(
+      parseBody(recomputeDailyMetricsBodySchema, { startDate: '2024-01-01', endDate: '2024-01-31', timezone: 'utc' }).data
+    ).toEqual({ startDate: '2024-01-01', endDate: '2024-01-31', timezone: 'UTC' });
+  });
+
+  it('should not coerce strings in bodies', () => {
+    const schema = { likes: integerField({ minimum: 0 }) };
+
+    expect(parseBody(schema, { likes: '5' }).error).toBe('likes must be an integer');
+    expect(parseBody(schema, { likes: -1 }).error).toBe('likes must not be negative');
+  });
+
+  it('should only accept null for nullable fields', () => {
+    const schema = {
+      caption: stringField({ nullable: true }),
+      platform: enumField(['instagram'] as const, { required: true }),
+    };
+
+    expect(parseBody(schema, { caption: null, platform: 'instagram' }).data).toEqual({
+      caption: null,
+      platform: 'instagram',
+    });
+    expect(parseBody(schema, { caption: null, platform: null }).error).toBe('platform is required');
+  });
+
+  it('should lowercase post ids', () => {
+    expect(parseBody(postIdParamsSchema, { id: '9747BCAB-47CF-44FE-8001-542D7B0C9225' }).data).toEqual({
+      id: '9747bcab-47cf-44fe-8001-542d7b0c9225',
+    });
+    expect(parseBody(postIdParamsSchema, { id: '123' }).error).toBe('id must be a UUID');
+  });
+});
@@ -0,0 +1,43 @@
+import { getSearchTerms, splitHighlights } from '../search';
+
+describe('getSearchTerms', () => {
+  it('should split a query into lowercase terms', () => {
+    expect(getSearchTerms('Summer Launch')).toEqual(['summer', 'launch']);
+  });
+
+  it('should drop quotes, operators and negated terms', () => {
+    expect(getSearchTerms('"summer launch" or sale -winter')).toEqual(['summer', 'launch', 'sale']);
+  });
+
+  it('should return no terms for an empty query', () => {
+    expect(getSearchTerms('')).toEqual([]);
+    expect(getSearchTerms('   ')).toEqual([]);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('should mark words starting with a search term', () => {
+    expect(splitHighlights('Launching our summer line!', ['summer', 'launch'])).toEqual([
+      { text: 'Launching', match: true },
+      { text: ' our ', match: false },
+      { text: 'summer', match: true },
+      { text: ' line!', match: false },
+    ]);
+  });
+
+  it('should not match terms in the middle of a word', () => {
+    expect(splitHighlights('relaunch', ['launch'])).toEqual([{ text: 'relaunch', match: false }]);
+  });
+
+  it('should treat regex characters in terms literally', () => {
+    expect(splitHighlights('Price (50% off)', ['(50%'])).toEqual([{ text: 'Price (50% off)', match: false }]);
+    expect(splitHighlights('c++ tips', ['c++'])).toEqual([
+      { text: 'c++', match: true },
+      { text: ' tips', match: false },
+    ]);
+  });
+
+  it('should return the text unchanged without terms', () => {
+    expect(splitHighlights('Summer launch', [])).toEqual([{ text: 'Summer launch', match: false }]);
+  });
+});
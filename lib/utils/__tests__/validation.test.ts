@@ -2,13 +2,15 @@ import {
   validateEmail,
   validatePassword,
   validateSignupCredentials,
-  validateStringParam,
+  validatePasswordUpdate,
+  isRecentRecoverySession,
+  RECOVERY_SESSION_MAX_AGE_SECONDS,
   validateDateParam,
-  validateSortOrder,
+  validateTimeZoneParam,
+  validateUuidParam,
+  validateCreatePostPayload,
+  validateUpdatePostPayload,
   sanitizeError,
-  ALLOWED_PLATFORMS,
-  ALLOWED_MEDIA_TYPES,
-  ALLOWED_POST_SORT_FIELDS,
 } from '../validation';
 
 describe('validateEmail', () => {
@@ -46,9 +48,9 @@ describe('validateEmail', () => {
 
 describe('validatePassword', () => {
   it('should return null for valid passwords', () => {
-    expect(validatePassword('password123')).toBeNull();
-    expect(validatePassword('123456')).toBeNull(); // minimum length
-    expect(validatePassword('a'.repeat(128))).toBeNull(); // maximum length
+    expect(validatePassword('Correct-Horse9')).toBeNull();
+    expect(validatePassword('Tr0ubadr')).toBeNull(); // minimum length
+    expect(validatePassword(`Aa1${'a'.repeat(125)}`)).toBeNull(); // maximum length
   });
 
   it('should return error message for missing password', () => {
@@ -63,9 +65,26 @@ describe('validatePassword', () => {
     expect(validatePassword([])).toBe('Password must be a string');
   });
 
-  it('should return error message for password shorter than 6 characters', () => {
-    expect(validatePassword('12345')).toBe('Password must be at least 6 characters');
-    expect(validatePassword('abc')).toBe('Password must be at least 6 characters');
+  it('should return error message for password shorter than the minimum length', () => {
+    expect(validatePassword('Tr0ubad')).toBe('Password must be at least 8 characters');
+    expect(validatePassword('abc')).toBe('Password must be at least 8 characters');
+  });
+
+  it('should return error message for missing character classes', () => {
+    expect(validatePassword('correct-horse9')).toBe('Password must contain an uppercase letter');
+    expect(validatePassword('CORRECT-HORSE9')).toBe('Password must contain a lowercase letter');
+    expect(validatePassword('Correct-Horse')).toBe('Password must contain a number');
+  });
+
+  it('should reject common passwords', () => {
+    expect(validatePassword('Password123')).toBe('This password is too common. Choose one that is harder to guess');
+    expect(validatePassword('Qwerty2024!')).toBe('This password is too common. Choose one that is harder to guess');
+  });
+
+  it('should apply the given policy', () => {
+    const policy = { minLength: 6, characterClasses: [], rejectCommonPasswords: false };
+    expect(validatePassword('123456', policy)).toBeNull();
+    expect(validatePassword('12345', policy)).toBe('Password must be at least 6 characters');
   });
 
   it('should return error message for password longer than 128 characters', () => {
@@ -76,7 +95,7 @@ describe('validatePassword', () => {
 
 describe('validateSignupCredentials', () => {
   it('should return null for valid credentials', () => {
-    expect(validateSignupCredentials('test@example.com', 'password123')).toBeNull();
+    expect(validateSignupCredentials('test@example.com', 'Correct-Horse9')).toBeNull();
   });
 
   it('should return email error if email is invalid', () => {
@@ -85,7 +104,7 @@ describe('validateSignupCredentials', () => {
   });
 
   it('should return password error if password is invalid', () => {
-    expect(validateSignupCredentials('test@example.com', 'short')).toBe('Password must be at least 6 characters');
+    expect(validateSignupCredentials('test@example.com', 'short')).toBe('Password must be at least 8 characters');
     expect(validateSignupCredentials('test@example.com', null)).toBe('Password is required');
   });
 
@@ -94,42 +113,56 @@ describe('validateSignupCredentials', () => {
   });
 });
 
-describe('validateStringParam', () => {
-  it('should return null for null or empty values', () => {
-    expect(validateStringParam(null)).toBeNull();
-    expect(validateStringParam('')).toBeNull();
+describe('validatePasswordUpdate', () => {
+  it('should return null for a valid new password', () => {
+    expect(validatePasswordUpdate('New-Password9')).toBeNull();
+    expect(validatePasswordUpdate('New-Password9', 'Old-Password9')).toBeNull();
   });
 
-  it('should return null for non-string values', () => {
-    expect(validateStringParam(123 as any)).toBeNull();
-    expect(validateStringParam({} as any)).toBeNull();
+  it('should apply the password requirements', () => {
+    expect(validatePasswordUpdate('short', 'Old-Password9')).toBe('Password must be at least 8 characters');
+    expect(validatePasswordUpdate(undefined)).toBe('Password is required');
   });
 
-  it('should return sanitized value for valid alphanumeric strings', () => {
-    expect(validateStringParam('test123')).toBe('test123');
-    expect(validateStringParam('test_123')).toBe('test_123');
-    expect(validateStringParam('test-123')).toBe('test-123');
-    expect(validateStringParam('test 123')).toBe('test 123');
+  it('should reject reusing the current password', () => {
+    expect(validatePasswordUpdate('Correct-Horse9', 'Correct-Horse9')).toBe(
+      'New password must be different from your current password'
+    );
   });
+});
 
-  it('should trim whitespace', () => {
-    expect(validateStringParam('  test  ')).toBe('test');
+describe('isRecentRecoverySession', () => {
+  const now = Date.UTC(2026, 9, 19, 12, 0, 0);
+  const secondsAgo = (seconds: number) => now / 1000 - seconds;
+
+  it('should accept a session a reset link just signed in', () => {
+    expect(isRecentRecoverySession([{ method: 'recovery', timestamp: secondsAgo(60) }], now)).toBe(true);
+    expect(
+      isRecentRecoverySession(
+        [
+          { method: 'password', timestamp: secondsAgo(3600) },
+          { method: 'recovery', timestamp: secondsAgo(RECOVERY_SESSION_MAX_AGE_SECONDS) },
+        ],
+        now
+      )
+    ).toBe(true);
   });
 
-  it('should return null for strings with invalid characters', () => {
-    expect(validateStringParam('test@123')).toBeNull();
-    expect(validateStringParam('test<script>')).toBeNull();
-    expect(validateStringParam('test; DROP TABLE')).toBeNull();
+  it('should require the current password from any other session', () => {
+    expect(isRecentRecoverySession([{ method: 'password', timestamp: secondsAgo(60) }], now)).toBe(false);
+    expect(isRecentRecoverySession([{ method: 'otp', timestamp: secondsAgo(60) }], now)).toBe(false);
+    expect(isRecentRecoverySession([], now)).toBe(false);
+    expect(isRecentRecoverySession(undefined, now)).toBe(false);
   });
 
-  it('should validate against allowed values when provided', () => {
-    expect(validateStringParam('instagram', ALLOWED_PLATFORMS)).toBe('instagram');
-    expect(validateStringParam('facebook', ALLOWED_PLATFORMS)).toBe('facebook');
-    expect(validateStringParam('invalid', ALLOWED_PLATFORMS)).toBeNull();
+  it('should require the current password once the reset link session is too old', () => {
+    expect(
+      isRecentRecoverySession([{ method: 'recovery', timestamp: secondsAgo(RECOVERY_SESSION_MAX_AGE_SECONDS + 1) }], now)
+    ).toBe(false);
   });
 
-  it('should be case-sensitive when checking allowed values', () => {
-    expect(validateStringParam('Instagram', ALLOWED_PLATFORMS)).toBeNull();
+  it('should not trust amr entries without a timestamp', () => {
+    expect(isRecentRecoverySession(['recovery'], now)).toBe(false);
   });
 });
 
@@ -170,17 +203,127 @@ describe('validateDateParam', () => {
   });
 });
 
-describe('validateSortOrder', () => {
-  it('should return the value for valid sort orders', () => {
-    expect(validateSortOrder('asc')).toBe('asc');
-    expect(validateSortOrder('desc')).toBe('desc');
+describe('validateTimeZoneParam', () => {
+  it('should return the canonical name of known time zones', () => {
+    expect(validateTimeZoneParam('Europe/Paris')).toBe('Europe/Paris');
+    expect(validateTimeZoneParam('utc')).toBe('UTC');
   });
 
-  it('should return default "desc" for invalid values', () => {
-    expect(validateSortOrder(null)).toBe('desc');
-    expect(validateSortOrder('invalid')).toBe('desc');
-    expect(validateSortOrder('ASC')).toBe('desc'); // case-sensitive
-    expect(validateSortOrder('')).toBe('desc');
+  it('should return null for unknown or non-string values', () => {
+    expect(validateTimeZoneParam('Mars/Olympus_Mons')).toBeNull();
+    expect(validateTimeZoneParam('')).toBeNull();
+    expect(validateTimeZoneParam(undefined)).toBeNull();
+    expect(validateTimeZoneParam(60)).toBeNull();
+  });
+});
+
+describe('validateUuidParam', () => {
+  it('should return the lowercased id for valid UUIDs', () => {
+    expect(validateUuidParam('9747bcab-47cf-44fe-8001-542d7b0c9225')).toBe('9747bcab-47cf-44fe-8001-542d7b0c9225');
+    expect(validateUuidParam('9747BCAB-47CF-44FE-8001-542D7B0C9225')).toBe('9747bcab-47cf-44fe-8001-542d7b0c9225');
+  });
+
+  it('should return null for missing or malformed ids', () => {
+    expect(validateUuidParam(null)).toBeNull();
+    expect(validateUuidParam(undefined)).toBeNull();
+    expect(validateUuidParam('123')).toBeNull();
+    expect(validateUuidParam("9747bcab-47cf-44fe-8001-542d7b0c9225' OR 1=1")).toBeNull();
+  });
+});
+
+describe('validateCreatePostPayload', () => {
+  const validBody = {
+    platform: 'instagram',
+    mediaType: 'image',
+    postedAt: '2024-01-15T10:00:00Z',
+    caption: 'Summer launch',
+    likes: 10,
+    reach: 100,
+  };
+
+  it('should map a valid body to post columns', () => {
+    const { data, error } = validateCreatePostPayload(validBody);
+    expect(error).toBeNull();
+    expect(data).toEqual({
+      platform: 'instagram',
+      media_type: 'image',
+      posted_at: '2024-01-15T10:00:00.000Z',
+      caption: 'Summer launch',
+      likes: 10,
+      reach: 100,
+    });
+  });
+
+  it('should ignore user ids, workspace ids and engagement rates supplied in the body', () => {
+    const { data } = validateCreatePostPayload({
+      ...validBody,
+      workspace_id: 'another-workspace',
+      user_id: 'someone-else',
+      userId: 'someone-else',
+      engagementRate: 99,
+    });
+    expect(data).not.toHaveProperty('workspace_id');
+    expect(data).not.toHaveProperty('user_id');
+    expect(data).not.toHaveProperty('userId');
+    expect(data).not.toHaveProperty('engagement_rate');
+  });
+
+  it('should reject non-object bodies', () => {
+    expect(validateCreatePostPayload(null).error).toBe('Request body must be a JSON object');
+    expect(validateCreatePostPayload([]).error).toBe('Request body must be a JSON object');
+    expect(validateCreatePostPayload('post').error).toBe('Request body must be a JSON object');
+  });
+
+  it('should require platform, mediaType and postedAt', () => {
+    expect(validateCreatePostPayload({ ...validBody, platform: undefined }).error).toBe('platform is required');
+    expect(validateCreatePostPayload({ ...validBody, mediaType: undefined }).error).toBe('mediaType is required');
+    expect(validateCreatePostPayload({ ...validBody, postedAt: undefined }).error).toBe('postedAt is required');
+  });
+
+  it('should only accept platforms and media types allowed by the database', () => {
+    expect(validateCreatePostPayload({ ...validBody, platform: 'facebook' }).error).toContain('platform must be one of');
+    expect(validateCreatePostPayload({ ...validBody, mediaType: 'story' }).error).toContain('mediaType must be one of');
+  });
+
+  it('should reject invalid dates, counters and URLs', () => {
+    expect(validateCreatePostPayload({ ...validBody, postedAt: 'yesterday' }).error).toBe('postedAt must be a valid ISO date');
+    expect(validateCreatePostPayload({ ...validBody, likes: -1 }).error).toBe('likes must not be negative');
+    expect(validateCreatePostPayload({ ...validBody, reach: 1.5 }).error).toBe('reach must be an integer');
+    expect(validateCreatePostPayload({ ...validBody, shares: '5' }).error).toBe('shares must be an integer');
+    expect(validateCreatePostPayload({ ...validBody, permalink: 'javascript:alert(1)' }).error).toBe('permalink must use http or https');
+    expect(validateCreatePostPayload({ ...validBody, thumbnailUrl: 'not a url' }).error).toBe('thumbnailUrl must be a valid URL');
+  });
+
+  it('should report every invalid field', () => {
+    const result = validateCreatePostPayload({ ...validBody, platform: undefined, postedAt: 'yesterday', likes: -1 });
+
+    expect(result.error).toBe('platform is required');
+    expect(result.details).toEqual([
+      { field: 'platform', message: 'platform is required' },
+      { field: 'postedAt', message: 'postedAt must be a valid ISO date' },
+      { field: 'likes', message: 'likes must not be negative' },
+    ]);
+  });
+});
+
+describe('validateUpdatePostPayload', () => {
+  it('should accept partial updates', () => {
+    expect(validateUpdatePostPayload({ likes: 5 })).toEqual({ data: { likes: 5 }, error: null });
+    expect(validateUpdatePostPayload({ caption: null })).toEqual({ data: { caption: null }, error: null });
+  });
+
+  it('should reject bodies without updatable fields', () => {
+    expect(validateUpdatePostPayload({}).error).toBe('No updatable fields provided');
+    expect(validateUpdatePostPayload({ engagementRate: 10 }).error).toBe('No updatable fields provided');
+  });
+
+  it('should validate the fields that are present', () => {
+    expect(validateUpdatePostPayload({ comments: -3 }).error).toBe('comments must not be negative');
+    expect(validateUpdatePostPayload({ platform: 'youtube' }).error).toContain('platform must be one of');
+    expect(validateUpdatePostPayload({ comments: -3, reach: 1.5 }).details).toEqual([
+      { field: 'comments', message: 'comments must not be negative' },
+      { field: 'reach', message: 'reach must be an integer' },
+    ]);
   });
 });
 
@@ -237,37 +380,3 @@ describe('sanitizeError', () => {
     expect(sanitizeError(error, 'An error occurred')).toBe('An error occurred');
   });
 });
-
-describe('Constants', () => {
-  it('should have correct allowed platforms', () => {
-    expect(ALLOWED_PLATFORMS).toContain('all');
-    expect(ALLOWED_PLATFORMS).toContain('instagram');
-    expect(ALLOWED_PLATFORMS).toContain('facebook');
-    expect(ALLOWED_PLATFORMS).toContain('twitter');
-    expect(ALLOWED_PLATFORMS).toContain('linkedin');
-    expect(ALLOWED_PLATFORMS).toContain('tiktok');
-    expect(ALLOWED_PLATFORMS).toContain('youtube');
-  });
-
-  it('should have correct allowed media types', () => {
-    expect(ALLOWED_MEDIA_TYPES).toContain('all');
-    expect(ALLOWED_MEDIA_TYPES).toContain('image');
-    expect(ALLOWED_MEDIA_TYPES).toContain('video');
-    expect(ALLOWED_MEDIA_TYPES).toContain('carousel');
-    expect(ALLOWED_MEDIA_TYPES).toContain('reel');
-    expect(ALLOWED_MEDIA_TYPES).toContain('story');
-  });
-
-  it('should have correct allowed post sort fields', () => {
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('posted_at');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('impressions');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('likes');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('comments');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('shares');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('reach');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('engagement_rate');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('platform');
-    expect(ALLOWED_POST_SORT_FIELDS).toContain('media_type');
-  });
-});
-
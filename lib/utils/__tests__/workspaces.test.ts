@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  getRequiredWorkspaceRole,
+  hasWorkspaceRole,
+  pickActiveWorkspace,
+  WORKSPACE_ROLES,
+  type WorkspaceMembership,
+} from '../workspaces';
+
+describe('hasWorkspaceRole', () => {
+  it('should grant each role what the roles below it can do', () => {
+    expect(hasWorkspaceRole('owner', 'admin')).toBe(true);
+    expect(hasWorkspaceRole('admin', 'analyst')).toBe(true);
+    expect(hasWorkspaceRole('analyst', 'analyst')).toBe(true);
+    expect(hasWorkspaceRole('analyst', 'viewer')).toBe(true);
+  });
+
+  it('should refuse roles below the required one', () => {
+    expect(hasWorkspaceRole('viewer', 'analyst')).toBe(false);
+    expect(hasWorkspaceRole('analyst', 'admin')).toBe(false);
+    expect(hasWorkspaceRole('admin', 'owner')).toBe(false);
+  });
+});
+
+describe('getRequiredWorkspaceRole', () => {
+  it('should let viewers read and require analysts for changes', () => {
+    expect(getRequiredWorkspaceRole('GET')).toBe('viewer');
+    expect(getRequiredWorkspaceRole('head')).toBe('viewer');
+    for (const method of ['POST', 'PATCH', 'PUT', 'DELETE']) {
+      expect(getRequiredWorkspaceRole(method)).toBe('analyst');
+    }
+  });
+
+  it('should match the roles the posts and daily_metrics write policies allow', () => {
+    const sql = readFileSync(join(__dirname, '../../../supabase/migrations/workspaces.sql'), 'utf8');
+    const writers = WORKSPACE_ROLES.filter((role) => hasWorkspaceRole(role, getRequiredWorkspaceRole('POST')));
+
+    const policies = Array.from(
+      sql.matchAll(
+        /ON (posts|daily_metrics) FOR (?:INSERT|UPDATE|DELETE)\s+(?:USING|WITH CHECK) \(has_workspace_role\(workspace_id, ARRAY\[([^\]]*)\]/g
+      )
+    );
+
+    expect(policies).toHaveLength(6);
+    for (const [, table, roles] of policies) {
+      expect({ table, roles: roles.split(',').map((role) => role.trim().replace(/^'|'$/g, '')) }).toEqual({
+        table,
+        roles: writers,
+      });
+    }
+  });
+});
+
+describe('workspace settings', () => {
+  it('should only be writable by the roles PATCH /api/workspace requires', () => {
+    const sql = readFileSync(join(__dirname, '../../../supabase/migrations/workspace_timezone.sql'), 'utf8');
+    const policy = /ON workspaces FOR UPDATE\s+USING \(has_workspace_role\(id, ARRAY\[([^\]]*)\]/.exec(sql);
+
+    expect(policy?.[1].split(',').map((role) => role.trim().replace(/^'|'$/g, ''))).toEqual(
+      WORKSPACE_ROLES.filter((role) => hasWorkspaceRole(role, 'admin'))
+    );
+  });
+});
+
+describe('workspace invitations', () => {
+  const sql = readFileSync(join(__dirname, '../../../supabase/migrations/workspace_invitations.sql'), 'utf8');
+
+  it('should only be created and changed by the roles POST /api/workspace/members requires', () => {
+    const policies = Array.from(
+      sql.matchAll(/ON workspace_invitations FOR (?:INSERT|UPDATE)[\s\S]*?;/g),
+      ([policy]) => Array.from(policy.matchAll(/has_workspace_role\(workspace_id, ARRAY\[([^\]]*)\]/g), ([, roles]) => roles)
+    );
+
+    expect(policies).toHaveLength(2);
+    for (const roles of policies) {
+      const allowed = new Set(roles.flatMap((list) => list.split(',').map((role) => role.trim().replace(/^'|'$/g, ''))));
+      expect([...allowed].sort()).toEqual(WORKSPACE_ROLES.filter((role) => hasWorkspaceRole(role, 'admin')).sort());
+    }
+  });
+
+  it('should never look accounts up by an email the caller chose', () => {
+    // auth.users is only read for the caller's own row, so invitations can't reveal who has an account
+    const lookups = Array.from(sql.matchAll(/FROM auth\.users WHERE ([^;]*);/g), ([, condition]) => condition);
+
+    expect(lookups).toEqual(['id = auth.uid() AND email_confirmed_at IS NOT NULL']);
+  });
+});
+
+describe('pickActiveWorkspace', () => {
+  const memberships: WorkspaceMembership[] = [
+    { id: 'personal', name: 'Personal', timezone: 'UTC', role: 'owner' },
+    { id: 'team', name: 'Team', timezone: 'Europe/Paris', role: 'viewer' },
+  ];
+
+  it('should pick the requested workspace', () => {
+    expect(pickActiveWorkspace(memberships, 'team')).toBe(memberships[1]);
+  });
+
+  it('should default to the oldest membership', () => {
+    expect(pickActiveWorkspace(memberships)).toBe(memberships[0]);
+    expect(pickActiveWorkspace(memberships, null)).toBe(memberships[0]);
+    expect(pickActiveWorkspace(memberships, '')).toBe(memberships[0]);
+  });
+
+  it('should return null for workspaces the user is not a member of', () => {
+    expect(pickActiveWorkspace(memberships, 'someone-elses')).toBeNull();
+    expect(pickActiveWorkspace([])).toBeNull();
+  });
+});
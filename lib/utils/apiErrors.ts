@@ -0,0 +1,151 @@
+/**
+ * The API response envelope shared by every route and the hooks that call them.
+ * Free of server-only imports, so the browser can use the types and ApiError.
+ *
+ * Success: `{ success: true, data, requestId, ...meta }`
+ * Failure: `{ success: false, error: { code, message, details?, requestId } }`
+ */
+
+/**
+ * Machine-readable error codes. The UI branches on these, never on messages.
+ */
+export const API_ERROR_CODES = [
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'VALIDATION_FAILED',
+  'NOT_FOUND',
+  'RATE_LIMITED',
+  'INTERNAL',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * HTTP status sent with each error code unless a route overrides it
+ */
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  VALIDATION_FAILED: 400,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+};
+
+/**
+ * A problem with one request field (query parameter or body property)
+ */
+export interface ApiFieldError {
+  field: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  details?: ApiFieldError[];
+  requestId: string;
+}
+
+export type ApiSuccessResponse<T, TMeta extends object = object> = TMeta & {
+  success: true;
+  data: T;
+  requestId: string;
+};
+
+export interface ApiErrorResponse {
+  success: false;
+  error: ApiErrorBody;
+}
+
+export type ApiResponse<T, TMeta extends object = object> = ApiSuccessResponse<T, TMeta> | ApiErrorResponse;
+
+/**
+ * Error thrown by the hooks when a route responds with an error envelope.
+ * `requestId` identifies the request in the server logs.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details: ApiFieldError[];
+  readonly requestId: string | null;
+
+  constructor(body: Omit<ApiErrorBody, 'requestId'> & { requestId?: string | null }, status: number) {
+    super(body.message);
+    this.name = 'ApiError';
+    this.code = body.code;
+    this.status = status;
+    this.details = body.details ?? [];
+    this.requestId = body.requestId ?? null;
+  }
+}
+
+function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ApiErrorBody).message === 'string' &&
+    (API_ERROR_CODES as readonly string[]).includes((value as ApiErrorBody).code)
+  );
+}
+
+/**
+ * Reads a route's JSON envelope, returning it on success and throwing ApiError otherwise.
+ * Responses that aren't an envelope (e.g. a proxy's HTML error page) become an error with
+ * a code inferred from the status and `fallbackMessage`.
+ */
+export async function readApiResponse<T, TMeta extends object = object>(
+  response: Response,
+  fallbackMessage: string
+): Promise<ApiSuccessResponse<T, TMeta>> {
+  const body = (await response.json().catch(() => null)) as ApiResponse<T, TMeta> | null;
+
+  if (response.ok && body?.success) {
+    return body;
+  }
+
+  if (body && !body.success && isApiErrorBody(body.error)) {
+    throw new ApiError(body.error, response.status);
+  }
+
+  const code =
+    (Object.keys(API_ERROR_STATUS) as ApiErrorCode[]).find((key) => API_ERROR_STATUS[key] === response.status) ??
+    'INTERNAL';
+  throw new ApiError({ code, message: fallbackMessage }, response.status);
+}
+
+/**
+ * TanStack Query retry policy: retry network and server failures, but not errors
+ * that would fail the same way again (bad input, signed out, missing rows, rate limits).
+ */
+export function shouldRetryRequest(failureCount: number, error: unknown): boolean {
+  if (error instanceof ApiError && error.status < 500) {
+    return false;
+  }
+  return failureCount < 3;
+}
+
+/**
+ * User-facing text for an error thrown by the hooks.
+ * Server errors include the request id so a report can be matched to the logs.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof ApiError)) {
+    return error instanceof Error ? error.message : fallback;
+  }
+
+  switch (error.code) {
+    case 'UNAUTHORIZED':
+      return 'Your session has expired. Please sign in again.';
+    case 'RATE_LIMITED':
+      return 'Too many requests. Please wait a moment and try again.';
+    case 'VALIDATION_FAILED':
+      return error.details.length > 0
+        ? error.details.map((detail) => detail.message).join('; ')
+        : error.message;
+    case 'INTERNAL':
+      return error.requestId ? `${error.message} (request ${error.requestId})` : error.message;
+    default:
+      return error.message;
+  }
+}
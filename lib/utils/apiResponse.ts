@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import {
+  API_ERROR_STATUS,
+  type ApiErrorCode,
+  type ApiErrorResponse,
+  type ApiFieldError,
+  type ApiSuccessResponse,
+} from '@/lib/utils/apiErrors';
+
+/**
+ * Builders for the API response envelope (see apiErrors.ts).
+ * Edge-safe, so Edge routes and the middleware can use them too.
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Ids forwarded by a proxy are echoed back, so they must be short and header-safe
+const FORWARDED_REQUEST_ID = /^[\w.:-]{8,128}$/;
+
+/**
+ * The request's id: the one sent in `x-request-id` (e.g. by a load balancer) when present
+ * and well-formed, otherwise a new UUID.
+ */
+export function getRequestId(request?: Request | null): string {
+  const forwarded = request?.headers.get(REQUEST_ID_HEADER);
+  return forwarded && FORWARDED_REQUEST_ID.test(forwarded) ? forwarded : crypto.randomUUID();
+}
+
+interface ApiSuccessInit<TMeta extends object> {
+  status?: number;
+  headers?: HeadersInit;
+  // Extra top-level fields next to `data`, e.g. `{ nextCursor }`
+  meta?: TMeta;
+}
+
+/**
+ * `{ success: true, data, requestId, ...meta }` with the request id also sent as a header.
+ */
+export function apiSuccess<T, TMeta extends object = object>(
+  request: Request | null,
+  data: T,
+  { status = 200, headers, meta }: ApiSuccessInit<TMeta> = {}
+): NextResponse<ApiSuccessResponse<T, TMeta>> {
+  const requestId = getRequestId(request);
+  const response = NextResponse.json(
+    { ...(meta as TMeta), success: true as const, data, requestId },
+    { status, headers }
+  );
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+interface ApiErrorInit {
+  // Defaults to the code's status in API_ERROR_STATUS
+  status?: number;
+  headers?: HeadersInit;
+  details?: ApiFieldError[];
+}
+
+/**
+ * `{ success: false, error: { code, message, details?, requestId } }`.
+ * Messages are shown to users, so never pass raw database or library errors here.
+ */
+export function apiError(
+  request: Request | null,
+  code: ApiErrorCode,
+  message: string,
+  { status, headers, details }: ApiErrorInit = {}
+): NextResponse<ApiErrorResponse> {
+  const requestId = getRequestId(request);
+  const response = NextResponse.json(
+    {
+      success: false as const,
+      error: {
+        code,
+        message,
+        ...(details && details.length > 0 ? { details } : {}),
+        requestId,
+      },
+    },
+    { status: status ?? API_ERROR_STATUS[code], headers }
+  );
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+/**
+ * VALIDATION_FAILED with `message`, listed as a field detail when the offending field is known.
+ */
+export function apiValidationError(request: Request | null, message: string, field?: string) {
+  return apiError(request, 'VALIDATION_FAILED', message, field ? { details: [{ field, message }] } : {});
+}
+
+/**
+ * VALIDATION_FAILED for a failed parseQuery / parseBody result, listing every invalid field.
+ */
+export function apiSchemaError(request: Request | null, { error, details }: { error: string; details: ApiFieldError[] }) {
+  return apiError(request, 'VALIDATION_FAILED', error, { details });
+}
+
+/**
+ * RATE_LIMITED with a `Retry-After` header, so clients know when to try again.
+ */
+export function apiRateLimitError(
+  request: Request | null,
+  retryAfterSeconds: number,
+  message = 'Too many requests. Please try again later.'
+) {
+  return apiError(request, 'RATE_LIMITED', message, { headers: { 'Retry-After': String(retryAfterSeconds) } });
+}
@@ -0,0 +1,104 @@
+/**
+ * Personal API tokens: `Authorization: Bearer ak_...` for scripts that can't hold a cookie session.
+ *
+ * Only a SHA-256 hash of each token is stored (see api_tokens.sql); the token itself is shown
+ * once, when it is created. withAuth looks the hash up, then signs a short-lived Supabase access
+ * token for the owner, so every query still runs as that user under RLS.
+ *
+ * Edge-safe: only Web Crypto is used.
+ */
+
+export const API_TOKEN_SCOPES = ['read', 'write'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// Makes tokens recognizable, e.g. by secret scanners
+export const API_TOKEN_PREFIX = 'ak_';
+
+// Characters of a token kept in plain text, so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+/**
+ * Longest lifetime a token can be created with; tokens without an expiry never expire
+ */
+export const MAX_API_TOKEN_LIFETIME_DAYS = 365;
+
+/**
+ * Lifetime of the Supabase access tokens signed for API token requests. Each request signs a new one.
+ */
+export const API_ACCESS_TOKEN_TTL_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Hex SHA-256 of a token: the value stored in api_tokens.token_hash
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token)));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A new random token (256 bits), with the hash and display prefix to store
+ */
+export async function generateApiToken(): Promise<{ token: string; hash: string; prefix: string }> {
+  const token = `${API_TOKEN_PREFIX}${toBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+
+  return { token, hash: await hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * The token of an `Authorization: Bearer <token>` header, or null when the header is absent
+ * or uses another scheme. Any bearer value is returned, so unknown tokens fail with a 401
+ * instead of falling back to the cookie session.
+ */
+export function parseBearerToken(authorization: string | null | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Scope a request method needs: reads need `read`, anything that changes data needs `write`
+ */
+export function getRequiredScope(method: string): ApiTokenScope {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+}
+
+/**
+ * Signs (HS256) a Supabase access token for `userId` with the project's JWT secret,
+ * so PostgREST treats requests as that user and auth.uid() / RLS apply as for a session.
+ */
+export async function signAccessToken(userId: string, jwtSecret: string, now: number = Date.now()): Promise<string> {
+  const issuedAt = Math.floor(now / 1000);
+  const encodeJson = (value: object) => toBase64Url(encoder.encode(JSON.stringify(value)));
+
+  const input = [
+    encodeJson({ alg: 'HS256', typ: 'JWT' }),
+    encodeJson({
+      sub: userId,
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: issuedAt,
+      exp: issuedAt + API_ACCESS_TOKEN_TTL_SECONDS,
+    }),
+  ].join('.');
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(jwtSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(input)));
+
+  return `${input}.${toBase64Url(signature)}`;
+}
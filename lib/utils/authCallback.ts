@@ -0,0 +1,68 @@
+/**
+ * Helpers for /auth/callback, where links emailed by Supabase Auth (signup confirmation,
+ * magic links) land. Client-safe: the login page reads the error codes the callback redirects with.
+ */
+
+/**
+ * Why a link couldn't sign the user in, sent to the login page as `?error=`
+ */
+export const AUTH_CALLBACK_ERRORS = {
+  link_expired: 'This link has expired. Request a new one below.',
+  link_other_browser:
+    'Open the link in the browser you requested it from. If you were confirming your email, it is confirmed: sign in below.',
+  link_invalid: 'This link is invalid or has already been used. Request a new one below.',
+} as const;
+
+export type AuthCallbackError = keyof typeof AUTH_CALLBACK_ERRORS;
+
+/**
+ * Message for a login page `?error=` value; null for values the callback never sends
+ */
+export function getAuthCallbackErrorMessage(error: string | null | undefined): string | null {
+  return error && Object.hasOwn(AUTH_CALLBACK_ERRORS, error) ? AUTH_CALLBACK_ERRORS[error as AuthCallbackError] : null;
+}
+
+/**
+ * Classifies a failed link: the `error_code` / `error_description` Supabase redirects with,
+ * or the message of a failed code exchange
+ */
+export function classifyAuthCallbackError(details: { code?: string | null; message?: string | null }): AuthCallbackError {
+  const code = details.code?.toLowerCase() ?? '';
+  const message = details.message?.toLowerCase() ?? '';
+
+  if (code === 'otp_expired' || code === 'flow_state_expired' || message.includes('expired')) {
+    return 'link_expired';
+  }
+
+  // PKCE: the code verifier cookie lives in the browser that requested the link
+  if (message.includes('code verifier') || message.includes('code_verifier')) {
+    return 'link_other_browser';
+  }
+
+  return 'link_invalid';
+}
+
+/**
+ * Where to send the user after the callback: `next` if it is a path on this site (`origin`),
+ * otherwise `fallback`. `next` is resolved the way the redirect will be, so absolute and
+ * protocol-relative URLs, including ones disguised with backslashes or control characters
+ * (`/%09/evil.example`), are rejected (open redirects).
+ */
+export function getSafeRedirectPath(next: string | null | undefined, origin: string, fallback = '/dashboard'): string {
+  if (!next?.startsWith('/')) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(next, origin);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== new URL(origin).origin) {
+    return fallback;
+  }
+
+  return url.pathname + url.search + url.hash;
+}
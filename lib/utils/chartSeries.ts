@@ -0,0 +1,98 @@
+import {
+  getBucketOffset,
+  type DailyMetricGranularity,
+  type DailyMetricKey,
+} from '@/lib/utils/dailyMetrics';
+import { countDays } from '@/lib/utils/dateRange';
+
+/**
+ * Series that EngagementChart can plot, in legend and stacking order.
+ */
+export type ChartSeriesKey = Extract<DailyMetricKey, 'engagement' | 'reach' | 'impressions'>;
+
+export interface ChartSeries {
+  key: ChartSeriesKey;
+  label: string;
+  color: string;
+}
+
+export const CHART_SERIES: ChartSeries[] = [
+  { key: 'engagement', label: 'Engagement', color: '#3b82f6' },
+  { key: 'reach', label: 'Reach', color: '#10b981' },
+  { key: 'impressions', label: 'Impressions', color: '#f59e0b' },
+];
+
+export const CHART_SERIES_KEYS = CHART_SERIES.map((series) => series.key);
+
+export type ChartAxis = 'left' | 'right';
+
+// A series this many times smaller than the largest one would look flat on a shared axis
+const SECONDARY_AXIS_RATIO = 5;
+
+/**
+ * Assigns each visible series to the left or right y-axis.
+ * The series with the largest peak always uses the left axis; series whose peak is
+ * more than SECONDARY_AXIS_RATIO times smaller move to the right axis.
+ */
+export function assignSeriesAxes(
+  peaks: Partial<Record<ChartSeriesKey, number>>,
+  visible: ChartSeriesKey[]
+): Record<ChartSeriesKey, ChartAxis> {
+  const axes = {} as Record<ChartSeriesKey, ChartAxis>;
+  const largestPeak = Math.max(0, ...visible.map((key) => peaks[key] ?? 0));
+
+  for (const key of visible) {
+    const peak = peaks[key] ?? 0;
+    axes[key] = peak > 0 && peak * SECONDARY_AXIS_RATIO < largestPeak ? 'right' : 'left';
+  }
+
+  return axes;
+}
+
+/**
+ * Adds a series to the visible set, or removes it unless it is the last one.
+ * The result keeps CHART_SERIES order so stacking and legends stay stable.
+ */
+export function toggleSeries(visible: ChartSeriesKey[], key: ChartSeriesKey): ChartSeriesKey[] {
+  if (visible.includes(key)) {
+    return visible.length > 1 ? visible.filter((k) => k !== key) : visible;
+  }
+
+  return CHART_SERIES_KEYS.filter((k) => k === key || visible.includes(k));
+}
+
+/**
+ * Indexes points by their bucket offset from `startDate` (0 = the bucket the range starts in).
+ * Looking up the same offset in two periods lines them up day by day (or week by week, month
+ * by month), even when either period is missing buckets.
+ */
+export function indexByBucketOffset<T extends { date: string }>(
+  points: T[],
+  startDate: string,
+  granularity: DailyMetricGranularity = 'day'
+): Map<number, T> {
+  return new Map(points.map((point) => [getBucketOffset(point.date, startDate, granularity), point]));
+}
+
+/**
+ * The chart's bucket size: 'auto' picks one from the length of the range.
+ */
+export type ChartGranularity = DailyMetricGranularity | 'auto';
+
+export const CHART_GRANULARITIES: { value: ChartGranularity; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+/**
+ * Default bucket size for a `YYYY-MM-DD` range: daily up to 90 days,
+ * weekly up to a year, monthly beyond that.
+ */
+export function getDefaultGranularity(startDate: string, endDate: string): DailyMetricGranularity {
+  const days = countDays(startDate, endDate);
+  if (days > 366) return 'month';
+  if (days > 90) return 'week';
+  return 'day';
+}
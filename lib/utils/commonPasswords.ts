@@ -0,0 +1,240 @@
+/**
+ * Commonly used and breached passwords, lowercase, checked offline by passwordPolicy.ts.
+ * Drawn from the most frequent entries of public breach corpora, plus the variants that
+ * satisfy character-class rules once capitalized (e.g. "Password1").
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '0123456789',
+  '111111',
+  '11111111',
+  '000000',
+  '00000000',
+  '121212',
+  '123123',
+  '123123123',
+  '123321',
+  '654321',
+  '666666',
+  '696969',
+  '112233',
+  '159753',
+  '987654321',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'zaq12wsx',
+  'q1w2e3r4',
+  'q1w2e3r4t5',
+  'qazwsx',
+  'qazwsx123',
+  'qwerty',
+  'qwerty1',
+  'qwerty12',
+  'qwerty123',
+  'qwerty1!',
+  'qwertyuiop',
+  'asdfgh',
+  'asdfghjkl',
+  'asdf1234',
+  'zxcvbnm',
+  'zxcvbn',
+  'abc123',
+  'abc12345',
+  'abcd1234',
+  'abcdef',
+  'abcdefg',
+  'abcdefgh',
+  'a1b2c3',
+  'a1b2c3d4',
+  'aa123456',
+  'password',
+  'password1',
+  'password12',
+  'password123',
+  'password1!',
+  'password!',
+  'passw0rd',
+  'passw0rd!',
+  'p@ssw0rd',
+  'p@ssword',
+  'p@ssword1',
+  'pass1234',
+  'passpass',
+  'changeme',
+  'changeme1',
+  'default',
+  'secret',
+  'secret123',
+  'letmein',
+  'letmein1',
+  'letmein123',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'welcome1!',
+  'iloveyou',
+  'iloveyou1',
+  'iloveyou2',
+  'loveyou',
+  'lovely',
+  'trustno1',
+  'admin',
+  'admin1',
+  'admin123',
+  'admin@123',
+  'administrator',
+  'root',
+  'toor',
+  'guest',
+  'login',
+  'master',
+  'master123',
+  'access',
+  'access14',
+  'hello',
+  'hello123',
+  'hello1',
+  'whatever',
+  'freedom',
+  'starwars',
+  'pokemon',
+  'computer',
+  'internet',
+  'killer',
+  'shadow',
+  'shadow1',
+  'sunshine',
+  'sunshine1',
+  'princess',
+  'princess1',
+  'dragon',
+  'dragon1',
+  'dragon123',
+  'monkey',
+  'monkey1',
+  'monkey123',
+  'football',
+  'football1',
+  'baseball',
+  'baseball1',
+  'basketball',
+  'soccer',
+  'hockey',
+  'superman',
+  'superman1',
+  'batman',
+  'batman123',
+  'spiderman',
+  'michael',
+  'michael1',
+  'charlie',
+  'charlie1',
+  'jordan',
+  'jordan23',
+  'jennifer',
+  'jessica',
+  'ashley',
+  'daniel',
+  'thomas',
+  'andrew',
+  'robert',
+  'matthew',
+  'hunter',
+  'hunter2',
+  'buster',
+  'tigger',
+  'ginger',
+  'pepper',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'summer2024',
+  'winter2024',
+  'spring2024',
+  'autumn2024',
+  'summer2025',
+  'winter2025',
+  'spring2025',
+  'autumn2025',
+  'flower',
+  'cookie',
+  'cheese',
+  'chocolate',
+  'banana',
+  'orange',
+  'purple',
+  'silver',
+  'golden',
+  'diamond',
+  'soccer1',
+  'mustang',
+  'ferrari',
+  'corvette',
+  'harley',
+  'yankees',
+  'liverpool',
+  'chelsea',
+  'arsenal',
+  'maggie',
+  'bailey',
+  'angel',
+  'angel1',
+  'babygirl',
+  'nicole',
+  'samsung',
+  'google',
+  'apple',
+  'apple123',
+  'microsoft',
+  'facebook',
+  'linkedin',
+  'twitter',
+  'instagram',
+  'tiktok',
+  'youtube',
+  'analytics',
+  'qwer1234',
+  'test',
+  'test123',
+  'test1234',
+  'testing',
+  'testing123',
+  'demo',
+  'demo123',
+  'user',
+  'user123',
+  'temp',
+  'temp123',
+  'temppass',
+  'mypassword',
+  'newpassword',
+  'nopassword',
+  'blahblah',
+  'asdfasdf',
+  'zxcvzxcv',
+  'aaaaaa',
+  'aaaaaaaa',
+  'qqqqqq',
+  'zzzzzz',
+  'biteme',
+  'matrix',
+  'merlin',
+  'ranger',
+  'thunder',
+  'tiger',
+  'jasmine',
+  'lakers',
+  'cowboys',
+  'eagles',
+  'peanut',
+  'qwerty2024',
+  'password2024',
+  'password2025',
+]);
@@ -0,0 +1,113 @@
+import type { Tables } from '@/lib/database.types';
+import { addDays, countDays } from '@/lib/utils/dateRange';
+
+type DailyMetric = Tables<'daily_metrics'>;
+
+/**
+ * Metric columns of daily_metrics that can be requested with `metrics=` on /api/v1/metrics/daily
+ */
+export const DAILY_METRIC_KEYS = [
+  'engagement',
+  'reach',
+  'impressions',
+  'likes',
+  'comments',
+  'shares',
+  'saves',
+  'follower_count',
+  'profile_visits',
+  'posts_published',
+] as const satisfies readonly (keyof DailyMetric)[];
+
+export type DailyMetricKey = (typeof DAILY_METRIC_KEYS)[number];
+
+/**
+ * A daily_metrics row narrowed to the requested metrics; `date` is always included
+ */
+export type DailyMetricPoint<K extends DailyMetricKey = DailyMetricKey> = Pick<DailyMetric, 'date' | K>;
+
+/**
+ * Bucket sizes for `granularity=` on the daily metrics endpoints
+ */
+export const DAILY_METRIC_GRANULARITIES = ['day', 'week', 'month'] as const;
+
+export type DailyMetricGranularity = (typeof DAILY_METRIC_GRANULARITIES)[number];
+
+// Snapshots rather than activity: a bucket reports its last known value instead of a sum
+const SNAPSHOT_METRICS: readonly DailyMetricKey[] = ['follower_count'];
+
+/**
+ * First day (`YYYY-MM-DD`) of the bucket a date falls in.
+ * Weeks are ISO weeks, starting on Monday.
+ */
+export function getBucketStart(date: string, granularity: DailyMetricGranularity): string {
+  switch (granularity) {
+    case 'week': {
+      // getUTCDay() is 0 for Sunday; ISO weeks start on Monday
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      return addDays(date, -((weekday + 6) % 7));
+    }
+    case 'month':
+      return `${date.slice(0, 7)}-01`;
+    default:
+      return date;
+  }
+}
+
+/**
+ * Position of a date's bucket counted from the bucket containing `rangeStart` (0 = first bucket).
+ * Matching offsets line two periods up bucket by bucket.
+ */
+export function getBucketOffset(date: string, rangeStart: string, granularity: DailyMetricGranularity): number {
+  switch (granularity) {
+    case 'week':
+      return Math.round((countDays(getBucketStart(rangeStart, 'week'), getBucketStart(date, 'week')) - 1) / 7);
+    case 'month': {
+      const [year, month] = date.split('-').map(Number);
+      const [startYear, startMonth] = rangeStart.split('-').map(Number);
+      return (year - startYear) * 12 + (month - startMonth);
+    }
+    default:
+      return countDays(rangeStart, date) - 1;
+  }
+}
+
+/**
+ * Rolls date-ordered daily rows up into weekly or monthly buckets, dated by the bucket's first day.
+ * Counters are summed; snapshot metrics (follower_count) keep the bucket's last known value.
+ * Buckets at either end of a range only cover the days inside it.
+ */
+export function bucketDailyMetrics<K extends DailyMetricKey>(
+  rows: DailyMetricPoint<K>[],
+  granularity: DailyMetricGranularity,
+  metrics: readonly K[]
+): DailyMetricPoint<K>[] {
+  if (granularity === 'day') {
+    return rows;
+  }
+
+  const buckets = new Map<string, Record<string, string | number | null>>();
+
+  for (const row of rows) {
+    const date = getBucketStart(row.date, granularity);
+    let bucket = buckets.get(date);
+    if (!bucket) {
+      bucket = { date };
+      for (const metric of metrics) {
+        bucket[metric] = SNAPSHOT_METRICS.includes(metric) ? null : 0;
+      }
+      buckets.set(date, bucket);
+    }
+
+    for (const metric of metrics) {
+      const value = row[metric] as number | null;
+      if (SNAPSHOT_METRICS.includes(metric)) {
+        bucket[metric] = value ?? bucket[metric];
+      } else {
+        bucket[metric] = (bucket[metric] as number) + (value ?? 0);
+      }
+    }
+  }
+
+  return Array.from(buckets.values()) as DailyMetricPoint<K>[];
+}
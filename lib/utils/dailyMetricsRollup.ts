@@ -0,0 +1,50 @@
+import type { createClient } from '@/lib/supabase/server';
+import { toDateInTimeZone } from '@/lib/utils/dateRange';
+import type { WorkspaceMembership } from '@/lib/utils/workspaces';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Longest range POST /api/daily-metrics/recompute rebuilds in one request
+ */
+export const MAX_RECOMPUTE_DAYS = 366;
+
+/**
+ * Rebuilds a workspace's daily_metrics rows for the given dates from its posts, in the
+ * workspace's timezone (see workspace_timezone_rebuild.sql). Returns the number of rows written.
+ */
+export async function recomputeDailyMetrics(supabase: ServerClient, workspaceId: string, dates: string[]) {
+  return supabase.rpc('recompute_daily_metrics', {
+    p_workspace_id: workspaceId,
+    p_dates: dates,
+  });
+}
+
+/**
+ * Incremental recompute after posts change: rebuilds only the days the posts were
+ * (or are now) published on, in the workspace's timezone. `postedAt` should include both
+ * the old and new values when a post moves to another day.
+ *
+ * The posts write has already succeeded by the time this runs, so a failure is
+ * logged rather than returned; the next recompute repairs the affected days.
+ */
+export async function recomputeDailyMetricsForPosts(
+  supabase: ServerClient,
+  workspace: Pick<WorkspaceMembership, 'id' | 'timezone'>,
+  postedAt: (string | null | undefined)[]
+): Promise<void> {
+  const timeZone = workspace.timezone;
+  const dates = Array.from(
+    new Set(postedAt.filter((value): value is string => !!value).map((value) => toDateInTimeZone(value, timeZone)))
+  );
+
+  if (dates.length === 0) {
+    return;
+  }
+
+  const { error } = await recomputeDailyMetrics(supabase, workspace.id, dates);
+  if (error) {
+    // Log detailed error server-side only
+    console.error('Daily metrics recompute error:', error);
+  }
+}
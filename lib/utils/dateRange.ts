@@ -0,0 +1,194 @@
+/**
+ * Date range helpers shared by the dashboard date picker and the API routes.
+ *
+ * Client code works with local `Date` objects (midnight in the user's timezone);
+ * API routes work with `YYYY-MM-DD` strings, where both ends of a range are inclusive.
+ */
+
+export type DateRangePreset = '7d' | '30d' | '90d' | 'mtd' | 'custom';
+
+export type ComparisonMode = 'previous' | 'last_year' | 'none';
+
+export interface DateRange {
+  start: Date | null;
+  end: Date | null;
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'mtd', label: 'Month to date' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: 'previous', label: 'vs. previous period' },
+  { value: 'last_year', label: 'vs. same period last year' },
+  { value: 'none', label: 'No comparison' },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Returns the range for a preset, ending today (inclusive).
+ * "Last N days" includes today, so it spans exactly N calendar days.
+ * Custom ranges have no computed value and return null.
+ */
+export function getPresetRange(preset: DateRangePreset, now: Date = new Date()): DateRange | null {
+  const end = startOfDay(now);
+
+  switch (preset) {
+    case '7d':
+    case '30d':
+    case '90d': {
+      const days = parseInt(preset, 10);
+      const start = new Date(end);
+      start.setDate(start.getDate() - (days - 1));
+      return { start, end };
+    }
+    case 'mtd':
+      return { start: new Date(end.getFullYear(), end.getMonth(), 1), end };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Formats a local date as a `YYYY-MM-DD` query parameter.
+ * Unlike `toISOString()`, this never shifts the day for users east or west of UTC.
+ */
+export function toDateParam(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses a `YYYY-MM-DD` string into a local date at midnight.
+ * Returns null for malformed input.
+ */
+export function fromDateParam(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Adds (or subtracts) whole days to a `YYYY-MM-DD` string, in UTC.
+ */
+export function addDays(dateParam: string, days: number): string {
+  const date = new Date(`${dateParam}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Adds (or subtracts) whole years to a `YYYY-MM-DD` string.
+ * Feb 29 maps to Feb 28 in non-leap years.
+ */
+export function addYears(dateParam: string, years: number): string {
+  const [year, month, day] = dateParam.split('-').map(Number);
+  const targetYear = year + years;
+  const lastDayOfMonth = new Date(Date.UTC(targetYear, month, 0)).getUTCDate();
+  const date = new Date(Date.UTC(targetYear, month - 1, Math.min(day, lastDayOfMonth)));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Returns the period a `YYYY-MM-DD` range is compared against:
+ * - previous: the same number of days immediately before the range
+ * - last_year: the same calendar dates one year earlier, ending the day before the range
+ *   at the latest, so ranges longer than a year are never compared with themselves
+ * - none: no comparison (null)
+ */
+export function getComparisonRange(
+  startDate: string,
+  endDate: string,
+  mode: ComparisonMode
+): { startDate: string; endDate: string } | null {
+  switch (mode) {
+    case 'previous':
+      return {
+        startDate: addDays(startDate, -countDays(startDate, endDate)),
+        endDate: addDays(startDate, -1),
+      };
+    case 'last_year': {
+      const lastYearEnd = addYears(endDate, -1);
+      const dayBefore = addDays(startDate, -1);
+      return { startDate: addYears(startDate, -1), endDate: lastYearEnd < dayBefore ? lastYearEnd : dayBefore };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Number of calendar days in an inclusive `YYYY-MM-DD` range.
+ */
+export function countDays(startDate: string, endDate: string): number {
+  const start = new Date(`${startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  return Math.round((end - start) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Every `YYYY-MM-DD` date in an inclusive range, in order.
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+  const days = Math.max(0, countDays(startDate, endDate));
+  return Array.from({ length: days }, (_, index) => addDays(startDate, index));
+}
+
+/**
+ * The calendar date (`YYYY-MM-DD`) of an instant as seen in an IANA time zone,
+ * e.g. 2024-03-01T02:00:00Z is 2024-02-29 in America/New_York.
+ */
+export function toDateInTimeZone(timestamp: string | Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp));
+}
+
+/**
+ * Today's date in UTC as `YYYY-MM-DD` (the default end of API date ranges).
+ */
+export function todayDateParam(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0];
+}
+
+/**
+ * Human-readable description of a range, e.g. "Last 30 days" or "Jan 1 – Jan 15, 2024".
+ */
+export function formatDateRangeLabel(preset: DateRangePreset, range: DateRange): string {
+  if (preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find((p) => p.value === preset)?.label ?? '';
+  }
+
+  if (!range.start || !range.end) {
+    return 'All time';
+  }
+
+  const format = (date: Date, withYear: boolean) =>
+    date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {}),
+    });
+  const sameYear = range.start.getFullYear() === range.end.getFullYear();
+
+  return `${format(range.start, !sameYear)} – ${format(range.end, true)}`;
+}
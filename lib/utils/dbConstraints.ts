@@ -0,0 +1,42 @@
+/**
+ * Values and bounds the database enforces, for the request schemas to validate against.
+ * dbConstraints.test.ts parses supabase/migrations and fails when these drift from the
+ * CHECK constraints and column types there, so update both together.
+ */
+
+/**
+ * posts.platform CHECK constraint (posts.sql)
+ */
+export const POST_PLATFORMS = ['instagram', 'tiktok'] as const;
+
+export type PostPlatform = (typeof POST_PLATFORMS)[number];
+
+/**
+ * posts.media_type CHECK constraint (posts.sql)
+ */
+export const POST_MEDIA_TYPES = ['image', 'video', 'carousel'] as const;
+
+export type PostMediaType = (typeof POST_MEDIA_TYPES)[number];
+
+/**
+ * workspace_members.role and workspace_invitations.role CHECK constraints (workspaces.sql,
+ * workspace_invitations.sql), from most to least privileged
+ */
+export const WORKSPACE_ROLES = ['owner', 'admin', 'analyst', 'viewer'] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+/**
+ * Every `column IN (...)` CHECK constraint in the migrations, keyed by `table.column`
+ */
+export const DB_ENUM_CONSTRAINTS: Record<string, readonly string[]> = {
+  'posts.platform': POST_PLATFORMS,
+  'posts.media_type': POST_MEDIA_TYPES,
+  'workspace_members.role': WORKSPACE_ROLES,
+  'workspace_invitations.role': WORKSPACE_ROLES,
+};
+
+/**
+ * Upper bound of a Postgres INTEGER column
+ */
+export const POSTGRES_INTEGER_MAX = 2147483647;
@@ -0,0 +1,35 @@
+import type { NextRequest, NextResponse } from 'next/server';
+
+type RouteHandler<TContext> = (request: NextRequest, context: TContext) => Promise<NextResponse>;
+
+interface DeprecationOptions {
+  // Path clients should move to, advertised with a `Link: <...>; rel="successor-version"` header
+  successor: string;
+  // When the path was deprecated (YYYY-MM-DD), sent as the RFC 9745 `Deprecation` date
+  deprecatedOn: string;
+}
+
+/**
+ * Serves a deprecated path with an existing handler.
+ * Responses are unchanged apart from the `Deprecation` and `Link` headers, so
+ * existing clients keep working while being told where to go.
+ *
+ * @example
+ * export const GET = withDeprecation(getDailyMetrics, {
+ *   successor: '/api/v1/metrics/daily',
+ *   deprecatedOn: '2026-10-19',
+ * });
+ */
+export function withDeprecation<TContext = unknown>(
+  handler: RouteHandler<TContext>,
+  { successor, deprecatedOn }: DeprecationOptions
+): RouteHandler<TContext> {
+  const deprecation = `@${Math.floor(new Date(`${deprecatedOn}T00:00:00Z`).getTime() / 1000)}`;
+
+  return async (request, context) => {
+    const response = await handler(request, context);
+    response.headers.set('Deprecation', deprecation);
+    response.headers.append('Link', `<${successor}>; rel="successor-version"`);
+    return response;
+  };
+}
@@ -0,0 +1,77 @@
+import type { Tables } from '@/lib/database.types';
+
+type Post = Tables<'posts'>;
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Allowed export formats for GET /api/posts/export
+ */
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * Columns included in post exports, in order. Ownership columns are never exported.
+ */
+export const POST_EXPORT_COLUMNS = [
+  'id',
+  'platform',
+  'media_type',
+  'caption',
+  'posted_at',
+  'permalink',
+  'impressions',
+  'reach',
+  'likes',
+  'comments',
+  'shares',
+  'saves',
+  'engagement_rate',
+] as const satisfies readonly (keyof Post)[];
+
+export type ExportedPost = Pick<Post, (typeof POST_EXPORT_COLUMNS)[number]>;
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a single CSV cell (RFC 4180).
+ * Text that a spreadsheet would run as a formula is prefixed with a quote,
+ * since captions are free-form user content.
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats one CSV line, including the trailing CRLF.
+ */
+export function toCsvRow(values: unknown[]): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * Picks the exported columns from a post row.
+ */
+export function toExportedPost(post: Post): ExportedPost {
+  const exported = {} as Record<string, unknown>;
+  for (const column of POST_EXPORT_COLUMNS) {
+    exported[column] = post[column];
+  }
+  return exported as ExportedPost;
+}
+
+/**
+ * Download filename for an export, e.g. "posts-2024-01-15.csv".
+ */
+export function getExportFilename(format: ExportFormat, date: string): string {
+  return `posts-${date}.${format}`;
+}
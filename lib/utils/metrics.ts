@@ -0,0 +1,85 @@
+import type { Tables } from '@/lib/database.types';
+
+type PostCounters = Pick<Tables<'posts'>, 'likes' | 'comments' | 'shares' | 'saves' | 'reach'>;
+
+// posts.engagement_rate is DECIMAL(5,2)
+export const MAX_ENGAGEMENT_RATE = 999.99;
+
+/**
+ * Calculates a post's engagement rate: (likes + comments + shares + saves) / reach × 100.
+ * Returns null when reach is zero or missing, since the rate is undefined.
+ */
+export function calculateEngagementRate(post: Partial<PostCounters>): number | null {
+  const reach = post.reach || 0;
+  if (reach <= 0) {
+    return null;
+  }
+
+  const engagement =
+    (post.likes || 0) + (post.comments || 0) + (post.shares || 0) + (post.saves || 0);
+  const rate = Number(((engagement / reach) * 100).toFixed(2));
+
+  return Math.min(rate, MAX_ENGAGEMENT_RATE);
+}
+
+export interface SummaryMetrics {
+  totalPosts: number;
+  totalViews: number;
+  totalEngagements: number;
+  averageEngagementRate: number;
+  totalReach: number;
+  totalLikes: number;
+  totalComments: number;
+  totalShares: number;
+}
+
+export interface TopPost {
+  id: string;
+  caption: string;
+  engagement: number;
+  postedAt: string;
+}
+
+export type SummaryChanges = Record<keyof SummaryMetrics, number>;
+
+/**
+ * Percentage change from `previous` to `current`, rounded to one decimal.
+ * Growth from zero counts as +100%; no activity in either period is 0%.
+ */
+export function calculateChange(current: number, previous: number): number {
+  if (previous === 0) return current > 0 ? 100 : 0;
+  return Number((((current - previous) / previous) * 100).toFixed(1));
+}
+
+/**
+ * Percentage change for every summary metric.
+ */
+export function calculateSummaryChanges(current: SummaryMetrics, previous: SummaryMetrics): SummaryChanges {
+  const changes = {} as SummaryChanges;
+  for (const key of Object.keys(current) as (keyof SummaryMetrics)[]) {
+    changes[key] = calculateChange(current[key], previous[key]);
+  }
+  return changes;
+}
+
+export interface BreakdownEntry extends SummaryMetrics {
+  key: string;
+  // Percentage of the period's total engagements contributed by this group
+  engagementShare: number;
+}
+
+export interface SummaryBreakdown {
+  platform: BreakdownEntry[];
+  mediaType: BreakdownEntry[];
+}
+
+/**
+ * Result of the `get_analytics_summary` database function.
+ * `previous` is null when no comparison period was requested.
+ */
+export interface SummaryAggregates {
+  current: SummaryMetrics;
+  previous: SummaryMetrics | null;
+  topPost: TopPost | null;
+  breakdown: SummaryBreakdown;
+}
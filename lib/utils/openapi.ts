@@ -0,0 +1,907 @@
+import { API_ERROR_CODES, API_ERROR_STATUS, type ApiErrorCode } from '@/lib/utils/apiErrors';
+import { API_TOKEN_SCOPES } from '@/lib/utils/apiTokens';
+import { REQUEST_ID_HEADER } from '@/lib/utils/apiResponse';
+import { DAILY_METRIC_KEYS } from '@/lib/utils/dailyMetrics';
+import { MAX_RECOMPUTE_DAYS } from '@/lib/utils/dailyMetricsRollup';
+import { POST_MEDIA_TYPES, POST_PLATFORMS, WORKSPACE_ROLES } from '@/lib/utils/dbConstraints';
+import { POST_EXPORT_COLUMNS } from '@/lib/utils/export';
+import { MAX_ENGAGEMENT_RATE } from '@/lib/utils/metrics';
+import { MAX_IMPORT_ROWS } from '@/lib/utils/postImport';
+import { createPostBodySchema, updatePostBodySchema } from '@/lib/utils/postValidation';
+import type { FieldMeta, RequestSchema } from '@/lib/utils/requestSchema';
+import {
+  addWorkspaceMemberBodySchema,
+  analyticsSummaryQuerySchema,
+  apiTokenIdParamsSchema,
+  createApiTokenBodySchema,
+  createWorkspaceBodySchema,
+  credentialsBodySchema,
+  dailyMetricsQuerySchema,
+  emailBodySchema,
+  passwordUpdateBodySchema,
+  postIdParamsSchema,
+  postsExportQuerySchema,
+  postsListQuerySchema,
+  recomputeDailyMetricsBodySchema,
+  updateWorkspaceBodySchema,
+  workspaceInvitationParamsSchema,
+  workspaceMemberParamsSchema,
+} from '@/lib/utils/routeSchemas';
+import { WORKSPACE_HEADER } from '@/lib/utils/workspaces';
+
+/**
+ * OpenAPI 3.1 description of the API, served at /api/openapi.json and rendered at /docs.
+ *
+ * Parameters and request bodies are generated from the same schemas the routes parse
+ * (routeSchemas.ts, postValidation.ts), so they can't drift from what the routes accept.
+ * Responses are described here. openapi.test.ts fails when a route or method is added
+ * or removed, or a route starts parsing a different schema, without API_OPERATIONS following.
+ */
+
+type JsonSchema = { [key: string]: unknown };
+
+export type HttpMethod = 'get' | 'post' | 'patch' | 'delete';
+
+export interface ApiOperation {
+  path: string;
+  method: HttpMethod;
+  summary: string;
+  description?: string;
+  tag: 'Posts' | 'Metrics' | 'Analytics' | 'Auth' | 'API tokens' | 'Workspaces';
+  // Sign-in routes are public; everything else needs a session or API token
+  authenticated: boolean;
+  // Rejects API tokens (withAuth's allowApiTokens: false)
+  sessionOnly?: boolean;
+  deprecated?: boolean;
+  pathParams?: RequestSchema;
+  query?: RequestSchema;
+  body?: RequestSchema | JsonSchema;
+  // Success status and `data` (or, for `contentTypes`, the raw body)
+  status?: 200 | 201;
+  data: JsonSchema;
+  // Top-level fields next to `data`, e.g. nextCursor
+  meta?: Record<string, JsonSchema>;
+  // Raw success bodies (file downloads) instead of the JSON envelope
+  contentTypes?: Record<string, JsonSchema>;
+  // Error codes besides the ones every operation can return (see getOperationErrors)
+  errors?: ApiErrorCode[];
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const nullable = (type: string, extra: JsonSchema = {}) => ({ type: [type, 'null'], ...extra });
+
+const POST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'workspace_id', 'user_id', 'platform', 'media_type', 'posted_at'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    workspace_id: { type: 'string', format: 'uuid' },
+    user_id: nullable('string', { format: 'uuid', description: 'Who added the post; null once their account is deleted' }),
+    platform: { type: 'string', enum: POST_PLATFORMS },
+    media_type: { type: 'string', enum: POST_MEDIA_TYPES },
+    caption: nullable('string'),
+    thumbnail_url: nullable('string', { format: 'uri' }),
+    permalink: nullable('string', { format: 'uri' }),
+    posted_at: { type: 'string', format: 'date-time' },
+    likes: nullable('integer'),
+    comments: nullable('integer'),
+    shares: nullable('integer'),
+    saves: nullable('integer'),
+    reach: nullable('integer'),
+    impressions: nullable('integer'),
+    engagement_rate: nullable('number', {
+      description:
+        '(likes + comments + shares + saves) / reach × 100, rounded to 2 decimals and capped at ' +
+        `${MAX_ENGAGEMENT_RATE}; null when reach is 0 or missing. Computed by the server.`,
+    }),
+    created_at: nullable('string', { format: 'date-time' }),
+  },
+};
+
+const DAILY_METRIC_POINT_SCHEMA: JsonSchema = {
+  type: 'object',
+  description:
+    'One day, or one week/month dated by its first day. With `metrics`, rows only contain `date` and ' +
+    'those columns; daily rows without `metrics` are whole daily_metrics rows.',
+  required: ['date'],
+  properties: {
+    date: { type: 'string', format: 'date' },
+    ...Object.fromEntries(DAILY_METRIC_KEYS.map((key) => [key, nullable('integer')])),
+  },
+};
+
+const SUMMARY_TOTALS: Record<string, JsonSchema> = {
+  totalPosts: { type: 'integer' },
+  totalViews: { type: 'integer' },
+  totalEngagements: { type: 'integer' },
+  averageEngagementRate: { type: 'number' },
+  totalReach: { type: 'integer' },
+  totalLikes: { type: 'integer' },
+  totalComments: { type: 'integer' },
+  totalShares: { type: 'integer' },
+};
+
+const PERIOD_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['startDate', 'endDate'],
+  properties: { startDate: { type: 'string', format: 'date' }, endDate: { type: 'string', format: 'date' } },
+};
+
+const BREAKDOWN_ENTRY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string' },
+    ...SUMMARY_TOTALS,
+    engagementShare: { type: 'number', description: "Share of the period's engagements, in percent" },
+  },
+};
+
+const ANALYTICS_SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...SUMMARY_TOTALS,
+    topPost: {
+      type: ['object', 'null'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        caption: { type: 'string' },
+        engagement: { type: 'integer' },
+        postedAt: { type: 'string', format: 'date-time' },
+      },
+    },
+    breakdown: {
+      type: 'object',
+      properties: {
+        platform: { type: 'array', items: BREAKDOWN_ENTRY_SCHEMA },
+        mediaType: { type: 'array', items: BREAKDOWN_ENTRY_SCHEMA },
+      },
+    },
+    period: PERIOD_SCHEMA,
+    compareTo: { type: 'string', enum: analyticsSummaryQuerySchema.compareTo.meta.enum },
+    comparisonPeriod: { oneOf: [PERIOD_SCHEMA, { type: 'null' }], description: "Null when compareTo is 'none'" },
+    changes: {
+      type: ['object', 'null'],
+      description: 'Percentage change of each total against the comparison period',
+      properties: Object.fromEntries(Object.keys(SUMMARY_TOTALS).map((key) => [key, { type: 'number' }])),
+    },
+  },
+};
+
+const AUTH_USER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'created_at'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', format: 'email' },
+    created_at: { type: 'string', format: 'date-time' },
+  },
+};
+
+const API_TOKEN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'token_prefix', 'scopes'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    token_prefix: { type: 'string', description: 'First characters of the token, to tell tokens apart' },
+    scopes: { type: 'array', items: { type: 'string', enum: API_TOKEN_SCOPES } },
+    expires_at: nullable('string', { format: 'date-time', description: 'Null for tokens that never expire' }),
+    last_used_at: nullable('string', { format: 'date-time' }),
+    created_at: nullable('string', { format: 'date-time' }),
+  },
+};
+
+const WORKSPACE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'timezone', 'role'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    timezone: { type: 'string', description: 'IANA time zone daily metrics are bucketed in' },
+    role: { type: 'string', enum: WORKSPACE_ROLES, description: "The signed-in user's role" },
+  },
+};
+
+const WORKSPACE_MEMBER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['user_id', 'email', 'role'],
+  properties: {
+    user_id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string', enum: WORKSPACE_ROLES },
+    created_at: nullable('string', { format: 'date-time' }),
+  },
+};
+
+const WORKSPACE_INVITATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: "A pending invitation to the active workspace, as its owners and admins see it",
+  required: ['id', 'email', 'role'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string', enum: WORKSPACE_ROLES },
+    created_at: nullable('string', { format: 'date-time' }),
+  },
+};
+
+const RECEIVED_INVITATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: "An invitation waiting for the signed-in user's email",
+  required: ['id', 'workspace_id', 'workspace_name', 'role'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    workspace_id: { type: 'string', format: 'uuid' },
+    workspace_name: { type: 'string' },
+    role: { type: 'string', enum: WORKSPACE_ROLES },
+    created_at: { type: 'string', format: 'date-time' },
+  },
+};
+
+const DAILY_METRICS_DESCRIPTION =
+  'Daily metrics in date order. `granularity=week|month` sums each ISO week or calendar month.';
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    path: '/api/posts',
+    method: 'get',
+    tag: 'Posts',
+    summary: 'List posts',
+    description:
+      'One page of posts, filtered, searched (`q`, websearch syntax on caption) and ordered. ' +
+      'Pass `nextCursor` back as `cursor` to read the next page.',
+    authenticated: true,
+    query: postsListQuerySchema,
+    data: { type: 'array', items: ref('Post') },
+    meta: { nextCursor: nullable('string', { description: 'Null on the last page' }) },
+  },
+  {
+    path: '/api/posts',
+    method: 'post',
+    tag: 'Posts',
+    summary: 'Create a post',
+    description: 'engagement_rate is computed from the counters. The days the post falls on are recomputed.',
+    authenticated: true,
+    body: createPostBodySchema,
+    status: 201,
+    data: ref('Post'),
+  },
+  {
+    path: '/api/posts/{id}',
+    method: 'patch',
+    tag: 'Posts',
+    summary: 'Update a post',
+    description: 'Only the fields sent are changed; engagement_rate is recomputed when a counter changes.',
+    authenticated: true,
+    pathParams: postIdParamsSchema,
+    body: updatePostBodySchema,
+    data: ref('Post'),
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/posts/{id}',
+    method: 'delete',
+    tag: 'Posts',
+    summary: 'Delete a post',
+    authenticated: true,
+    pathParams: postIdParamsSchema,
+    data: { type: 'object', required: ['id'], properties: { id: { type: 'string', format: 'uuid' } } },
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/posts/import',
+    method: 'post',
+    tag: 'Posts',
+    summary: 'Import posts',
+    description:
+      'Inserts a batch of posts; if any is invalid, nothing is written. Every post needs a permalink: ' +
+      'posts whose permalink already exists are skipped, so re-importing a file is safe.',
+    authenticated: true,
+    body: {
+      type: 'object',
+      required: ['posts'],
+      properties: {
+        posts: { type: 'array', minItems: 1, maxItems: MAX_IMPORT_ROWS, items: ref('CreatePostBody') },
+      },
+    },
+    status: 201,
+    data: {
+      type: 'object',
+      required: ['imported', 'skipped'],
+      properties: { imported: { type: 'integer' }, skipped: { type: 'integer' } },
+    },
+  },
+  {
+    path: '/api/posts/export',
+    method: 'get',
+    tag: 'Posts',
+    summary: 'Export posts',
+    description: 'Downloads every post matching the filters, search and ordering of GET /api/posts.',
+    authenticated: true,
+    query: postsExportQuerySchema,
+    data: {},
+    contentTypes: {
+      'text/csv': { type: 'string', description: `Columns: ${POST_EXPORT_COLUMNS.join(', ')}` },
+      'application/json': {
+        type: 'array',
+        items: { type: 'object', properties: Object.fromEntries(POST_EXPORT_COLUMNS.map((column) => [column, {}])) },
+      },
+    },
+  },
+  {
+    path: '/api/v1/metrics/daily',
+    method: 'get',
+    tag: 'Metrics',
+    summary: 'Daily metrics',
+    description: DAILY_METRICS_DESCRIPTION,
+    authenticated: true,
+    query: dailyMetricsQuerySchema,
+    data: { type: 'array', items: ref('DailyMetricPoint') },
+  },
+  {
+    path: '/api/daily-metrics',
+    method: 'get',
+    tag: 'Metrics',
+    summary: 'Daily metrics (deprecated alias)',
+    description: `${DAILY_METRICS_DESCRIPTION} Use /api/v1/metrics/daily; responses carry Deprecation and Link headers.`,
+    authenticated: true,
+    deprecated: true,
+    query: dailyMetricsQuerySchema,
+    data: { type: 'array', items: ref('DailyMetricPoint') },
+  },
+  {
+    path: '/api/metrics/daily',
+    method: 'get',
+    tag: 'Metrics',
+    summary: 'Daily metrics (deprecated alias)',
+    description: `${DAILY_METRICS_DESCRIPTION} Use /api/v1/metrics/daily; responses carry Deprecation and Link headers.`,
+    authenticated: true,
+    deprecated: true,
+    query: dailyMetricsQuerySchema,
+    data: { type: 'array', items: ref('DailyMetricPoint') },
+  },
+  {
+    path: '/api/daily-metrics/recompute',
+    method: 'post',
+    tag: 'Metrics',
+    summary: 'Rebuild daily metrics from posts',
+    description:
+      `Recomputes each day in the range (at most ${MAX_RECOMPUTE_DAYS} days) from posts, bucketed in the ` +
+      'workspace\'s timezone. A `timezone` other than the workspace\'s is rejected; change it with PATCH /api/workspace.',
+    authenticated: true,
+    body: recomputeDailyMetricsBodySchema,
+    data: {
+      type: 'object',
+      required: ['days', 'timezone'],
+      properties: { days: { type: 'integer', description: 'Rows written' }, timezone: { type: 'string' } },
+    },
+  },
+  {
+    path: '/api/analytics/summary',
+    method: 'get',
+    tag: 'Analytics',
+    summary: 'Analytics summary',
+    description:
+      'Totals, averages, top post and per-platform / per-media-type breakdown for the period ' +
+      '(the last 30 days by default), with changes against the comparison period.',
+    authenticated: true,
+    query: analyticsSummaryQuerySchema,
+    data: ref('AnalyticsSummary'),
+  },
+  {
+    path: '/api/tokens',
+    method: 'get',
+    tag: 'API tokens',
+    summary: 'List API tokens',
+    authenticated: true,
+    sessionOnly: true,
+    data: { type: 'array', items: ref('ApiToken') },
+  },
+  {
+    path: '/api/tokens',
+    method: 'post',
+    tag: 'API tokens',
+    summary: 'Create an API token',
+    description:
+      'The response is the only time `token` is returned; only its hash is stored. ' +
+      '`read` allows GET requests, `write` everything else. Without expiresInDays the token never expires.',
+    authenticated: true,
+    sessionOnly: true,
+    body: createApiTokenBodySchema,
+    status: 201,
+    data: {
+      allOf: [ref('ApiToken')],
+      required: ['token'],
+      properties: { token: { type: 'string', description: 'Send as `Authorization: Bearer <token>`' } },
+    },
+  },
+  {
+    path: '/api/tokens/{id}',
+    method: 'delete',
+    tag: 'API tokens',
+    summary: 'Revoke an API token',
+    authenticated: true,
+    sessionOnly: true,
+    pathParams: apiTokenIdParamsSchema,
+    data: { type: 'object', required: ['id'], properties: { id: { type: 'string', format: 'uuid' } } },
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/workspaces',
+    method: 'get',
+    tag: 'Workspaces',
+    summary: 'List workspaces',
+    description: '`activeWorkspaceId` is the workspace the other routes act on for the same cookies.',
+    authenticated: true,
+    sessionOnly: true,
+    data: {
+      type: 'object',
+      required: ['workspaces', 'activeWorkspaceId'],
+      properties: {
+        workspaces: { type: 'array', items: ref('Workspace') },
+        activeWorkspaceId: { type: 'string', format: 'uuid' },
+      },
+    },
+  },
+  {
+    path: '/api/workspaces',
+    method: 'post',
+    tag: 'Workspaces',
+    summary: 'Create a workspace',
+    description: 'The signed-in user becomes its owner.',
+    authenticated: true,
+    sessionOnly: true,
+    body: createWorkspaceBodySchema,
+    status: 201,
+    data: ref('Workspace'),
+  },
+  {
+    path: '/api/workspace',
+    method: 'patch',
+    tag: 'Workspaces',
+    summary: 'Change the active workspace\'s timezone',
+    description:
+      'Sets the IANA time zone the workspace\'s daily metrics are bucketed in. Needs the admin role. ' +
+      'Changing it rebuilds every day the workspace has metrics for or posts on.',
+    authenticated: true,
+    sessionOnly: true,
+    body: updateWorkspaceBodySchema,
+    data: ref('Workspace'),
+  },
+  {
+    path: '/api/workspace/members',
+    method: 'get',
+    tag: 'Workspaces',
+    summary: 'List members of the active workspace',
+    authenticated: true,
+    sessionOnly: true,
+    data: { type: 'array', items: ref('WorkspaceMember') },
+  },
+  {
+    path: '/api/workspace/members',
+    method: 'post',
+    tag: 'Workspaces',
+    summary: 'Invite a member or change their role',
+    description:
+      'Changes the role of the member with this email (`status: member`), or invites the email to the active ' +
+      'workspace (`status: invited`); the invitee joins by accepting it. The response is the same whether or not ' +
+      'the email has an account. Needs the admin role; only owners can invite or change owners.',
+    authenticated: true,
+    sessionOnly: true,
+    body: addWorkspaceMemberBodySchema,
+    data: {
+      type: 'object',
+      required: ['email', 'role', 'status'],
+      properties: {
+        email: { type: 'string', format: 'email' },
+        role: { type: 'string', enum: WORKSPACE_ROLES },
+        status: { type: 'string', enum: ['member', 'invited'] },
+      },
+    },
+  },
+  {
+    path: '/api/workspace/members/{userId}',
+    method: 'delete',
+    tag: 'Workspaces',
+    summary: 'Remove a member',
+    description:
+      'Members can remove themselves; removing others needs the admin role, and only owners can remove ' +
+      'owners. The last owner cannot leave.',
+    authenticated: true,
+    sessionOnly: true,
+    pathParams: workspaceMemberParamsSchema,
+    data: { type: 'object', required: ['user_id'], properties: { user_id: { type: 'string', format: 'uuid' } } },
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/workspace/invitations',
+    method: 'get',
+    tag: 'Workspaces',
+    summary: 'List invitations to the active workspace',
+    description: 'Pending invitations, oldest first. Needs the admin role.',
+    authenticated: true,
+    sessionOnly: true,
+    data: { type: 'array', items: ref('WorkspaceInvitation') },
+  },
+  {
+    path: '/api/workspaces/invitations',
+    method: 'get',
+    tag: 'Workspaces',
+    summary: 'List invitations for the signed-in user',
+    description: "Invitations to any workspace for the user's confirmed email, oldest first.",
+    authenticated: true,
+    sessionOnly: true,
+    data: { type: 'array', items: ref('ReceivedInvitation') },
+  },
+  {
+    path: '/api/workspaces/invitations/{id}',
+    method: 'post',
+    tag: 'Workspaces',
+    summary: 'Accept an invitation',
+    description: 'Joins the workspace with the invited role; existing members keep theirs.',
+    authenticated: true,
+    sessionOnly: true,
+    pathParams: workspaceInvitationParamsSchema,
+    data: ref('Workspace'),
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/workspaces/invitations/{id}',
+    method: 'delete',
+    tag: 'Workspaces',
+    summary: 'Decline or cancel an invitation',
+    description:
+      'The invitee declines; owners and admins of the workspace cancel (only owners cancel invitations to owner).',
+    authenticated: true,
+    sessionOnly: true,
+    pathParams: workspaceInvitationParamsSchema,
+    data: { type: 'object', required: ['id'], properties: { id: { type: 'string', format: 'uuid' } } },
+    errors: ['NOT_FOUND'],
+  },
+  {
+    path: '/api/auth/login',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Sign in',
+    description: 'Sets the session cookies used by every other route.',
+    authenticated: false,
+    body: credentialsBodySchema,
+    data: { type: 'object', required: ['user'], properties: { user: ref('AuthUser') } },
+    errors: ['UNAUTHORIZED'],
+  },
+  {
+    path: '/api/auth/signup',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Create an account',
+    description: 'Signs the user in right away unless the project requires email confirmation.',
+    authenticated: false,
+    body: credentialsBodySchema,
+    data: {
+      type: 'object',
+      required: ['user', 'session', 'requiresEmailConfirmation', 'message'],
+      properties: {
+        user: {
+          allOf: [ref('AuthUser')],
+          properties: { email_confirmed_at: nullable('string', { format: 'date-time' }) },
+        },
+        session: { type: ['object', 'null'], properties: { expires_at: { type: 'integer' } } },
+        requiresEmailConfirmation: { type: 'boolean' },
+        message: { type: 'string' },
+      },
+    },
+  },
+  {
+    path: '/api/auth/magic-link',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Email a sign-in link',
+    description:
+      'Sends existing accounts a passwordless sign-in link to /auth/callback. The response is the same ' +
+      'whether or not the email is registered.',
+    authenticated: false,
+    body: emailBodySchema,
+    data: { type: 'object', required: ['message'], properties: { message: { type: 'string' } } },
+  },
+  {
+    path: '/api/auth/password/reset-request',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Email a password reset link',
+    description:
+      'The link signs the user in through /auth/callback and opens /auth/reset-password. The response is ' +
+      'the same whether or not the email is registered.',
+    authenticated: false,
+    body: emailBodySchema,
+    data: { type: 'object', required: ['message'], properties: { message: { type: 'string' } } },
+  },
+  {
+    path: '/api/auth/password/update',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Set a new password',
+    description:
+      'Sets the signed-in user\'s password. currentPassword is required and must be correct, ' +
+      'except within 15 minutes of signing in with a password reset link.',
+    authenticated: true,
+    sessionOnly: true,
+    body: passwordUpdateBodySchema,
+    data: { type: 'object', required: ['message'], properties: { message: { type: 'string' } } },
+  },
+  {
+    path: '/api/auth/logout',
+    method: 'post',
+    tag: 'Auth',
+    summary: 'Sign out',
+    authenticated: false,
+    data: { type: 'null' },
+  },
+];
+
+/**
+ * Whether a body is a request schema (rather than a plain JSON Schema)
+ */
+export const isRequestSchema = (body: ApiOperation['body']): body is RequestSchema =>
+  !!body && Object.values(body).every((field) => typeof field === 'object' && field !== null && 'parse' in field);
+
+/**
+ * JSON Schema for one request field
+ */
+export function toJsonSchema(meta: FieldMeta): JsonSchema {
+  const schema: JsonSchema =
+    meta.type === 'array'
+      ? { type: 'array', items: { type: 'string', enum: meta.enum }, uniqueItems: true }
+      : {
+          type: meta.type,
+          format: meta.format,
+          enum: meta.enum,
+          minimum: meta.minimum,
+          maximum: meta.maximum,
+          maxLength: meta.maxLength,
+        };
+
+  if (meta.nullable) {
+    schema.type = [schema.type, 'null'];
+  }
+
+  schema.default = meta.default;
+  schema.description = meta.description;
+
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Object JSON Schema for a request body
+ */
+function toBodySchema(schema: RequestSchema): JsonSchema {
+  const required = Object.entries(schema).filter(([, field]) => field.meta.required).map(([name]) => name);
+
+  return {
+    type: 'object',
+    ...(required.length > 0 ? { required } : {}),
+    properties: Object.fromEntries(Object.entries(schema).map(([name, field]) => [name, toJsonSchema(field.meta)])),
+  };
+}
+
+export interface OperationParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+  style?: 'form';
+  explode?: boolean;
+}
+
+/**
+ * Path and query parameters of an operation
+ */
+export function getOperationParameters(operation: ApiOperation): OperationParameter[] {
+  const toParameters = (schema: RequestSchema | undefined, location: 'path' | 'query') =>
+    Object.entries(schema ?? {}).map(([name, field]): OperationParameter => ({
+      name,
+      in: location,
+      required: location === 'path' || field.meta.required,
+      schema: toJsonSchema(field.meta),
+      ...(field.meta.description ? { description: field.meta.description } : {}),
+      // Lists are sent comma-separated: metrics=likes,comments
+      ...(field.meta.type === 'array' ? { style: 'form' as const, explode: false } : {}),
+    }));
+
+  return [...toParameters(operation.pathParams, 'path'), ...toParameters(operation.query, 'query')];
+}
+
+/**
+ * Error codes an operation can respond with
+ */
+export function getOperationErrors(operation: ApiOperation): ApiErrorCode[] {
+  const codes = new Set<ApiErrorCode>(operation.errors);
+
+  if (operation.authenticated) {
+    // FORBIDDEN: an API token without the scope the method needs, or on a session-only route,
+    // or a workspace role below the one the route needs
+    codes.add('UNAUTHORIZED');
+    codes.add('FORBIDDEN');
+  }
+  if (operation.pathParams || operation.query || operation.body) {
+    codes.add('VALIDATION_FAILED');
+  }
+  // The middleware throttles every API route (see rateLimit.ts)
+  codes.add('RATE_LIMITED');
+  codes.add('INTERNAL');
+
+  return API_ERROR_CODES.filter((code) => codes.has(code));
+}
+
+const ERROR_RESPONSE_NAMES: Record<ApiErrorCode, string> = {
+  UNAUTHORIZED: 'Unauthorized',
+  FORBIDDEN: 'Forbidden',
+  VALIDATION_FAILED: 'ValidationFailed',
+  NOT_FOUND: 'NotFound',
+  RATE_LIMITED: 'RateLimited',
+  INTERNAL: 'Internal',
+};
+
+const ERROR_DESCRIPTIONS: Record<ApiErrorCode, string> = {
+  UNAUTHORIZED: 'Not signed in, or the session or API token expired',
+  FORBIDDEN: 'The API token lacks the scope this method needs, or the route only accepts a session',
+  VALIDATION_FAILED: 'Invalid parameters or body; `details` lists each invalid field',
+  NOT_FOUND: 'No such resource (or it belongs to another user)',
+  RATE_LIMITED: 'Too many requests; retry after the Retry-After header',
+  INTERNAL: 'Unexpected server error; quote `requestId` when reporting it',
+};
+
+const REQUEST_ID_HEADER_OBJECT = {
+  description: 'Identifies the request in the server logs (echoes a well-formed incoming one)',
+  schema: { type: 'string' },
+};
+
+const RETRY_AFTER_HEADER_OBJECT = {
+  description: 'Seconds to wait before retrying',
+  schema: { type: 'integer' },
+};
+
+function toOperationObject(operation: ApiOperation) {
+  const parameters = getOperationParameters(operation);
+  const body = operation.body && (isRequestSchema(operation.body) ? toBodySchema(operation.body) : operation.body);
+
+  const successContent = operation.contentTypes
+    ? Object.fromEntries(Object.entries(operation.contentTypes).map(([type, schema]) => [type, { schema }]))
+    : {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['success', 'data', 'requestId', ...Object.keys(operation.meta ?? {})],
+            properties: {
+              success: { const: true },
+              data: operation.data,
+              requestId: { type: 'string' },
+              ...operation.meta,
+            },
+          },
+        },
+      };
+
+  return {
+    operationId: `${operation.method}${operation.path.replace(/^\/api/, '').replace(/[/{}-]+(\w)?/g, (_, char: string = '') => char.toUpperCase())}`,
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    ...(operation.deprecated ? { deprecated: true } : {}),
+    ...(operation.authenticated ? {} : { security: [] }),
+    ...(operation.sessionOnly ? { security: [{ cookieAuth: [] }] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body ? { requestBody: { required: true, content: { 'application/json': { schema: body } } } } : {}),
+    responses: {
+      [String(operation.status ?? 200)]: {
+        description: operation.summary,
+        headers: { [REQUEST_ID_HEADER]: REQUEST_ID_HEADER_OBJECT },
+        content: successContent,
+      },
+      ...Object.fromEntries(
+        getOperationErrors(operation).map((code) => [
+          String(API_ERROR_STATUS[code]),
+          { $ref: `#/components/responses/${ERROR_RESPONSE_NAMES[code]}` },
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for API_OPERATIONS
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperationObject(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Analytics API',
+      version: '1.0.0',
+      description:
+        'Posts, daily metrics and analytics of a workspace, for the signed-in user or the owner of a personal ' +
+        `API token. Requests act on the workspace named by the \`${WORKSPACE_HEADER}\` header, else the one ` +
+        "picked in the dashboard's workspace switcher, else the user's first workspace. Reads need any role in " +
+        'it, changes the analyst role or above (403 FORBIDDEN otherwise). Every JSON response uses the envelope ' +
+        '`{ success, data, requestId }` or `{ success: false, error: { code, message, details?, requestId } }`.',
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    security: [{ cookieAuth: [] }, { bearerAuth: [] }],
+    tags: [
+      { name: 'Posts' },
+      { name: 'Metrics' },
+      { name: 'Analytics' },
+      { name: 'API tokens', description: 'Personal tokens for scripts; managed with a session only' },
+      { name: 'Workspaces', description: 'Workspaces, their members and invitations; managed with a session only' },
+      { name: 'Auth', description: 'Session cookies for the routes above' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sb-<project-ref>-auth-token',
+          description: 'Supabase session cookies, set by POST /api/auth/login',
+        },
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal API token (`ak_...`) created with POST /api/tokens',
+        },
+      },
+      schemas: {
+        Post: POST_SCHEMA,
+        CreatePostBody: toBodySchema(createPostBodySchema),
+        DailyMetricPoint: DAILY_METRIC_POINT_SCHEMA,
+        AnalyticsSummary: ANALYTICS_SUMMARY_SCHEMA,
+        AuthUser: AUTH_USER_SCHEMA,
+        ApiToken: API_TOKEN_SCHEMA,
+        Workspace: WORKSPACE_SCHEMA,
+        WorkspaceMember: WORKSPACE_MEMBER_SCHEMA,
+        WorkspaceInvitation: WORKSPACE_INVITATION_SCHEMA,
+        ReceivedInvitation: RECEIVED_INVITATION_SCHEMA,
+        FieldError: {
+          type: 'object',
+          required: ['field', 'message'],
+          properties: { field: { type: 'string' }, message: { type: 'string' } },
+        },
+        ErrorResponse: {
+          type: 'object',
+          required: ['success', 'error'],
+          properties: {
+            success: { const: false },
+            error: {
+              type: 'object',
+              required: ['code', 'message', 'requestId'],
+              properties: {
+                code: { type: 'string', enum: API_ERROR_CODES },
+                message: { type: 'string' },
+                details: { type: 'array', items: ref('FieldError') },
+                requestId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      responses: Object.fromEntries(
+        API_ERROR_CODES.map((code) => [
+          ERROR_RESPONSE_NAMES[code],
+          {
+            description: ERROR_DESCRIPTIONS[code],
+            headers: {
+              [REQUEST_ID_HEADER]: REQUEST_ID_HEADER_OBJECT,
+              ...(code === 'RATE_LIMITED' ? { 'Retry-After': RETRY_AFTER_HEADER_OBJECT } : {}),
+            },
+            content: { 'application/json': { schema: ref('ErrorResponse') } },
+          },
+        ])
+      ),
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { validateUuidParam } from '@/lib/utils/paramValidation';
+
+/**
+ * Keyset (cursor) pagination helpers for the posts list.
+ *
+ * A cursor records the sort field, the sort value and the id of the last row
+ * on a page. The next page starts strictly after that (value, id) pair, so
+ * pages stay stable while rows are inserted and no OFFSET scan is needed.
+ *
+ * Rows are ordered with NULLs last in both directions and `id` as the tiebreaker.
+ */
+
+export interface PostCursor {
+  field: string;
+  value: string | number | null;
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const NUMERIC_SORT_FIELDS = [
+  'impressions',
+  'likes',
+  'comments',
+  'shares',
+  'reach',
+  'engagement_rate',
+];
+
+/**
+ * Validates a cursor value for the given sort field.
+ * Values end up inside a PostgREST filter string, so only plain
+ * numbers, timestamps and lowercase identifiers are accepted.
+ */
+function isValidCursorValue(field: string, value: unknown): value is string | number | null {
+  if (value === null) {
+    return true;
+  }
+
+  if (NUMERIC_SORT_FIELDS.includes(field)) {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  if (field === 'posted_at') {
+    return (
+      typeof value === 'string' &&
+      /^[0-9T:.+\-Z ]+$/.test(value) &&
+      !isNaN(new Date(value).getTime())
+    );
+  }
+
+  return typeof value === 'string' && /^[a-z_]+$/.test(value);
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Encodes the cursor pointing after `row` for the given sort field.
+ */
+export function encodeCursor(field: string, row: { id: string } & Record<string, unknown>): string {
+  const cursor: PostCursor = {
+    field,
+    value: (row[field] ?? null) as string | number | null,
+    id: row.id,
+  };
+  return toBase64Url(JSON.stringify(cursor));
+}
+
+/**
+ * Decodes and validates a cursor query parameter.
+ * Returns null if the cursor is malformed or was issued for a different sort field.
+ */
+export function decodeCursor(raw: string | null, field: string): PostCursor | null {
+  if (!raw || typeof raw !== 'string' || !/^[A-Za-z0-9_-]+$/.test(raw)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(fromBase64Url(raw));
+    if (!parsed || typeof parsed !== 'object' || parsed.field !== field) {
+      return null;
+    }
+
+    const id = validateUuidParam(parsed.id);
+    if (!id || !isValidCursorValue(field, parsed.value)) {
+      return null;
+    }
+
+    return { field, value: parsed.value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the PostgREST `or` filter selecting rows strictly after the cursor.
+ */
+export function buildKeysetFilter(cursor: PostCursor, sortOrder: 'asc' | 'desc'): string {
+  const { field, value, id } = cursor;
+  const comparator = sortOrder === 'asc' ? 'gt' : 'lt';
+
+  // Already inside the trailing NULL block: only ids further along remain
+  if (value === null) {
+    return `and(${field}.is.null,id.${comparator}.${id})`;
+  }
+
+  const quoted = `"${value}"`;
+  return [
+    `${field}.${comparator}.${quoted}`,
+    `and(${field}.eq.${quoted},id.${comparator}.${id})`,
+    `${field}.is.null`,
+  ].join(',');
+}
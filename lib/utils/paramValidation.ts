@@ -0,0 +1,94 @@
+/**
+ * Format checks for single request values, used by the request schemas (requestSchema.ts)
+ * and directly where a value isn't part of a request.
+ *
+ * Edge-safe: this module must not import Node.js APIs, `next/headers` or the Supabase
+ * server client, so Edge routes (e.g. /api/v1/metrics/daily) can use it directly.
+ * Node routes keep importing these through `@/lib/utils/validation`.
+ */
+
+/**
+ * Sanitizes error messages to prevent information leakage in production.
+ * Only returns detailed errors in development.
+ */
+export function sanitizeError(error: unknown, genericMessage: string): string {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  
+  if (isDevelopment) {
+    return error instanceof Error ? error.message : genericMessage;
+  }
+  
+  return genericMessage;
+}
+
+/**
+ * Validates date strings to ensure they're in ISO format.
+ */
+export function validateDateParam(value: string | null): string | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+  
+  const sanitized = value.trim();
+  
+  // Validate ISO date format (YYYY-MM-DD)
+  if (/^\d{4}-\d{2}-\d{2}$/.test(sanitized)) {
+    // Additional validation: check if it's a valid date
+    const date = new Date(sanitized);
+    if (!isNaN(date.getTime())) {
+      return sanitized;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validates free-text search queries.
+ * Strips control characters, collapses whitespace and enforces a maximum length.
+ */
+export function validateSearchParam(value: string | null, maxLength: number = 200): string | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+
+  const sanitized = value.replace(/[\u0000-\u001f\u007f]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (sanitized.length === 0 || sanitized.length > maxLength) {
+    return null;
+  }
+
+  return sanitized;
+}
+
+/**
+ * Validates an IANA time zone name (e.g. `Europe/Paris`).
+ * Returns the zone's canonical name, or null if the runtime doesn't recognise it.
+ */
+export function validateTimeZoneParam(value: unknown): string | null {
+  if (!value || typeof value !== 'string' || value.length > 64) {
+    return null;
+  }
+
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates UUID path parameters (e.g. post ids).
+ */
+export function validateUuidParam(value: string | null | undefined): string | null {
+  if (!value || typeof value !== 'string') {
+    return null;
+  }
+
+  const sanitized = value.trim();
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(sanitized)) {
+    return sanitized.toLowerCase();
+  }
+
+  return null;
+}
@@ -0,0 +1,160 @@
+import { COMMON_PASSWORDS } from '@/lib/utils/commonPasswords';
+
+/**
+ * Password rules for new passwords (signup, reset and change). Client-safe: the signup page
+ * shows the same rule results validatePassword enforces on the server.
+ *
+ * The policy is read from NEXT_PUBLIC_ variables so the browser and the server agree:
+ * - NEXT_PUBLIC_PASSWORD_MIN_LENGTH: minimum length (default 8, at least 6)
+ * - NEXT_PUBLIC_PASSWORD_CHARACTER_CLASSES: comma-separated classes a password must contain,
+ *   from lowercase, uppercase, digit, symbol (default lowercase,uppercase,digit; `none` for none)
+ * - NEXT_PUBLIC_PASSWORD_REJECT_COMMON: `false` to allow passwords from the common list
+ */
+
+export const PASSWORD_CHARACTER_CLASSES = ['lowercase', 'uppercase', 'digit', 'symbol'] as const;
+
+export type PasswordCharacterClass = (typeof PASSWORD_CHARACTER_CLASSES)[number];
+
+// Supabase Auth rejects shorter passwords whatever the policy says
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Prevent very long passwords (potential DoS)
+export const MAX_PASSWORD_LENGTH = 128;
+
+export interface PasswordPolicy {
+  minLength: number;
+  characterClasses: PasswordCharacterClass[];
+  rejectCommonPasswords: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  characterClasses: ['lowercase', 'uppercase', 'digit'],
+  rejectCommonPasswords: true,
+};
+
+export type PasswordRuleId = 'minLength' | PasswordCharacterClass | 'common';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  // Shown next to the strength meter, e.g. "At least 8 characters"
+  label: string;
+  // Returned by validatePassword when the rule fails
+  message: string;
+  passed: boolean;
+}
+
+const CHARACTER_CLASS_RULES: Record<PasswordCharacterClass, { pattern: RegExp; label: string; message: string }> = {
+  lowercase: { pattern: /[a-z]/, label: 'A lowercase letter', message: 'Password must contain a lowercase letter' },
+  uppercase: { pattern: /[A-Z]/, label: 'An uppercase letter', message: 'Password must contain an uppercase letter' },
+  digit: { pattern: /\d/, label: 'A number', message: 'Password must contain a number' },
+  symbol: { pattern: /[^A-Za-z0-9]/, label: 'A symbol', message: 'Password must contain a symbol' },
+};
+
+const isCharacterClass = (value: string): value is PasswordCharacterClass =>
+  (PASSWORD_CHARACTER_CLASSES as readonly string[]).includes(value);
+
+/**
+ * Builds a policy from raw settings (the NEXT_PUBLIC_PASSWORD_* values). Missing or invalid
+ * settings keep their default, so a typo can't silently weaken the policy.
+ */
+export function parsePasswordPolicy(settings: {
+  minLength?: string;
+  characterClasses?: string;
+  rejectCommonPasswords?: string;
+}): PasswordPolicy {
+  const policy = { ...DEFAULT_PASSWORD_POLICY };
+
+  const minLength = Number(settings.minLength);
+  if (settings.minLength && Number.isInteger(minLength)) {
+    policy.minLength = Math.min(Math.max(minLength, MIN_PASSWORD_LENGTH), MAX_PASSWORD_LENGTH);
+  }
+
+  const characterClasses = settings.characterClasses?.trim().toLowerCase();
+  if (characterClasses === 'none') {
+    policy.characterClasses = [];
+  } else if (characterClasses) {
+    const classes = characterClasses.split(',').map((value) => value.trim());
+    if (classes.every(isCharacterClass)) {
+      policy.characterClasses = Array.from(new Set(classes));
+    }
+  }
+
+  if (settings.rejectCommonPasswords?.trim().toLowerCase() === 'false') {
+    policy.rejectCommonPasswords = false;
+  }
+
+  return policy;
+}
+
+/**
+ * The configured policy. The variables are referenced literally so Next.js inlines them
+ * into the browser bundle.
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return parsePasswordPolicy({
+    minLength: process.env.NEXT_PUBLIC_PASSWORD_MIN_LENGTH,
+    characterClasses: process.env.NEXT_PUBLIC_PASSWORD_CHARACTER_CLASSES,
+    rejectCommonPasswords: process.env.NEXT_PUBLIC_PASSWORD_REJECT_COMMON,
+  });
+}
+
+/**
+ * Whether a password is on the common list, ignoring case and a trailing run of digits
+ * and symbols ("Monkey123!" counts as "monkey")
+ */
+export function isCommonPassword(password: string): boolean {
+  const normalized = password.toLowerCase();
+  const base = normalized.replace(/[\d\W_]+$/, '');
+
+  return COMMON_PASSWORDS.has(normalized) || (base.length > 0 && COMMON_PASSWORDS.has(base));
+}
+
+/**
+ * Every rule of the policy with whether the password passes it, in the order they are shown
+ */
+export function checkPasswordRules(password: string, policy: PasswordPolicy = getPasswordPolicy()): PasswordRuleResult[] {
+  const results: PasswordRuleResult[] = [
+    {
+      id: 'minLength',
+      label: `At least ${policy.minLength} characters`,
+      message: `Password must be at least ${policy.minLength} characters`,
+      passed: password.length >= policy.minLength,
+    },
+  ];
+
+  for (const characterClass of policy.characterClasses) {
+    const rule = CHARACTER_CLASS_RULES[characterClass];
+    results.push({
+      id: characterClass,
+      label: rule.label,
+      message: rule.message,
+      passed: rule.pattern.test(password),
+    });
+  }
+
+  if (policy.rejectCommonPasswords) {
+    results.push({
+      id: 'common',
+      label: 'Not a commonly used password',
+      message: 'This password is too common. Choose one that is harder to guess',
+      passed: password.length > 0 && !isCommonPassword(password),
+    });
+  }
+
+  return results;
+}
+
+export type PasswordStrength = 'weak' | 'fair' | 'strong';
+
+/**
+ * Strength shown by the signup meter: strong once every rule passes
+ */
+export function getPasswordStrength(results: PasswordRuleResult[]): PasswordStrength {
+  const passed = results.filter((result) => result.passed).length;
+
+  if (passed === results.length) {
+    return 'strong';
+  }
+  return passed / results.length >= 0.5 ? 'fair' : 'weak';
+}
@@ -0,0 +1,218 @@
+import { validateUpdatePostPayload } from '@/lib/utils/postValidation';
+
+/**
+ * CSV import helpers for the posts import dialog.
+ *
+ * The browser parses the file, maps its columns onto post fields and validates
+ * every row with the same rules as POST /api/posts, so the preview can show all
+ * problems before anything is written. Only rows without errors are sent to
+ * POST /api/posts/import, which validates them again.
+ */
+
+export const MAX_IMPORT_ROWS = 1000;
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Post fields a CSV column can be mapped to (request body names of POST /api/posts)
+ */
+export type PostImportField =
+  | 'platform'
+  | 'mediaType'
+  | 'postedAt'
+  | 'caption'
+  | 'permalink'
+  | 'thumbnailUrl'
+  | 'likes'
+  | 'comments'
+  | 'shares'
+  | 'saves'
+  | 'impressions'
+  | 'reach';
+
+export const POST_IMPORT_FIELDS: {
+  field: PostImportField;
+  label: string;
+  required: boolean;
+  // Normalized header names recognized when suggesting a mapping
+  aliases: string[];
+}[] = [
+  { field: 'platform', label: 'Platform', required: true, aliases: ['platform', 'network', 'channel'] },
+  { field: 'mediaType', label: 'Media type', required: true, aliases: ['mediatype', 'type', 'format'] },
+  { field: 'postedAt', label: 'Posted at', required: true, aliases: ['postedat', 'posted', 'date', 'publishedat', 'timestamp'] },
+  { field: 'caption', label: 'Caption', required: false, aliases: ['caption', 'text', 'description'] },
+  // Required: imports are deduplicated on permalink, and posts without one would be imported again
+  { field: 'permalink', label: 'Permalink', required: true, aliases: ['permalink', 'url', 'link', 'posturl'] },
+  { field: 'thumbnailUrl', label: 'Thumbnail URL', required: false, aliases: ['thumbnailurl', 'thumbnail', 'imageurl'] },
+  { field: 'likes', label: 'Likes', required: false, aliases: ['likes'] },
+  { field: 'comments', label: 'Comments', required: false, aliases: ['comments'] },
+  { field: 'shares', label: 'Shares', required: false, aliases: ['shares'] },
+  { field: 'saves', label: 'Saves', required: false, aliases: ['saves'] },
+  { field: 'impressions', label: 'Impressions', required: false, aliases: ['impressions', 'views'] },
+  { field: 'reach', label: 'Reach', required: false, aliases: ['reach'] },
+];
+
+const COUNTER_FIELDS: PostImportField[] = ['likes', 'comments', 'shares', 'saves', 'impressions', 'reach'];
+
+/**
+ * Column index for each mapped field; unmapped fields are absent
+ */
+export type ColumnMapping = Partial<Record<PostImportField, number>>;
+
+export type PostImportRow = Partial<Record<PostImportField, string | number>>;
+
+export interface ImportPreviewRow {
+  // Spreadsheet row number (the header is row 1)
+  row: number;
+  post: PostImportRow;
+  errors: string[];
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line breaks).
+ * A leading byte order mark is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggests a mapping by matching header names against each field's aliases.
+ * Every column is mapped to at most one field.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const { field, aliases } of POST_IMPORT_FIELDS) {
+    const column = normalized.findIndex((header, index) => !used.has(index) && aliases.includes(header));
+    if (column !== -1) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Converts a trimmed, non-empty cell to the value sent for a field.
+ */
+function toFieldValue(field: PostImportField, cell: string): string | number {
+  if (COUNTER_FIELDS.includes(field)) {
+    // Accept thousands separators ("1,234"); anything else non-numeric fails validation as text
+    const value = Number(cell.replace(/[,_\s]/g, ''));
+    return Number.isNaN(value) ? cell : value;
+  }
+
+  if (field === 'platform' || field === 'mediaType') {
+    return cell.toLowerCase();
+  }
+
+  if (field === 'caption') {
+    // Undo the formula guard added by our own CSV export, so exports re-import unchanged
+    return /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+  }
+
+  return cell;
+}
+
+/**
+ * Maps and validates the data rows of a CSV file (without its header row).
+ * Blank rows are skipped; each remaining row lists every problem found,
+ * including permalinks repeated within the file.
+ */
+export function buildImportPreview(rows: string[][], mapping: ColumnMapping): ImportPreviewRow[] {
+  const preview: ImportPreviewRow[] = [];
+  const permalinkRows = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) {
+      return;
+    }
+
+    const row = index + 2;
+    const post: PostImportRow = {};
+    const errors: string[] = [];
+
+    for (const { field, required } of POST_IMPORT_FIELDS) {
+      const column = mapping[field];
+      const cell = column === undefined ? '' : (cells[column] ?? '').trim();
+
+      if (cell === '') {
+        if (required) {
+          errors.push(`${field} is required`);
+        }
+        continue;
+      }
+
+      // Validate one field at a time, so the preview keeps the valid values of an invalid row
+      const value = toFieldValue(field, cell);
+      const { error } = validateUpdatePostPayload({ [field]: value });
+      if (error) {
+        errors.push(error);
+      } else {
+        post[field] = value;
+      }
+    }
+
+    if (typeof post.permalink === 'string') {
+      const firstRow = permalinkRows.get(post.permalink);
+      if (firstRow !== undefined) {
+        errors.push(`permalink duplicates row ${firstRow}`);
+      } else {
+        permalinkRows.set(post.permalink, row);
+      }
+    }
+
+    preview.push({ row, post, errors });
+  });
+
+  return preview;
+}
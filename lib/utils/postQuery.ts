@@ -0,0 +1,52 @@
+import type { createClient } from '@/lib/supabase/server';
+import type { InferSchema } from '@/lib/utils/requestSchema';
+import type { postListFiltersSchema } from '@/lib/utils/routeSchemas';
+import { addDays } from '@/lib/utils/dateRange';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Validated filters and ordering shared by GET /api/posts and GET /api/posts/export
+ * (see postListFiltersSchema), so an export always matches what the posts table lists.
+ */
+export type PostListQuery = InferSchema<typeof postListFiltersSchema>;
+
+/**
+ * Builds the filtered, ordered posts query for a workspace.
+ * Callers add pagination (keyset filter and limit) on top.
+ */
+export function buildPostListQuery(supabase: ServerClient, workspaceId: string, params: PostListQuery) {
+  // Defense-in-depth: Explicitly filter by workspace_id even though RLS enforces this
+  // This ensures data isolation at the application level as well as database level
+  let query = supabase
+    .from('posts')
+    .select('*')
+    .eq('workspace_id', workspaceId);
+
+  if (params.platform) {
+    query = query.eq('platform', params.platform);
+  }
+
+  if (params.mediaType) {
+    query = query.eq('media_type', params.mediaType);
+  }
+
+  if (params.startDate) {
+    query = query.gte('posted_at', params.startDate);
+  }
+
+  if (params.endDate) {
+    // endDate is inclusive: keep every post made before the following midnight
+    query = query.lt('posted_at', addDays(params.endDate, 1));
+  }
+
+  if (params.q) {
+    // websearch_to_tsquery never raises on malformed input, so raw user text is safe here
+    query = query.textSearch('caption', params.q, { type: 'websearch', config: 'english' });
+  }
+
+  const ascending = params.sortOrder === 'asc';
+  return query
+    .order(params.sortField, { ascending, nullsFirst: false })
+    .order('id', { ascending });
+}
@@ -0,0 +1,132 @@
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
+import { POST_MEDIA_TYPES, POST_PLATFORMS, POSTGRES_INTEGER_MAX } from '@/lib/utils/dbConstraints';
+import {
+  dateTimeField,
+  enumField,
+  integerField,
+  parseBody,
+  stringField,
+  urlField,
+  type InferSchema,
+  type SchemaResult,
+} from '@/lib/utils/requestSchema';
+
+export { POST_MEDIA_TYPES, POST_PLATFORMS } from '@/lib/utils/dbConstraints';
+
+/**
+ * Post payload validation shared by the posts API routes and the CSV import preview.
+ * Free of server-only imports, so it can also run in the browser.
+ */
+
+/**
+ * Post counter fields; each body field has the same name as its column.
+ */
+const POST_COUNTER_FIELDS = ['likes', 'comments', 'shares', 'saves', 'impressions', 'reach'] as const;
+
+const MAX_CAPTION_LENGTH = 5000;
+const MAX_URL_LENGTH = 2048;
+
+type PostWritePayload = Omit<TablesInsert<'posts'>, 'workspace_id' | 'user_id' | 'id' | 'created_at' | 'engagement_rate'>;
+type PostUpdatePayload = Omit<TablesUpdate<'posts'>, 'workspace_id' | 'user_id' | 'id' | 'created_at' | 'engagement_rate'>;
+
+/**
+ * Result of validating a request body: either the parsed payload or every field error,
+ * like parseBody (`error` repeats the first message; `details` is empty when the error is
+ * about the body as a whole).
+ */
+export type PayloadValidationResult<T> = SchemaResult<T>;
+
+const counterField = () => integerField({ minimum: 0, maximum: POSTGRES_INTEGER_MAX });
+
+/**
+ * Body of PATCH /api/posts/[id] (UpdatePostParams): every field optional.
+ * engagement_rate is not writable: the server recomputes it whenever counters change.
+ */
+export const updatePostBodySchema = {
+  platform: enumField(POST_PLATFORMS),
+  mediaType: enumField(POST_MEDIA_TYPES),
+  postedAt: dateTimeField(),
+  caption: stringField({ maxLength: MAX_CAPTION_LENGTH, nullable: true }),
+  thumbnailUrl: urlField({ maxLength: MAX_URL_LENGTH, nullable: true }),
+  permalink: urlField({ maxLength: MAX_URL_LENGTH, nullable: true }),
+  likes: counterField(),
+  comments: counterField(),
+  shares: counterField(),
+  saves: counterField(),
+  impressions: counterField(),
+  reach: counterField(),
+};
+
+/**
+ * Body of POST /api/posts (CreatePostParams) and of each post in POST /api/posts/import.
+ * The required fields are the NOT NULL posts columns without a default.
+ */
+export const createPostBodySchema = {
+  ...updatePostBodySchema,
+  platform: enumField(POST_PLATFORMS, { required: true }),
+  mediaType: enumField(POST_MEDIA_TYPES, { required: true }),
+  postedAt: dateTimeField({ required: true }),
+};
+
+/**
+ * posts column written from each body field
+ */
+export const POST_BODY_COLUMNS = {
+  platform: 'platform',
+  mediaType: 'media_type',
+  postedAt: 'posted_at',
+  caption: 'caption',
+  thumbnailUrl: 'thumbnail_url',
+  permalink: 'permalink',
+  ...Object.fromEntries(POST_COUNTER_FIELDS.map((field) => [field, field])),
+} as Record<keyof typeof updatePostBodySchema, keyof PostUpdatePayload>;
+
+/**
+ * Maps a parsed post body to posts columns.
+ * Only fields present on the body are copied into the payload.
+ */
+function toPostColumns(
+  body: InferSchema<typeof updatePostBodySchema>
+): PostUpdatePayload {
+  const payload: Record<string, unknown> = {};
+
+  for (const [field, column] of Object.entries(POST_BODY_COLUMNS)) {
+    const value = body[field as keyof typeof body];
+    if (value !== undefined) {
+      payload[column] = value;
+    }
+  }
+
+  return payload as PostUpdatePayload;
+}
+
+/**
+ * Validates the body of POST /api/posts (CreatePostParams).
+ * Any user id on the body is ignored; ownership always comes from the session.
+ */
+export function validateCreatePostPayload(body: unknown): PayloadValidationResult<PostWritePayload> {
+  const result = parseBody(createPostBodySchema, body);
+  if (result.error !== null) {
+    return result;
+  }
+
+  return { data: toPostColumns(result.data) as PostWritePayload, error: null };
+}
+
+/**
+ * Validates the body of PATCH /api/posts/[id] (UpdatePostParams).
+ * Requires at least one updatable field.
+ */
+export function validateUpdatePostPayload(body: unknown): PayloadValidationResult<PostUpdatePayload> {
+  const result = parseBody(updatePostBodySchema, body);
+  if (result.error !== null) {
+    return result;
+  }
+
+  const payload = toPostColumns(result.data);
+  if (Object.keys(payload).length === 0) {
+    return { data: null, error: 'No updatable fields provided', details: [] };
+  }
+
+  return { data: payload, error: null };
+}
@@ -0,0 +1,234 @@
+/**
+ * Fixed-window rate limiting for the API, and progressive lockout after failed logins.
+ *
+ * Counters live in a RateLimitStore. The default in-memory store suits local development and
+ * tests, but each server instance (and the middleware) keeps its own counters; deployments with
+ * several instances should plug in a shared store (e.g. Redis: INCR + PEXPIRE) with setRateLimitStore.
+ *
+ * Edge-safe, so the middleware can use it.
+ */
+
+export interface RateLimitCounter {
+  count: number;
+  // When the window ends and the counter resets (ms since epoch)
+  resetAt: number;
+}
+
+/**
+ * Where counters are kept. Implementations must expire a key once its window ends.
+ */
+export interface RateLimitStore {
+  // Adds 1 to `key`, starting a window of `windowMs` if it has none, and returns the counter
+  increment(key: string, windowMs: number, now: number): Promise<RateLimitCounter>;
+  get(key: string, now: number): Promise<RateLimitCounter | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Expired counters are swept once the in-memory store holds this many keys
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+/**
+ * A RateLimitStore in this process's memory
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>();
+
+  const sweep = (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+
+  return {
+    async increment(key, windowMs, now) {
+      const current = counters.get(key);
+      if (current && current.resetAt > now) {
+        current.count += 1;
+        return { ...current };
+      }
+
+      if (counters.size >= MEMORY_STORE_SWEEP_SIZE) {
+        sweep(now);
+      }
+      const counter = { count: 1, resetAt: now + windowMs };
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    async get(key, now) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > now ? { ...counter } : null;
+    },
+    async delete(key) {
+      counters.delete(key);
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+/**
+ * Replaces the store, e.g. with a shared one at startup
+ */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Requests allowed per window for each bucket
+ */
+export const RATE_LIMIT_RULES = {
+  // POST /api/auth/* from one IP
+  authIp: { limit: 20, windowMs: 60_000 },
+  // Sign-in, signup and emailed links for one email, whatever the IP
+  authEmail: { limit: 5, windowMs: 60_000 },
+  // Every other API request from one IP
+  apiIp: { limit: 300, windowMs: 60_000 },
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Auth routes whose body holds the `email` the per-email bucket counts
+ */
+export const EMAIL_RATE_LIMITED_ROUTES = [
+  '/api/auth/login',
+  '/api/auth/signup',
+  '/api/auth/magic-link',
+  '/api/auth/password/reset-request',
+];
+
+export interface RateLimitBucket {
+  key: string;
+  rule: RateLimitRule;
+}
+
+/**
+ * The client's IP: the first `x-forwarded-for` hop (set by the platform's proxy), then `x-real-ip`
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Buckets an API request counts against. `email` is the body's email for EMAIL_RATE_LIMITED_ROUTES.
+ */
+export function getRateLimitBuckets(
+  { method, pathname, ip }: { method: string; pathname: string; ip: string },
+  email?: string | null
+): RateLimitBucket[] {
+  if (!pathname.startsWith('/api/auth/') || method.toUpperCase() !== 'POST') {
+    return [{ key: `api-ip:${ip}`, rule: RATE_LIMIT_RULES.apiIp }];
+  }
+
+  const buckets = [{ key: `auth-ip:${ip}`, rule: RATE_LIMIT_RULES.authIp }];
+  if (email && EMAIL_RATE_LIMITED_ROUTES.includes(pathname)) {
+    buckets.push({ key: `auth-email:${email.trim().toLowerCase()}`, rule: RATE_LIMIT_RULES.authEmail });
+  }
+  return buckets;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the most restrictive exceeded bucket resets; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+const secondsUntil = (resetAt: number, now: number) => Math.max(1, Math.ceil((resetAt - now) / 1000));
+
+/**
+ * Counts a request against every bucket; it is allowed only if none is over its limit
+ */
+export async function consumeRateLimit(
+  rateLimitStore: RateLimitStore,
+  buckets: RateLimitBucket[],
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  let retryAfterSeconds = 0;
+
+  for (const { key, rule } of buckets) {
+    const counter = await rateLimitStore.increment(key, rule.windowMs, now);
+    if (counter.count > rule.limit) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(counter.resetAt, now));
+    }
+  }
+
+  return { allowed: retryAfterSeconds === 0, retryAfterSeconds };
+}
+
+/**
+ * Progressive lockout: after `threshold` failed logins for an account within `failureWindowMs`,
+ * each further failure locks the account for `baseLockoutMs`, doubling up to `maxLockoutMs`.
+ *
+ * Accounts are counted by email on sign-in. The current-password check of
+ * /api/auth/password/update counts the user id as well as the email.
+ */
+export const LOGIN_LOCKOUT = {
+  threshold: 5,
+  failureWindowMs: 60 * 60_000,
+  baseLockoutMs: 30_000,
+  maxLockoutMs: 15 * 60_000,
+};
+
+const failureKey = (account: string) => `login-failures:${account.trim().toLowerCase()}`;
+const lockoutKey = (account: string) => `login-lockout:${account.trim().toLowerCase()}`;
+
+/**
+ * `Too many failed sign-in attempts` with the wait, for a 429 RATE_LIMITED
+ */
+export function loginLockoutMessage(seconds: number): string {
+  return `Too many failed sign-in attempts. Try again in ${
+    seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`
+  }.`;
+}
+
+/**
+ * Seconds until a locked-out account (an email or a user id) may try again, or null when it isn't locked
+ */
+export async function getLoginLockout(
+  rateLimitStore: RateLimitStore,
+  account: string,
+  now: number = Date.now()
+): Promise<number | null> {
+  const lockout = await rateLimitStore.get(lockoutKey(account), now);
+  return lockout ? secondsUntil(lockout.resetAt, now) : null;
+}
+
+/**
+ * Counts a failed login. Returns the seconds of the lockout it starts, or null if none.
+ */
+export async function recordFailedLogin(
+  rateLimitStore: RateLimitStore,
+  account: string,
+  now: number = Date.now()
+): Promise<number | null> {
+  const failures = await rateLimitStore.increment(failureKey(account), LOGIN_LOCKOUT.failureWindowMs, now);
+  if (failures.count < LOGIN_LOCKOUT.threshold) {
+    return null;
+  }
+
+  const lockoutMs = Math.min(
+    LOGIN_LOCKOUT.baseLockoutMs * 2 ** (failures.count - LOGIN_LOCKOUT.threshold),
+    LOGIN_LOCKOUT.maxLockoutMs
+  );
+  // Locked accounts are refused before signing in, so no lockout window is running here
+  const lockout = await rateLimitStore.increment(lockoutKey(account), lockoutMs, now);
+  return secondsUntil(lockout.resetAt, now);
+}
+
+/**
+ * Forgets an account's failed logins, after it signs in
+ */
+export async function clearFailedLogins(rateLimitStore: RateLimitStore, account: string): Promise<void> {
+  await rateLimitStore.delete(failureKey(account));
+  await rateLimitStore.delete(lockoutKey(account));
+}
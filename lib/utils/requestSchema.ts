@@ -0,0 +1,346 @@
+import type { ApiFieldError } from '@/lib/utils/apiErrors';
+import {
+  validateDateParam,
+  validateSearchParam,
+  validateTimeZoneParam,
+  validateUuidParam,
+} from '@/lib/utils/paramValidation';
+
+/**
+ * Declarative request schemas: each route describes its query parameters or JSON body as
+ * a record of fields, and parseQuery / parseBody turn the raw request into typed input
+ * or field-level errors for the VALIDATION_FAILED envelope.
+ *
+ * Edge- and browser-safe, like paramValidation. The per-route schemas live in routeSchemas.ts
+ * (and postValidation.ts for post bodies); `meta` describes each field for the API docs.
+ */
+
+/**
+ * Where a value was read from. Query values are always strings, so numbers and lists
+ * are only parsed out of strings for `query`; body values must already have the right JSON type.
+ */
+export type RequestSource = 'query' | 'body';
+
+export interface FieldMeta {
+  type: 'string' | 'integer' | 'array';
+  format?: 'date' | 'date-time' | 'uuid' | 'uri' | 'time-zone';
+  // Allowed values (for arrays: allowed items)
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  required: boolean;
+  nullable: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+type FieldResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface FieldSchema<T> {
+  meta: FieldMeta;
+  // Parses the raw value (undefined when absent); `field` names the value in error messages
+  parse: (value: unknown, field: string, source: RequestSource) => FieldResult<T>;
+}
+
+interface FieldOptions<T> {
+  required?: boolean;
+  default?: T;
+  // Body fields only: accept an explicit null (e.g. to clear a column)
+  nullable?: boolean;
+  description?: string;
+}
+
+/**
+ * Parsed type of a field: absent optional fields are undefined, unless they have a default
+ */
+type FieldValue<T, O> =
+  | T
+  | (O extends { required: true } ? never : O extends { default: T } ? never : undefined)
+  | (O extends { nullable: true } ? null : never);
+
+export type RequestSchema = Record<string, FieldSchema<unknown>>;
+
+export type InferSchema<S extends RequestSchema> = {
+  [K in keyof S]: S[K] extends FieldSchema<infer T> ? T : never;
+};
+
+/**
+ * Either the parsed input or every field error; `error` repeats the first message
+ */
+export type SchemaResult<T> =
+  | { data: T; error: null; details?: undefined }
+  | { data: null; error: string; details: ApiFieldError[] };
+
+const ok = <T>(value: T): FieldResult<T> => ({ ok: true, value });
+const fail = (error: string): FieldResult<never> => ({ ok: false, error });
+
+/**
+ * Wraps a value parser with the handling every field shares: missing values, defaults and nulls
+ */
+function createField<T, O extends FieldOptions<T>>(
+  meta: Omit<FieldMeta, 'required' | 'nullable' | 'default' | 'description'>,
+  options: O | undefined,
+  parseValue: (value: unknown, field: string, source: RequestSource) => FieldResult<T>
+): FieldSchema<FieldValue<T, O>> {
+  const { required = false, nullable = false, description } = options ?? {};
+  const defaultValue = options?.default;
+
+  return {
+    meta: { ...meta, required, nullable, default: defaultValue, description },
+    parse: (value, field, source) => {
+      const missing = value === undefined || (source === 'query' && (value === null || value === ''));
+
+      if (missing || (value === null && required)) {
+        if (defaultValue !== undefined) {
+          return ok(defaultValue);
+        }
+        return required ? fail(`${field} is required`) : ok(undefined as FieldValue<T, O>);
+      }
+
+      if (value === null && nullable) {
+        return ok(null as FieldValue<T, O>);
+      }
+
+      return parseValue(value, field, source);
+    },
+  };
+}
+
+/**
+ * One of `values` (case-sensitive)
+ */
+export function enumField<const V extends string, const O extends FieldOptions<V> = object>(
+  values: readonly V[],
+  options?: O
+) {
+  return createField<V, O>({ type: 'string', enum: values }, options, (value, field) => {
+    const trimmed = typeof value === 'string' ? value.trim() : null;
+    return trimmed !== null && (values as readonly string[]).includes(trimmed)
+      ? ok(trimmed as V)
+      : fail(`${field} must be one of: ${values.join(', ')}`);
+  });
+}
+
+/**
+ * A comma-separated list (query) or array (body) of `values`, de-duplicated
+ */
+export function listField<const V extends string, const O extends FieldOptions<V[]> = object>(
+  values: readonly V[],
+  options?: O
+) {
+  return createField<V[], O>({ type: 'array', enum: values }, options, (value, field, source) => {
+    const items =
+      source === 'query' && typeof value === 'string'
+        ? value.split(',').map((item) => item.trim()).filter(Boolean)
+        : value;
+
+    if (!Array.isArray(items) || !items.every((item) => (values as readonly unknown[]).includes(item))) {
+      const separator = source === 'query' ? 'comma-separated list' : 'list';
+      return fail(`${field} must be a ${separator} of: ${values.join(', ')}`);
+    }
+
+    return ok(Array.from(new Set(items as V[])));
+  });
+}
+
+interface IntegerFieldOptions extends FieldOptions<number> {
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * A whole number within [minimum, maximum]
+ */
+export function integerField<const O extends IntegerFieldOptions = object>(options?: O) {
+  const { minimum, maximum } = options ?? {};
+
+  return createField<number, O>({ type: 'integer', minimum, maximum }, options, (value, field, source) => {
+    const number = source === 'query' && typeof value === 'string' && /^-?\d+$/.test(value.trim())
+      ? Number(value.trim())
+      : value;
+
+    if (typeof number !== 'number' || !Number.isInteger(number)) {
+      return fail(`${field} must be an integer`);
+    }
+
+    if (minimum !== undefined && number < minimum) {
+      return fail(minimum === 0 ? `${field} must not be negative` : `${field} must be at least ${minimum}`);
+    }
+
+    if (maximum !== undefined && number > maximum) {
+      return fail(`${field} must be at most ${maximum}`);
+    }
+
+    return ok(number);
+  });
+}
+
+interface StringFieldOptions extends FieldOptions<string> {
+  maxLength?: number;
+}
+
+/**
+ * Free text, kept as sent
+ */
+export function stringField<const O extends StringFieldOptions = object>(options?: O) {
+  const { maxLength } = options ?? {};
+
+  return createField<string, O>({ type: 'string', maxLength }, options, (value, field) => {
+    if (typeof value !== 'string') {
+      return fail(`${field} must be a string`);
+    }
+
+    if (maxLength !== undefined && value.length > maxLength) {
+      return fail(`${field} is too long`);
+    }
+
+    return ok(value);
+  });
+}
+
+/**
+ * A full-text search query: control characters are stripped and whitespace collapsed,
+ * and a query that is empty afterwards counts as absent
+ */
+export function searchField<const O extends StringFieldOptions = object>(options?: O) {
+  const { maxLength = 200 } = options ?? {};
+
+  return createField<string | undefined, O>({ type: 'string', maxLength }, options, (value, field) => {
+    if (typeof value !== 'string') {
+      return fail(`${field} must be a string`);
+    }
+
+    const sanitized = validateSearchParam(value, Infinity);
+    if (sanitized && sanitized.length > maxLength) {
+      return fail(`${field} must be at most ${maxLength} characters`);
+    }
+
+    return ok(sanitized ?? undefined);
+  });
+}
+
+/**
+ * An absolute http(s) URL
+ */
+export function urlField<const O extends StringFieldOptions = object>(options?: O) {
+  const { maxLength } = options ?? {};
+
+  return createField<string, O>({ type: 'string', format: 'uri', maxLength }, options, (value, field) => {
+    if (typeof value !== 'string') {
+      return fail(`${field} must be a string`);
+    }
+
+    if (maxLength !== undefined && value.length > maxLength) {
+      return fail(`${field} is too long`);
+    }
+
+    try {
+      const url = new URL(value);
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        return fail(`${field} must use http or https`);
+      }
+    } catch {
+      return fail(`${field} must be a valid URL`);
+    }
+
+    return ok(value);
+  });
+}
+
+/**
+ * A calendar date (YYYY-MM-DD)
+ */
+export function dateField<const O extends FieldOptions<string> = object>(options?: O) {
+  return createField<string, O>({ type: 'string', format: 'date' }, options, (value, field) => {
+    const date = typeof value === 'string' ? validateDateParam(value) : null;
+    return date ? ok(date) : fail(`${field} must be a YYYY-MM-DD date`);
+  });
+}
+
+/**
+ * A timestamp in any format Date parses, normalized to an ISO string in UTC
+ */
+export function dateTimeField<const O extends FieldOptions<string> = object>(options?: O) {
+  return createField<string, O>({ type: 'string', format: 'date-time' }, options, (value, field) => {
+    const time = typeof value === 'string' ? new Date(value).getTime() : NaN;
+    return isNaN(time) ? fail(`${field} must be a valid ISO date`) : ok(new Date(time).toISOString());
+  });
+}
+
+/**
+ * An IANA time zone name, canonicalized (e.g. `utc` becomes `UTC`)
+ */
+export function timeZoneField<const O extends FieldOptions<string> = object>(options?: O) {
+  return createField<string, O>({ type: 'string', format: 'time-zone' }, options, (value, field) => {
+    const timeZone = validateTimeZoneParam(value);
+    return timeZone ? ok(timeZone) : fail(`${field} must be an IANA time zone name, e.g. Europe/Paris`);
+  });
+}
+
+/**
+ * A UUID, lowercased
+ */
+export function uuidField<const O extends FieldOptions<string> = object>(options?: O) {
+  return createField<string, O>({ type: 'string', format: 'uuid' }, options, (value, field) => {
+    const id = typeof value === 'string' ? validateUuidParam(value) : null;
+    return id ? ok(id) : fail(`${field} must be a UUID`);
+  });
+}
+
+function parseFields<S extends RequestSchema>(
+  schema: S,
+  read: (field: string) => unknown,
+  source: RequestSource
+): SchemaResult<InferSchema<S>> {
+  const data: Record<string, unknown> = {};
+  const details: ApiFieldError[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const result = fieldSchema.parse(read(field), field, source);
+    if (result.ok) {
+      data[field] = result.value;
+    } else {
+      details.push({ field, message: result.error });
+    }
+  }
+
+  if (details.length > 0) {
+    return { data: null, error: details[0].message, details };
+  }
+
+  return { data: data as InferSchema<S>, error: null };
+}
+
+/**
+ * Parses query parameters; parameters the schema doesn't list are ignored
+ */
+export function parseQuery<S extends RequestSchema>(
+  schema: S,
+  searchParams: URLSearchParams
+): SchemaResult<InferSchema<S>> {
+  return parseFields(schema, (field) => searchParams.get(field), 'query');
+}
+
+/**
+ * Parses dynamic route segments (e.g. the `id` of /api/posts/[id])
+ */
+export function parseParams<S extends RequestSchema>(
+  schema: S,
+  params: Record<string, string | string[] | undefined>
+): SchemaResult<InferSchema<S>> {
+  return parseFields(schema, (field) => params[field], 'query');
+}
+
+/**
+ * Parses a JSON body, which must be an object; properties the schema doesn't list
+ * (e.g. a user_id) are ignored
+ */
+export function parseBody<S extends RequestSchema>(schema: S, body: unknown): SchemaResult<InferSchema<S>> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { data: null, error: 'Request body must be a JSON object', details: [] };
+  }
+
+  const fields = body as Record<string, unknown>;
+  return parseFields(schema, (field) => fields[field], 'body');
+}
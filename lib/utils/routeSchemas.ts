@@ -0,0 +1,189 @@
+import { API_TOKEN_SCOPES, MAX_API_TOKEN_LIFETIME_DAYS } from '@/lib/utils/apiTokens';
+import { POST_MEDIA_TYPES, POST_PLATFORMS, WORKSPACE_ROLES } from '@/lib/utils/dbConstraints';
+import { COMPARISON_MODES } from '@/lib/utils/dateRange';
+import { DAILY_METRIC_GRANULARITIES, DAILY_METRIC_KEYS } from '@/lib/utils/dailyMetrics';
+import { EXPORT_FORMATS } from '@/lib/utils/export';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/utils/pagination';
+import {
+  dateField,
+  enumField,
+  integerField,
+  listField,
+  searchField,
+  stringField,
+  timeZoneField,
+  uuidField,
+} from '@/lib/utils/requestSchema';
+
+/**
+ * Query, path and body schemas for each API route (post bodies live in postValidation.ts,
+ * which the browser also uses). Edge-safe, so /api/v1/metrics/daily can import them.
+ */
+
+/**
+ * Sortable posts columns
+ */
+export const POST_SORT_FIELDS = [
+  'posted_at',
+  'impressions',
+  'likes',
+  'comments',
+  'shares',
+  'reach',
+  'engagement_rate',
+  'platform',
+  'media_type',
+] as const;
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+// Cursors are short base64 strings; anything longer is not one of ours
+const MAX_CURSOR_LENGTH = 1024;
+
+/**
+ * Filters and ordering shared by GET /api/posts and GET /api/posts/export,
+ * so an export always matches what the posts table lists
+ */
+export const postListFiltersSchema = {
+  platform: enumField(POST_PLATFORMS),
+  mediaType: enumField(POST_MEDIA_TYPES),
+  startDate: dateField(),
+  endDate: dateField(),
+  q: searchField(),
+  sortField: enumField(POST_SORT_FIELDS, { default: 'posted_at' }),
+  sortOrder: enumField(SORT_ORDERS, { default: 'desc' }),
+};
+
+/**
+ * GET /api/posts
+ */
+export const postsListQuerySchema = {
+  ...postListFiltersSchema,
+  limit: integerField({ minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }),
+  cursor: stringField({ maxLength: MAX_CURSOR_LENGTH }),
+};
+
+/**
+ * GET /api/posts/export
+ */
+export const postsExportQuerySchema = {
+  ...postListFiltersSchema,
+  format: enumField(EXPORT_FORMATS, { default: 'csv' }),
+};
+
+/**
+ * Path parameters of /api/posts/[id]
+ */
+export const postIdParamsSchema = {
+  id: uuidField({ required: true }),
+};
+
+/**
+ * GET /api/analytics/summary. The dates default to the last 30 days, which depend on
+ * the current date, so the route fills them in.
+ */
+export const analyticsSummaryQuerySchema = {
+  startDate: dateField(),
+  endDate: dateField(),
+  compareTo: enumField(
+    COMPARISON_MODES.map((mode) => mode.value),
+    { default: 'previous' }
+  ),
+};
+
+/**
+ * GET /api/v1/metrics/daily (and its deprecated aliases)
+ */
+export const dailyMetricsQuerySchema = {
+  startDate: dateField(),
+  endDate: dateField(),
+  metrics: listField(DAILY_METRIC_KEYS),
+  granularity: enumField(DAILY_METRIC_GRANULARITIES, { default: 'day' }),
+};
+
+/**
+ * POST /api/daily-metrics/recompute. `timezone`, when sent, must be the workspace's.
+ */
+export const recomputeDailyMetricsBodySchema = {
+  startDate: dateField({ required: true }),
+  endDate: dateField({ required: true }),
+  timezone: timeZoneField(),
+};
+
+/**
+ * POST /api/auth/magic-link and /api/auth/password/reset-request. validateEmail checks the contents.
+ */
+export const emailBodySchema = {
+  email: stringField({ required: true, maxLength: 254 }),
+};
+
+/**
+ * POST /api/auth/login and /api/auth/signup. Only the shape is checked here;
+ * validateEmail / validateSignupCredentials check the contents.
+ */
+export const credentialsBodySchema = {
+  ...emailBodySchema,
+  password: stringField({ required: true, maxLength: 1024 }),
+};
+
+/**
+ * POST /api/auth/password/update. currentPassword is sent by the settings form and omitted
+ * after a reset link (the route checks which applies); validatePasswordUpdate checks the contents.
+ */
+export const passwordUpdateBodySchema = {
+  password: stringField({ required: true, maxLength: 1024 }),
+  currentPassword: stringField({ maxLength: 1024 }),
+};
+
+/**
+ * POST /api/tokens. Without expiresInDays the token never expires.
+ */
+export const createApiTokenBodySchema = {
+  name: stringField({ required: true, maxLength: 100 }),
+  scopes: listField(API_TOKEN_SCOPES, { required: true }),
+  expiresInDays: integerField({ minimum: 1, maximum: MAX_API_TOKEN_LIFETIME_DAYS }),
+};
+
+/**
+ * Path parameters of /api/tokens/[id]
+ */
+export const apiTokenIdParamsSchema = {
+  id: uuidField({ required: true }),
+};
+
+/**
+ * POST /api/workspaces
+ */
+export const createWorkspaceBodySchema = {
+  name: stringField({ required: true, maxLength: 100 }),
+};
+
+/**
+ * PATCH /api/workspace
+ */
+export const updateWorkspaceBodySchema = {
+  timezone: timeZoneField({ required: true }),
+};
+
+/**
+ * POST /api/workspace/members. Invites this email, or changes the role of the member
+ * who has it; validateEmail checks the contents.
+ */
+export const addWorkspaceMemberBodySchema = {
+  ...emailBodySchema,
+  role: enumField(WORKSPACE_ROLES, { required: true }),
+};
+
+/**
+ * Path parameters of /api/workspace/members/[userId]
+ */
+export const workspaceMemberParamsSchema = {
+  userId: uuidField({ required: true }),
+};
+
+/**
+ * Path parameters of /api/workspaces/invitations/[id]
+ */
+export const workspaceInvitationParamsSchema = {
+  id: uuidField({ required: true }),
+};
@@ -0,0 +1,59 @@
+/**
+ * Helpers for caption search highlighting.
+ *
+ * The API matches captions with Postgres `websearch_to_tsquery`, which stems
+ * words ("launch" also matches "launching"). Highlighting approximates that by
+ * marking every word that starts with one of the search terms.
+ */
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Websearch operators that are not part of the searched text
+const WEBSEARCH_OPERATORS = ['or', 'and'];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extracts the positive search terms from a websearch-style query.
+ * Quotes and operators are dropped, and negated terms (`-word`) are skipped.
+ */
+export function getSearchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith('-'))
+    .map((term) => term.replace(/["']/g, '').toLowerCase())
+    .filter((term) => term.length > 0 && !WEBSEARCH_OPERATORS.includes(term));
+}
+
+/**
+ * Splits `text` into segments, flagging words that start with a search term.
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const found of text.matchAll(pattern)) {
+    const index = found.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    lastIndex = index + found[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return segments;
+}
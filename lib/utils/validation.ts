@@ -1,14 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import type { User } from '@supabase/supabase-js';
+import { createClient, createTokenClient, type ServerClient } from '@/lib/supabase/server';
+import type { AMREntry, JwtPayload, User } from '@supabase/supabase-js';
+import { sanitizeError } from '@/lib/utils/paramValidation';
+import { apiError } from '@/lib/utils/apiResponse';
+import {
+  getRequiredScope,
+  hashApiToken,
+  parseBearerToken,
+  signAccessToken,
+  type ApiTokenScope,
+} from '@/lib/utils/apiTokens';
+import {
+  checkPasswordRules,
+  getPasswordPolicy,
+  MAX_PASSWORD_LENGTH,
+  type PasswordPolicy,
+} from '@/lib/utils/passwordPolicy';
+import {
+  ACTIVE_WORKSPACE_COOKIE,
+  getRequiredWorkspaceRole,
+  getWorkspaceMemberships,
+  hasWorkspaceRole,
+  pickActiveWorkspace,
+  WORKSPACE_HEADER,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from '@/lib/utils/workspaces';
+
+/**
+ * Who a protected route runs as
+ */
+export interface AuthContext {
+  user: User;
+  // Acts as `user`, so RLS applies: the session's client, or one signed for the API token's owner
+  supabase: ServerClient;
+  // Scopes of the API token the request was made with; null for cookie sessions, which may do anything
+  scopes: ApiTokenScope[] | null;
+  // The workspace the request acts on (see resolveWorkspace) and the user's role in it
+  workspace: WorkspaceMembership;
+}
+
+export interface AuthOptions {
+  // False for routes an API token must never reach, such as managing the tokens themselves
+  allowApiTokens?: boolean;
+  // Least role needed in the active workspace; defaults to getRequiredWorkspaceRole(method).
+  // Null for routes that don't touch workspace data, such as the user's own settings.
+  role?: WorkspaceRole | null;
+}
+
+type AuthResult = { error: NextResponse; auth: null } | { error: null; auth: AuthContext };
+
+type IdentityResult =
+  | { error: NextResponse; identity: null }
+  | { error: null; identity: Omit<AuthContext, 'workspace'> };
 
 /**
  * Checks if a user is authenticated and returns the user.
  * Returns null if not authenticated.
  */
-export async function getAuthenticatedUser() {
+export async function getAuthenticatedUser(client?: ServerClient) {
   try {
-    const supabase = await createClient();
+    const supabase = client ?? (await createClient());
     const { data: { user }, error } = await supabase.auth.getUser();
     
     if (error || !user) {
@@ -22,119 +74,176 @@ export async function getAuthenticatedUser() {
 }
 
 /**
- * Returns an unauthorized response if user is not authenticated.
- * Otherwise returns the authenticated user.
+ * Resolves an `Authorization: Bearer` API token to its owner (see apiTokens.ts).
+ * Unknown, expired and revoked tokens are all rejected with the same 401.
  */
-export async function requireAuth() {
-  const user = await getAuthenticatedUser();
-  
+async function authenticateApiToken(request: NextRequest, token: string): Promise<IdentityResult> {
+  const unauthorized = () => ({ error: apiError(request, 'UNAUTHORIZED', 'Invalid or expired API token'), identity: null });
+
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+  if (!jwtSecret) {
+    // Log detailed error server-side only
+    console.error('API token rejected: SUPABASE_JWT_SECRET is not set');
+    return { error: apiError(request, 'INTERNAL', 'API tokens are not enabled'), identity: null };
+  }
+
+  // SECURITY DEFINER lookup by hash, which also records the use (see api_tokens.sql)
+  const { data: matches, error: lookupError } = await createTokenClient().rpc('authenticate_api_token', {
+    p_token_hash: await hashApiToken(token),
+  });
+
+  if (lookupError) {
+    // Log detailed error server-side only
+    console.error('API token lookup error:', lookupError);
+    return { error: apiError(request, 'INTERNAL', 'Failed to verify API token'), identity: null };
+  }
+
+  const match = matches?.[0];
+  if (!match) {
+    return unauthorized();
+  }
+
+  const accessToken = await signAccessToken(match.user_id, jwtSecret);
+  const supabase = createTokenClient(accessToken);
+  const { data: { user } } = await supabase.auth.getUser(accessToken);
   if (!user) {
+    return unauthorized();
+  }
+
+  const scopes = match.scopes as ApiTokenScope[];
+  const requiredScope = getRequiredScope(request.method);
+  if (!scopes.includes(requiredScope)) {
     return {
-      error: NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      ),
-      user: null,
+      error: apiError(request, 'FORBIDDEN', `This API token does not have the ${requiredScope} scope`),
+      identity: null,
     };
   }
-  
-  return { error: null, user };
+
+  return { error: null, identity: { user, supabase, scopes } };
 }
 
 /**
- * Sanitizes error messages to prevent information leakage in production.
- * Only returns detailed errors in development.
+ * Who is calling: the API token's owner, or the cookie session's user
  */
-export function sanitizeError(error: unknown, genericMessage: string): string {
-  const isDevelopment = process.env.NODE_ENV === 'development';
+async function authenticate(request: NextRequest | undefined, options: AuthOptions): Promise<IdentityResult> {
+  const token = parseBearerToken(request?.headers.get('authorization'));
+
+  if (request && token !== null) {
+    if (options.allowApiTokens === false) {
+      return { error: apiError(request, 'FORBIDDEN', 'API tokens cannot be used for this route'), identity: null };
+    }
+    return authenticateApiToken(request, token);
+  }
+
+  const supabase = await createClient();
+  const user = await getAuthenticatedUser(supabase);
   
-  if (isDevelopment) {
-    return error instanceof Error ? error.message : genericMessage;
+  if (!user) {
+    return {
+      error: apiError(request ?? null, 'UNAUTHORIZED', 'Unauthorized'),
+      identity: null,
+    };
   }
   
-  return genericMessage;
+  return { error: null, identity: { user, supabase, scopes: null } };
 }
 
 /**
- * Validates and sanitizes query parameters to prevent injection attacks.
+ * The workspace a request acts on: the one named by the `x-workspace-id` header, else by the
+ * switcher's cookie, else the user's oldest. A header naming a workspace the user isn't a member
+ * of is refused; a stale cookie (e.g. after leaving that workspace) falls back to the oldest.
+ *
+ * Users who belong to no workspace (e.g. after deleting their own) get a new personal one
+ * when signed in with a session; API tokens never create workspaces.
  */
-export function validateStringParam(value: string | null, allowedValues?: string[]): string | null {
-  if (!value || typeof value !== 'string') {
-    return null;
+async function resolveWorkspace(
+  request: NextRequest | undefined,
+  { user, supabase, scopes }: Omit<AuthContext, 'workspace'>
+): Promise<{ error: NextResponse; workspace: null } | { error: null; workspace: WorkspaceMembership }> {
+  const { data: memberships, error: membershipsError } = await getWorkspaceMemberships(supabase, user.id);
+
+  if (membershipsError) {
+    // Log detailed error server-side only
+    console.error('Workspace lookup error:', membershipsError);
+    return { error: apiError(request ?? null, 'INTERNAL', 'Failed to load workspaces'), workspace: null };
   }
-  
-  // Remove any potential SQL injection characters
-  const sanitized = value.trim();
-  
-  // If allowed values are specified, check against them
-  if (allowedValues && allowedValues.length > 0) {
-    return allowedValues.includes(sanitized) ? sanitized : null;
+
+  const requestedId = request?.headers.get(WORKSPACE_HEADER);
+  if (requestedId) {
+    const workspace = pickActiveWorkspace(memberships, requestedId);
+    return workspace
+      ? { error: null, workspace }
+      : { error: apiError(request ?? null, 'FORBIDDEN', 'You are not a member of this workspace'), workspace: null };
   }
-  
-  // Basic sanitization: only allow alphanumeric, dash, underscore, and spaces
-  if (/^[a-zA-Z0-9_\-\s]+$/.test(sanitized)) {
-    return sanitized;
+
+  const workspace =
+    pickActiveWorkspace(memberships, request?.cookies.get(ACTIVE_WORKSPACE_COOKIE)?.value) ??
+    pickActiveWorkspace(memberships);
+  if (workspace) {
+    return { error: null, workspace };
   }
-  
-  return null;
-}
 
-/**
- * Validates date strings to ensure they're in ISO format.
- */
-export function validateDateParam(value: string | null): string | null {
-  if (!value || typeof value !== 'string') {
-    return null;
+  if (scopes !== null) {
+    return { error: apiError(request ?? null, 'FORBIDDEN', 'You are not a member of any workspace'), workspace: null };
   }
-  
-  const sanitized = value.trim();
-  
-  // Validate ISO date format (YYYY-MM-DD)
-  if (/^\d{4}-\d{2}-\d{2}$/.test(sanitized)) {
-    // Additional validation: check if it's a valid date
-    const date = new Date(sanitized);
-    if (!isNaN(date.getTime())) {
-      return sanitized;
-    }
+
+  const { data: created, error: createError } = await supabase.rpc('create_workspace', { p_name: 'Personal' });
+  if (createError || !created) {
+    // Log detailed error server-side only
+    console.error('Workspace creation error:', createError);
+    return { error: apiError(request ?? null, 'INTERNAL', 'Failed to create a workspace'), workspace: null };
   }
-  
-  return null;
+
+  return { error: null, workspace: { id: created.id, name: created.name, timezone: created.timezone, role: 'owner' } };
 }
 
 /**
- * Validates sort order parameter.
+ * Returns an unauthorized response if user is not authenticated.
+ * Otherwise returns the authenticated user, a client acting as them and their active workspace.
+ * Returns a forbidden response if their role there is below the one the route needs.
+ *
+ * A request with an `Authorization: Bearer` header is authenticated by that API token only,
+ * never by the cookie session.
  */
-export function validateSortOrder(value: string | null): 'asc' | 'desc' {
-  if (value === 'asc' || value === 'desc') {
-    return value;
+export async function requireAuth(request?: NextRequest, options: AuthOptions = {}): Promise<AuthResult> {
+  const { error: identityError, identity } = await authenticate(request, options);
+
+  if (identityError) {
+    return { error: identityError, auth: null };
   }
-  return 'desc';
-}
 
-/**
- * Allowed platform values for validation
- */
-export const ALLOWED_PLATFORMS = ['all', 'instagram', 'facebook', 'twitter', 'linkedin', 'tiktok', 'youtube'];
+  const { error: workspaceError, workspace } = await resolveWorkspace(request, identity);
 
-/**
- * Allowed media type values for validation
- */
-export const ALLOWED_MEDIA_TYPES = ['all', 'image', 'video', 'carousel', 'reel', 'story'];
+  if (workspaceError) {
+    return { error: workspaceError, auth: null };
+  }
 
-/**
- * Allowed sort fields for posts
- */
-export const ALLOWED_POST_SORT_FIELDS = [
-  'posted_at',
-  'impressions',
-  'likes',
-  'comments',
-  'shares',
-  'reach',
-  'engagement_rate',
-  'platform',
-  'media_type',
-];
+  const requiredRole = options.role === undefined ? getRequiredWorkspaceRole(request?.method ?? 'GET') : options.role;
+  if (requiredRole !== null && !hasWorkspaceRole(workspace.role, requiredRole)) {
+    return {
+      error: apiError(request ?? null, 'FORBIDDEN', `This requires the ${requiredRole} role in the workspace`),
+      auth: null,
+    };
+  }
+
+  return { error: null, auth: { ...identity, workspace } };
+}
+
+export {
+  sanitizeError,
+  validateDateParam,
+  validateSearchParam,
+  validateTimeZoneParam,
+  validateUuidParam,
+} from '@/lib/utils/paramValidation';
+
+export {
+  POST_PLATFORMS,
+  POST_MEDIA_TYPES,
+  validateCreatePostPayload,
+  validateUpdatePostPayload,
+  type PayloadValidationResult,
+} from '@/lib/utils/postValidation';
 
 /**
  * Validates email format.
@@ -158,10 +267,10 @@ export function validateEmail(email: unknown): string | null {
 }
 
 /**
- * Validates password requirements.
- * Returns null if valid, error message if invalid.
+ * Validates a new password against the password policy (see passwordPolicy.ts).
+ * Returns null if valid, the message of the first failed rule if invalid.
  */
-export function validatePassword(password: unknown): string | null {
+export function validatePassword(password: unknown, policy: PasswordPolicy = getPasswordPolicy()): string | null {
   if (!password) {
     return 'Password is required';
   }
@@ -170,16 +279,13 @@ export function validatePassword(password: unknown): string | null {
     return 'Password must be a string';
   }
 
-  if (password.length < 6) {
-    return 'Password must be at least 6 characters';
-  }
-
   // Prevent very long passwords (potential DoS)
-  if (password.length > 128) {
+  if (password.length > MAX_PASSWORD_LENGTH) {
     return 'Password is too long';
   }
 
-  return null;
+  const failedRule = checkPasswordRules(password, policy).find((result) => !result.passed);
+  return failedRule ? failedRule.message : null;
 }
 
 /**
@@ -201,44 +307,83 @@ export function validateSignupCredentials(email: unknown, password: unknown): st
 }
 
 /**
- * Type for protected route handlers that require authentication
+ * Validates a new password, and that it differs from the current one when that is given.
+ * Returns null if valid, error message if invalid.
+ */
+export function validatePasswordUpdate(password: unknown, currentPassword?: unknown): string | null {
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return passwordError;
+  }
+
+  if (currentPassword !== undefined && password === currentPassword) {
+    return 'New password must be different from your current password';
+  }
+
+  return null;
+}
+
+/**
+ * How long after following a reset link a session may set a new password without the current one
+ */
+export const RECOVERY_SESSION_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Whether the session was signed in by a password reset link less than
+ * RECOVERY_SESSION_MAX_AGE_SECONDS ago, from the `recovery` entry of its access token's `amr` claim.
+ * Any other session must confirm the current password to change it.
+ */
+export function isRecentRecoverySession(amr: JwtPayload['amr'], now: number = Date.now()): boolean {
+  const entries: (AMREntry | string)[] = amr ?? [];
+
+  return entries.some(
+    (entry) =>
+      typeof entry === 'object' &&
+      entry.method === 'recovery' &&
+      now / 1000 - entry.timestamp <= RECOVERY_SESSION_MAX_AGE_SECONDS
+  );
+}
+
+/**
+ * Type for protected route handlers that require authentication.
+ * `context` is the route segment context Next.js passes to dynamic routes (e.g. `{ params }`).
  */
-type ProtectedRouteHandler = (
+type ProtectedRouteHandler<TContext = unknown> = (
   request: NextRequest,
-  user: User
+  auth: AuthContext,
+  context: TContext
 ) => Promise<NextResponse> | NextResponse;
 
 /**
  * Higher-order function that wraps a route handler with authentication.
- * Automatically checks if user is authenticated before executing the handler.
- * Returns 401 Unauthorized if user is not authenticated.
+ * Automatically checks if user is authenticated (by cookie session or API token)
+ * before executing the handler, and passes the handler a client acting as that user.
+ * Returns 401 UNAUTHORIZED if user is not authenticated, and 403 FORBIDDEN if the
+ * API token lacks the scope the method needs or the user's workspace role is too low.
+ *
+ * The Edge route /api/v1/metrics/daily uses it too, so this module and everything it imports
+ * must not use Node.js APIs.
  * 
  * @example
- * export const GET = withAuth(async (request, user) => {
+ * export const GET = withAuth(async (request, { user, supabase, workspace }) => {
  *   // Your protected route logic here
- *   return NextResponse.json({ data: 'protected data' });
+ *   return apiSuccess(request, 'protected data');
  * });
  */
-export function withAuth(handler: ProtectedRouteHandler) {
-  return async (request: NextRequest): Promise<NextResponse> => {
+export function withAuth<TContext = unknown>(handler: ProtectedRouteHandler<TContext>, options: AuthOptions = {}) {
+  return async (request: NextRequest, context: TContext): Promise<NextResponse> => {
     try {
-      const { error: authError, user } = await requireAuth();
+      const { error: authError, auth } = await requireAuth(request, options);
       
-      if (authError || !user) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
+      if (authError) {
+        return authError;
       }
       
-      return await handler(request, user);
+      return await handler(request, auth, context);
     } catch (error) {
       console.error('Protected route error:', error);
       const errorMessage = sanitizeError(error, 'An error occurred processing the request');
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: 500 }
-      );
+      return apiError(request, 'INTERNAL', errorMessage);
     }
   };
 }
@@ -0,0 +1,96 @@
+import type { ServerClient } from '@/lib/supabase/server';
+import { WORKSPACE_ROLES, type WorkspaceRole } from '@/lib/utils/dbConstraints';
+
+/**
+ * Team workspaces: posts and daily metrics belong to a workspace, which its members share
+ * with a role (see workspaces.sql). withAuth resolves the active workspace of each request.
+ *
+ * Client-safe apart from getWorkspaceMemberships: the switcher sets the active workspace cookie.
+ */
+
+export { WORKSPACE_ROLES, type WorkspaceRole };
+
+/**
+ * Cookie holding the id of the workspace the dashboard shows
+ */
+export const ACTIVE_WORKSPACE_COOKIE = 'active_workspace';
+
+/**
+ * Header choosing the workspace of one request (e.g. from an API token script); wins over the cookie
+ */
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  analyst: 'Analyst',
+  viewer: 'Viewer',
+};
+
+/**
+ * A workspace the user belongs to, with their role in it
+ */
+export interface WorkspaceMembership {
+  id: string;
+  name: string;
+  // IANA time zone the workspace's daily_metrics are bucketed in
+  timezone: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * Whether `role` grants at least what `required` does (owner > admin > analyst > viewer)
+ */
+export function hasWorkspaceRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) <= WORKSPACE_ROLES.indexOf(required);
+}
+
+/**
+ * Least role a request method needs in the active workspace: any member can read,
+ * analysts and up change data. Matches the posts and daily_metrics policies.
+ */
+export function getRequiredWorkspaceRole(method: string): WorkspaceRole {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'viewer' : 'analyst';
+}
+
+/**
+ * The membership `requestedId` names, or the first one (the oldest) when none is requested.
+ * Null when the user isn't a member of the requested workspace, or of any.
+ */
+export function pickActiveWorkspace<T extends { id: string }>(
+  memberships: T[],
+  requestedId?: string | null
+): T | null {
+  if (requestedId) {
+    return memberships.find((membership) => membership.id === requestedId) ?? null;
+  }
+  return memberships[0] ?? null;
+}
+
+/**
+ * Workspaces `userId` belongs to, oldest membership first
+ */
+export async function getWorkspaceMemberships(
+  supabase: ServerClient,
+  userId: string
+): Promise<{ data: WorkspaceMembership[]; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspace:workspaces(id, name, timezone)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { data: [], error };
+  }
+
+  return {
+    data: (data ?? []).map(({ role, workspace }) => ({
+      id: workspace.id,
+      name: workspace.name,
+      timezone: workspace.timezone,
+      role: role as WorkspaceRole,
+    })),
+    error: null,
+  };
+}
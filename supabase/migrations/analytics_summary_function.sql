@@ -0,0 +1,146 @@
+-- Aggregates the analytics summary (GET /api/analytics/summary) in one round trip.
+--
+-- Returns JSONB:
+--   current:   summary metrics for posts in [p_start_date, p_end_date]
+--   previous:  the same metrics for [p_compare_start_date, p_compare_end_date],
+--              or NULL when no comparison period is given
+--   topPost:   the current period's post with the most engagement
+--   breakdown: current-period metrics grouped by platform and by media_type,
+--              each with its share of the period's total engagement
+--
+-- Date bounds are inclusive calendar days. Engagement is likes + comments + shares + saves.
+--
+-- SECURITY INVOKER keeps RLS in force, and rows are additionally scoped to
+-- auth.uid(), so callers can only ever aggregate their own posts.
+--
+-- Superseded by the workspace-scoped version in workspace_functions.sql.
+CREATE OR REPLACE FUNCTION get_analytics_summary(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_compare_start_date DATE DEFAULT NULL,
+  p_compare_end_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      p.id,
+      p.caption,
+      p.platform,
+      p.media_type,
+      p.posted_at,
+      p.likes,
+      p.comments,
+      p.shares,
+      p.reach,
+      p.impressions,
+      p.engagement_rate,
+      COALESCE(p.likes, 0) + COALESCE(p.comments, 0) + COALESCE(p.shares, 0) + COALESCE(p.saves, 0) AS engagement,
+      CASE
+        WHEN p.posted_at >= p_start_date AND p.posted_at < p_end_date + 1 THEN 'current'
+        ELSE 'previous'
+      END AS period
+    FROM posts p
+    WHERE p.user_id = auth.uid()
+      AND (
+        (p.posted_at >= p_start_date AND p.posted_at < p_end_date + 1)
+        OR (
+          p_compare_start_date IS NOT NULL
+          AND p.posted_at >= p_compare_start_date
+          AND p.posted_at < p_compare_end_date + 1
+        )
+      )
+  ),
+  grouped AS (
+    SELECT
+      period,
+      platform,
+      media_type,
+      GROUPING(platform) = 0 AS by_platform,
+      GROUPING(media_type) = 0 AS by_media_type,
+      COALESCE(SUM(engagement), 0) AS total_engagements,
+      jsonb_build_object(
+        'totalPosts', COUNT(*),
+        'totalViews', COALESCE(SUM(impressions), 0),
+        'totalEngagements', COALESCE(SUM(engagement), 0),
+        -- AVG skips posts without an engagement rate
+        'averageEngagementRate', COALESCE(ROUND(AVG(engagement_rate), 2), 0),
+        'totalReach', COALESCE(SUM(reach), 0),
+        'totalLikes', COALESCE(SUM(likes), 0),
+        'totalComments', COALESCE(SUM(comments), 0),
+        'totalShares', COALESCE(SUM(shares), 0)
+      ) AS metrics
+    FROM scoped
+    GROUP BY GROUPING SETS ((period), (period, platform), (period, media_type))
+  ),
+  totals AS (
+    SELECT period, total_engagements, metrics
+    FROM grouped
+    WHERE NOT by_platform AND NOT by_media_type
+  ),
+  empty AS (
+    SELECT jsonb_build_object(
+      'totalPosts', 0,
+      'totalViews', 0,
+      'totalEngagements', 0,
+      'averageEngagementRate', 0,
+      'totalReach', 0,
+      'totalLikes', 0,
+      'totalComments', 0,
+      'totalShares', 0
+    ) AS metrics
+  ),
+  breakdown AS (
+    SELECT
+      g.by_platform,
+      jsonb_agg(
+        jsonb_build_object('key', CASE WHEN g.by_platform THEN g.platform ELSE g.media_type END)
+          || g.metrics
+          || jsonb_build_object(
+            'engagementShare',
+            COALESCE(ROUND(g.total_engagements * 100.0 / NULLIF(t.total_engagements, 0), 1), 0)
+          )
+        ORDER BY g.total_engagements DESC
+      ) AS entries
+    FROM grouped g
+    JOIN totals t ON t.period = g.period
+    WHERE g.period = 'current' AND (g.by_platform OR g.by_media_type)
+    GROUP BY g.by_platform
+  )
+  SELECT jsonb_build_object(
+    'current', COALESCE(
+      (SELECT metrics FROM totals WHERE period = 'current'),
+      (SELECT metrics FROM empty)
+    ),
+    'previous', CASE
+      WHEN p_compare_start_date IS NULL THEN NULL
+      ELSE COALESCE(
+        (SELECT metrics FROM totals WHERE period = 'previous'),
+        (SELECT metrics FROM empty)
+      )
+    END,
+    'topPost', (
+      SELECT jsonb_build_object(
+        'id', id,
+        'caption', COALESCE(caption, 'No caption'),
+        'engagement', engagement,
+        'postedAt', posted_at
+      )
+      FROM scoped
+      WHERE period = 'current'
+      ORDER BY engagement DESC, posted_at ASC
+      LIMIT 1
+    ),
+    'breakdown', jsonb_build_object(
+      'platform', COALESCE((SELECT entries FROM breakdown WHERE by_platform), '[]'::jsonb),
+      'mediaType', COALESCE((SELECT entries FROM breakdown WHERE NOT by_platform), '[]'::jsonb)
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_analytics_summary(DATE, DATE, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_analytics_summary(DATE, DATE, DATE, DATE) TO authenticated;
@@ -0,0 +1,151 @@
+-- Counts posts towards the summary periods by the calendar day of posted_at in the workspace's
+-- timezone (an IANA name, passed as p_timezone), the same boundaries recompute_daily_metrics
+-- buckets daily_metrics by. Comparing posted_at with the DATE arguments directly put the
+-- boundaries at the session's (UTC) midnight, so the summary cards and the daily chart
+-- disagreed for any workspace outside UTC.
+--
+-- Apply after workspace_timezone.sql; the rest of the function is unchanged from
+-- workspace_functions.sql.
+DROP FUNCTION IF EXISTS get_analytics_summary(UUID, DATE, DATE, DATE, DATE);
+
+CREATE OR REPLACE FUNCTION get_analytics_summary(
+  p_workspace_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_timezone TEXT,
+  p_compare_start_date DATE DEFAULT NULL,
+  p_compare_end_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  -- Local midnight to local midnight, like recompute_daily_metrics
+  WITH bounds AS (
+    SELECT
+      p_start_date::timestamp AT TIME ZONE p_timezone AS current_start,
+      (p_end_date + 1)::timestamp AT TIME ZONE p_timezone AS current_end,
+      p_compare_start_date::timestamp AT TIME ZONE p_timezone AS previous_start,
+      (p_compare_end_date + 1)::timestamp AT TIME ZONE p_timezone AS previous_end
+  ),
+  scoped AS (
+    SELECT
+      p.id,
+      p.caption,
+      p.platform,
+      p.media_type,
+      p.posted_at,
+      p.likes,
+      p.comments,
+      p.shares,
+      p.reach,
+      p.impressions,
+      p.engagement_rate,
+      COALESCE(p.likes, 0) + COALESCE(p.comments, 0) + COALESCE(p.shares, 0) + COALESCE(p.saves, 0) AS engagement,
+      CASE
+        WHEN p.posted_at >= b.current_start AND p.posted_at < b.current_end THEN 'current'
+        ELSE 'previous'
+      END AS period
+    FROM posts p
+    CROSS JOIN bounds b
+    WHERE p.workspace_id = p_workspace_id
+      AND (
+        (p.posted_at >= b.current_start AND p.posted_at < b.current_end)
+        OR (
+          p_compare_start_date IS NOT NULL
+          AND p.posted_at >= b.previous_start
+          AND p.posted_at < b.previous_end
+        )
+      )
+  ),
+  grouped AS (
+    SELECT
+      period,
+      platform,
+      media_type,
+      GROUPING(platform) = 0 AS by_platform,
+      GROUPING(media_type) = 0 AS by_media_type,
+      COALESCE(SUM(engagement), 0) AS total_engagements,
+      jsonb_build_object(
+        'totalPosts', COUNT(*),
+        'totalViews', COALESCE(SUM(impressions), 0),
+        'totalEngagements', COALESCE(SUM(engagement), 0),
+        -- AVG skips posts without an engagement rate
+        'averageEngagementRate', COALESCE(ROUND(AVG(engagement_rate), 2), 0),
+        'totalReach', COALESCE(SUM(reach), 0),
+        'totalLikes', COALESCE(SUM(likes), 0),
+        'totalComments', COALESCE(SUM(comments), 0),
+        'totalShares', COALESCE(SUM(shares), 0)
+      ) AS metrics
+    FROM scoped
+    GROUP BY GROUPING SETS ((period), (period, platform), (period, media_type))
+  ),
+  totals AS (
+    SELECT period, total_engagements, metrics
+    FROM grouped
+    WHERE NOT by_platform AND NOT by_media_type
+  ),
+  empty AS (
+    SELECT jsonb_build_object(
+      'totalPosts', 0,
+      'totalViews', 0,
+      'totalEngagements', 0,
+      'averageEngagementRate', 0,
+      'totalReach', 0,
+      'totalLikes', 0,
+      'totalComments', 0,
+      'totalShares', 0
+    ) AS metrics
+  ),
+  breakdown AS (
+    SELECT
+      g.by_platform,
+      jsonb_agg(
+        jsonb_build_object('key', CASE WHEN g.by_platform THEN g.platform ELSE g.media_type END)
+          || g.metrics
+          || jsonb_build_object(
+            'engagementShare',
+            COALESCE(ROUND(g.total_engagements * 100.0 / NULLIF(t.total_engagements, 0), 1), 0)
+          )
+        ORDER BY g.total_engagements DESC
+      ) AS entries
+    FROM grouped g
+    JOIN totals t ON t.period = g.period
+    WHERE g.period = 'current' AND (g.by_platform OR g.by_media_type)
+    GROUP BY g.by_platform
+  )
+  SELECT jsonb_build_object(
+    'current', COALESCE(
+      (SELECT metrics FROM totals WHERE period = 'current'),
+      (SELECT metrics FROM empty)
+    ),
+    'previous', CASE
+      WHEN p_compare_start_date IS NULL THEN NULL
+      ELSE COALESCE(
+        (SELECT metrics FROM totals WHERE period = 'previous'),
+        (SELECT metrics FROM empty)
+      )
+    END,
+    'topPost', (
+      SELECT jsonb_build_object(
+        'id', id,
+        'caption', COALESCE(caption, 'No caption'),
+        'engagement', engagement,
+        'postedAt', posted_at
+      )
+      FROM scoped
+      WHERE period = 'current'
+      ORDER BY engagement DESC, posted_at ASC
+      LIMIT 1
+    ),
+    'breakdown', jsonb_build_object(
+      'platform', COALESCE((SELECT entries FROM breakdown WHERE by_platform), '[]'::jsonb),
+      'mediaType', COALESCE((SELECT entries FROM breakdown WHERE NOT by_platform), '[]'::jsonb)
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_analytics_summary(UUID, DATE, DATE, TEXT, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_analytics_summary(UUID, DATE, DATE, TEXT, DATE, DATE) TO authenticated;
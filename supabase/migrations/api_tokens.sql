@@ -0,0 +1,59 @@
+-- Personal API tokens: `Authorization: Bearer ak_...` for scripts that can't hold a cookie session.
+--
+-- Only the SHA-256 hash of a token is stored; the token itself is shown once, when it is created
+-- (POST /api/tokens). token_prefix keeps its first characters so users can tell tokens apart.
+-- Revoking a token deletes its row. expires_at is NULL for tokens that never expire.
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT api_tokens_scopes_check CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'write'])
+);
+
+CREATE INDEX api_tokens_user_id_idx ON api_tokens (user_id);
+
+-- Users list, create and revoke their own tokens. There is no UPDATE policy:
+-- last_used_at is only written by authenticate_api_token below.
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API tokens"
+  ON api_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own API tokens"
+  ON api_tokens FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke their own API tokens"
+  ON api_tokens FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- authenticate_api_token(p_token_hash) returns the owner and scopes of an unexpired token
+-- and records the use; no row for unknown or expired tokens.
+--
+-- Bearer requests arrive without a session, so this runs as anon: SECURITY DEFINER lets it
+-- read the one row matching the hash, and nothing else. The hash is of a 256-bit random
+-- token, so it can't be guessed. The API then signs a short-lived access token for user_id
+-- and every query of the request runs as that user, under RLS.
+CREATE OR REPLACE FUNCTION authenticate_api_token(p_token_hash TEXT)
+RETURNS TABLE (user_id UUID, scopes TEXT[])
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_tokens t
+  SET last_used_at = NOW()
+  WHERE t.token_hash = p_token_hash
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+  RETURNING t.user_id, t.scopes;
+$$;
+
+REVOKE ALL ON FUNCTION authenticate_api_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION authenticate_api_token(TEXT) TO anon, authenticated;
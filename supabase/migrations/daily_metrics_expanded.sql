@@ -0,0 +1,13 @@
+-- Expands daily_metrics beyond engagement and reach, so charts can plot more than one series.
+--
+-- Counters default to 0 like the original columns. follower_count is a daily snapshot
+-- rather than a count of activity, so it stays NULL until it is known.
+ALTER TABLE daily_metrics
+  ADD COLUMN impressions INTEGER DEFAULT 0 CHECK (impressions >= 0),
+  ADD COLUMN likes INTEGER DEFAULT 0 CHECK (likes >= 0),
+  ADD COLUMN comments INTEGER DEFAULT 0 CHECK (comments >= 0),
+  ADD COLUMN shares INTEGER DEFAULT 0 CHECK (shares >= 0),
+  ADD COLUMN saves INTEGER DEFAULT 0 CHECK (saves >= 0),
+  ADD COLUMN follower_count INTEGER CHECK (follower_count >= 0),
+  ADD COLUMN profile_visits INTEGER DEFAULT 0 CHECK (profile_visits >= 0),
+  ADD COLUMN posts_published INTEGER DEFAULT 0 CHECK (posts_published >= 0);
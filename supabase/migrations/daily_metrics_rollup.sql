@@ -0,0 +1,91 @@
+-- Derives daily_metrics from posts, so the chart always agrees with the posts table.
+--
+-- recompute_daily_metrics(p_dates, p_timezone) rebuilds the caller's rows for each date in p_dates.
+-- A post counts towards the calendar day of posted_at in p_timezone (an IANA name such as
+-- 'Europe/Paris'); days without posts are written as zeros, so deleting a day's last post clears it.
+-- Rows are upserted on UNIQUE (user_id, date).
+--
+-- Only the columns that come from posts are written. follower_count and profile_visits are
+-- account-level figures that posts can't provide, so existing values are left untouched.
+--
+-- Returns the number of rows written. Called by POST /api/daily-metrics/recompute and,
+-- for the affected days only, whenever a post is created, updated, deleted or imported.
+--
+-- SECURITY INVOKER keeps RLS in force, and rows are scoped to auth.uid(),
+-- so callers can only ever rebuild their own metrics from their own posts.
+--
+-- Superseded by the workspace-scoped version in workspace_functions.sql.
+CREATE OR REPLACE FUNCTION recompute_daily_metrics(
+  p_dates DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT DISTINCT day
+    FROM unnest(p_dates) AS day
+    WHERE day IS NOT NULL
+  ),
+  totals AS (
+    SELECT
+      d.day,
+      COUNT(p.id) AS posts_published,
+      COALESCE(SUM(p.likes), 0) AS likes,
+      COALESCE(SUM(p.comments), 0) AS comments,
+      COALESCE(SUM(p.shares), 0) AS shares,
+      COALESCE(SUM(p.saves), 0) AS saves,
+      COALESCE(SUM(p.reach), 0) AS reach,
+      COALESCE(SUM(p.impressions), 0) AS impressions
+    FROM days d
+    -- Local midnight to local midnight, written as a range so the posted_at index applies
+    LEFT JOIN posts p
+      ON p.user_id = auth.uid()
+      AND p.posted_at >= d.day::timestamp AT TIME ZONE p_timezone
+      AND p.posted_at < (d.day + 1)::timestamp AT TIME ZONE p_timezone
+    GROUP BY d.day
+  ),
+  upserted AS (
+    INSERT INTO daily_metrics (
+      user_id,
+      date,
+      engagement,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    )
+    SELECT
+      auth.uid(),
+      day,
+      likes + comments + shares + saves,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    FROM totals
+    ON CONFLICT (user_id, date) DO UPDATE SET
+      engagement = EXCLUDED.engagement,
+      reach = EXCLUDED.reach,
+      impressions = EXCLUDED.impressions,
+      likes = EXCLUDED.likes,
+      comments = EXCLUDED.comments,
+      shares = EXCLUDED.shares,
+      saves = EXCLUDED.saves,
+      posts_published = EXCLUDED.posts_published
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM upserted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recompute_daily_metrics(DATE[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION recompute_daily_metrics(DATE[], TEXT) TO authenticated;
@@ -0,0 +1,6 @@
+-- Full-text search over post captions (GET /api/posts?q=...).
+-- The expression must match the one PostgREST generates for
+-- `caption=wfts(english).<query>` so the planner can use the index.
+CREATE INDEX IF NOT EXISTS posts_caption_fts_idx
+  ON posts
+  USING GIN (to_tsvector('english', caption));
@@ -0,0 +1,7 @@
+-- Dedup key for CSV imports (POST /api/posts/import): a user cannot have two posts
+-- with the same permalink, so re-importing a file skips rows that already exist.
+--
+-- NULLs are distinct in a UNIQUE constraint, so posts without a permalink are unaffected.
+-- Remove any existing duplicates before applying this migration.
+ALTER TABLE posts
+  ADD CONSTRAINT posts_user_id_permalink_key UNIQUE (user_id, permalink);
@@ -0,0 +1,43 @@
+-- Row Level Security for posts and daily_metrics: each user reads and writes only their own rows.
+--
+-- Apply right after posts.sql and daily_metrics.sql, so the tables are never exposed to the
+-- anon key without RLS. UPDATE policies check the row both before (USING) and after
+-- (WITH CHECK) the change, so a row can't be handed to another user.
+--
+-- workspaces.sql replaces these policies with workspace membership checks.
+ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own posts"
+  ON posts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own posts"
+  ON posts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own posts"
+  ON posts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own posts"
+  ON posts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own metrics"
+  ON daily_metrics FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own metrics"
+  ON daily_metrics FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own metrics"
+  ON daily_metrics FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own metrics"
+  ON daily_metrics FOR DELETE
+  USING (auth.uid() = user_id);
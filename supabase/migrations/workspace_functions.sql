@@ -0,0 +1,217 @@
+-- Scopes get_analytics_summary and recompute_daily_metrics to a workspace (see workspaces.sql)
+-- instead of auth.uid(). Apply after workspaces.sql; the bodies are otherwise unchanged, see
+-- analytics_summary_function.sql and daily_metrics_rollup.sql for what they compute.
+--
+-- Both stay SECURITY INVOKER, so RLS limits them to workspaces the caller belongs to:
+-- any member can read the summary, and only owners, admins and analysts can write the
+-- recomputed rows.
+DROP FUNCTION IF EXISTS get_analytics_summary(DATE, DATE, DATE, DATE);
+DROP FUNCTION IF EXISTS recompute_daily_metrics(DATE[], TEXT);
+
+CREATE OR REPLACE FUNCTION get_analytics_summary(
+  p_workspace_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_compare_start_date DATE DEFAULT NULL,
+  p_compare_end_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      p.id,
+      p.caption,
+      p.platform,
+      p.media_type,
+      p.posted_at,
+      p.likes,
+      p.comments,
+      p.shares,
+      p.reach,
+      p.impressions,
+      p.engagement_rate,
+      COALESCE(p.likes, 0) + COALESCE(p.comments, 0) + COALESCE(p.shares, 0) + COALESCE(p.saves, 0) AS engagement,
+      CASE
+        WHEN p.posted_at >= p_start_date AND p.posted_at < p_end_date + 1 THEN 'current'
+        ELSE 'previous'
+      END AS period
+    FROM posts p
+    WHERE p.workspace_id = p_workspace_id
+      AND (
+        (p.posted_at >= p_start_date AND p.posted_at < p_end_date + 1)
+        OR (
+          p_compare_start_date IS NOT NULL
+          AND p.posted_at >= p_compare_start_date
+          AND p.posted_at < p_compare_end_date + 1
+        )
+      )
+  ),
+  grouped AS (
+    SELECT
+      period,
+      platform,
+      media_type,
+      GROUPING(platform) = 0 AS by_platform,
+      GROUPING(media_type) = 0 AS by_media_type,
+      COALESCE(SUM(engagement), 0) AS total_engagements,
+      jsonb_build_object(
+        'totalPosts', COUNT(*),
+        'totalViews', COALESCE(SUM(impressions), 0),
+        'totalEngagements', COALESCE(SUM(engagement), 0),
+        -- AVG skips posts without an engagement rate
+        'averageEngagementRate', COALESCE(ROUND(AVG(engagement_rate), 2), 0),
+        'totalReach', COALESCE(SUM(reach), 0),
+        'totalLikes', COALESCE(SUM(likes), 0),
+        'totalComments', COALESCE(SUM(comments), 0),
+        'totalShares', COALESCE(SUM(shares), 0)
+      ) AS metrics
+    FROM scoped
+    GROUP BY GROUPING SETS ((period), (period, platform), (period, media_type))
+  ),
+  totals AS (
+    SELECT period, total_engagements, metrics
+    FROM grouped
+    WHERE NOT by_platform AND NOT by_media_type
+  ),
+  empty AS (
+    SELECT jsonb_build_object(
+      'totalPosts', 0,
+      'totalViews', 0,
+      'totalEngagements', 0,
+      'averageEngagementRate', 0,
+      'totalReach', 0,
+      'totalLikes', 0,
+      'totalComments', 0,
+      'totalShares', 0
+    ) AS metrics
+  ),
+  breakdown AS (
+    SELECT
+      g.by_platform,
+      jsonb_agg(
+        jsonb_build_object('key', CASE WHEN g.by_platform THEN g.platform ELSE g.media_type END)
+          || g.metrics
+          || jsonb_build_object(
+            'engagementShare',
+            COALESCE(ROUND(g.total_engagements * 100.0 / NULLIF(t.total_engagements, 0), 1), 0)
+          )
+        ORDER BY g.total_engagements DESC
+      ) AS entries
+    FROM grouped g
+    JOIN totals t ON t.period = g.period
+    WHERE g.period = 'current' AND (g.by_platform OR g.by_media_type)
+    GROUP BY g.by_platform
+  )
+  SELECT jsonb_build_object(
+    'current', COALESCE(
+      (SELECT metrics FROM totals WHERE period = 'current'),
+      (SELECT metrics FROM empty)
+    ),
+    'previous', CASE
+      WHEN p_compare_start_date IS NULL THEN NULL
+      ELSE COALESCE(
+        (SELECT metrics FROM totals WHERE period = 'previous'),
+        (SELECT metrics FROM empty)
+      )
+    END,
+    'topPost', (
+      SELECT jsonb_build_object(
+        'id', id,
+        'caption', COALESCE(caption, 'No caption'),
+        'engagement', engagement,
+        'postedAt', posted_at
+      )
+      FROM scoped
+      WHERE period = 'current'
+      ORDER BY engagement DESC, posted_at ASC
+      LIMIT 1
+    ),
+    'breakdown', jsonb_build_object(
+      'platform', COALESCE((SELECT entries FROM breakdown WHERE by_platform), '[]'::jsonb),
+      'mediaType', COALESCE((SELECT entries FROM breakdown WHERE NOT by_platform), '[]'::jsonb)
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_analytics_summary(UUID, DATE, DATE, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_analytics_summary(UUID, DATE, DATE, DATE, DATE) TO authenticated;
+
+CREATE OR REPLACE FUNCTION recompute_daily_metrics(
+  p_workspace_id UUID,
+  p_dates DATE[],
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT DISTINCT day
+    FROM unnest(p_dates) AS day
+    WHERE day IS NOT NULL
+  ),
+  totals AS (
+    SELECT
+      d.day,
+      COUNT(p.id) AS posts_published,
+      COALESCE(SUM(p.likes), 0) AS likes,
+      COALESCE(SUM(p.comments), 0) AS comments,
+      COALESCE(SUM(p.shares), 0) AS shares,
+      COALESCE(SUM(p.saves), 0) AS saves,
+      COALESCE(SUM(p.reach), 0) AS reach,
+      COALESCE(SUM(p.impressions), 0) AS impressions
+    FROM days d
+    -- Local midnight to local midnight, written as a range so the posted_at index applies
+    LEFT JOIN posts p
+      ON p.workspace_id = p_workspace_id
+      AND p.posted_at >= d.day::timestamp AT TIME ZONE p_timezone
+      AND p.posted_at < (d.day + 1)::timestamp AT TIME ZONE p_timezone
+    GROUP BY d.day
+  ),
+  upserted AS (
+    INSERT INTO daily_metrics (
+      workspace_id,
+      date,
+      engagement,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    )
+    SELECT
+      p_workspace_id,
+      day,
+      likes + comments + shares + saves,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    FROM totals
+    ON CONFLICT (workspace_id, date) DO UPDATE SET
+      engagement = EXCLUDED.engagement,
+      reach = EXCLUDED.reach,
+      impressions = EXCLUDED.impressions,
+      likes = EXCLUDED.likes,
+      comments = EXCLUDED.comments,
+      shares = EXCLUDED.shares,
+      saves = EXCLUDED.saves,
+      posts_published = EXCLUDED.posts_published
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM upserted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recompute_daily_metrics(UUID, DATE[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION recompute_daily_metrics(UUID, DATE[], TEXT) TO authenticated;
@@ -0,0 +1,172 @@
+-- People join a workspace by accepting an invitation. Owners and admins invite an email address,
+-- whether or not it has an account yet; whoever signs in with that (confirmed) address sees the
+-- invitation and accepts or declines it. Inviting never reveals whether an address is registered,
+-- and nobody is added to a workspace without agreeing.
+--
+-- Replaces add_workspace_member, which looked the account up by email: its "no account" error told
+-- any admin which addresses are registered, and it added people without asking them.
+DROP FUNCTION add_workspace_member(UUID, TEXT, TEXT);
+
+CREATE TABLE workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL CHECK (email = lower(email) AND char_length(email) BETWEEN 3 AND 254),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'analyst', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX workspace_invitations_email_idx ON workspace_invitations (email);
+
+-- The current user's email once confirmed, lowercased like invitation emails; NULL otherwise,
+-- so an unconfirmed signup with someone else's address can't see or accept their invitations.
+-- SECURITY DEFINER: clients can't read auth.users, and this only reads the caller's own row.
+CREATE OR REPLACE FUNCTION invitation_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+$$;
+
+-- RLS: owners and admins manage their workspaces' invitations (only owners invite owners);
+-- invitees see and decline their own. There is no INSERT policy on workspace_members:
+-- accepting goes through accept_workspace_invitation.
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and invitees can view invitations"
+  ON workspace_invitations FOR SELECT
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'admin']) OR email = invitation_email());
+
+CREATE POLICY "Owners and admins can invite"
+  ON workspace_invitations FOR INSERT
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND (
+      has_workspace_role(workspace_id, ARRAY['owner'])
+      OR (role <> 'owner' AND has_workspace_role(workspace_id, ARRAY['admin']))
+    )
+  );
+
+-- Inviting an address again changes the role it is invited with
+CREATE POLICY "Owners and admins can update invitations"
+  ON workspace_invitations FOR UPDATE
+  USING (
+    has_workspace_role(workspace_id, ARRAY['owner'])
+    OR (role <> 'owner' AND has_workspace_role(workspace_id, ARRAY['admin']))
+  )
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND (
+      has_workspace_role(workspace_id, ARRAY['owner'])
+      OR (role <> 'owner' AND has_workspace_role(workspace_id, ARRAY['admin']))
+    )
+  );
+
+CREATE POLICY "Admins can cancel and invitees decline invitations"
+  ON workspace_invitations FOR DELETE
+  USING (
+    email = invitation_email()
+    OR has_workspace_role(workspace_id, ARRAY['owner'])
+    OR (role <> 'owner' AND has_workspace_role(workspace_id, ARRAY['admin']))
+  );
+
+-- The current user's pending invitations, with the name of each workspace (which invitees
+-- can't read until they join)
+CREATE OR REPLACE FUNCTION get_my_workspace_invitations()
+RETURNS TABLE (id UUID, workspace_id UUID, workspace_name TEXT, role TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.workspace_id, w.name, i.role, i.created_at
+  FROM workspace_invitations i
+  JOIN workspaces w ON w.id = i.workspace_id
+  WHERE i.email = invitation_email()
+  ORDER BY i.created_at;
+$$;
+
+-- accept_workspace_invitation(p_invitation_id) makes the invitee a member with the invited role
+-- and deletes the invitation. Someone who is already a member keeps their role.
+CREATE OR REPLACE FUNCTION accept_workspace_invitation(p_invitation_id UUID)
+RETURNS workspace_members
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation workspace_invitations;
+  v_member workspace_members;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM workspace_invitations
+  WHERE id = p_invitation_id AND email = invitation_email();
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (v_invitation.workspace_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  DELETE FROM workspace_invitations WHERE id = v_invitation.id;
+
+  SELECT * INTO v_member
+  FROM workspace_members
+  WHERE workspace_id = v_invitation.workspace_id AND user_id = auth.uid();
+
+  RETURN v_member;
+END;
+$$;
+
+-- set_workspace_member_role(p_workspace_id, p_user_id, p_role) changes an existing member's role,
+-- with the same rules as before: owners manage everyone; admins manage everyone but owners,
+-- and can't make anyone an owner. The keep_workspace_owner trigger still applies.
+CREATE OR REPLACE FUNCTION set_workspace_member_role(p_workspace_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS workspace_members
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role TEXT := workspace_role(p_workspace_id);
+  v_member workspace_members;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role NOT IN ('owner', 'admin') OR (p_role = 'owner' AND v_caller_role <> 'owner') THEN
+    RAISE EXCEPTION 'Not allowed to manage members of this workspace' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_member FROM workspace_members WHERE workspace_id = p_workspace_id AND user_id = p_user_id;
+
+  IF v_member.user_id IS NULL THEN
+    RAISE EXCEPTION 'Workspace member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_member.role = 'owner' AND v_caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Not allowed to manage members of this workspace' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE workspace_members
+  SET role = p_role
+  WHERE workspace_id = p_workspace_id AND user_id = p_user_id
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION invitation_email() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_my_workspace_invitations() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION accept_workspace_invitation(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_workspace_member_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invitation_email() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_workspace_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_workspace_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_workspace_member_role(UUID, UUID, TEXT) TO authenticated;
@@ -0,0 +1,21 @@
+-- The time zone a workspace's daily_metrics are bucketed in (an IANA name, e.g. Europe/Paris).
+-- Every member's post changes, imports and recomputes use it, so day boundaries no longer
+-- depend on who wrote last. Owners and admins change it (PATCH /api/workspace).
+--
+-- Existing workspaces start with the timezone their creator last recomputed in, which was
+-- saved in the user's metadata, or UTC.
+ALTER TABLE workspaces ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+UPDATE workspaces w
+SET timezone = u.raw_user_meta_data ->> 'timezone'
+FROM auth.users u
+WHERE u.id = w.created_by
+  AND u.raw_user_meta_data ->> 'timezone' IN (SELECT name FROM pg_timezone_names);
+
+-- The UPDATE policy now covers more than the name
+DROP POLICY "Owners and admins can rename workspaces" ON workspaces;
+
+CREATE POLICY "Owners and admins can update workspaces"
+  ON workspaces FOR UPDATE
+  USING (has_workspace_role(id, ARRAY['owner', 'admin']))
+  WITH CHECK (has_workspace_role(id, ARRAY['owner', 'admin']));
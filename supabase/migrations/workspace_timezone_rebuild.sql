@@ -0,0 +1,138 @@
+-- Keeps every daily_metrics row of a workspace bucketed in the workspace's timezone:
+--
+-- * workspaces.timezone only accepts time zones Postgres knows, so `AT TIME ZONE` can't fail
+--   later for a value written straight through the UPDATE policy.
+-- * recompute_daily_metrics reads the timezone from the workspace instead of taking it as an
+--   argument, so no caller can write days with other boundaries.
+-- * Changing the timezone rebuilds, in the same transaction, every day the workspace has
+--   metrics for or posts on, so no day is left bucketed in the old one.
+--
+-- Apply after workspace_timezone.sql.
+CREATE OR REPLACE FUNCTION check_workspace_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER workspaces_check_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON workspaces
+  FOR EACH ROW EXECUTE FUNCTION check_workspace_timezone();
+
+-- Same as workspace_functions.sql, in the workspace's timezone. A workspace the caller can't
+-- see rebuilds nothing.
+DROP FUNCTION IF EXISTS recompute_daily_metrics(UUID, DATE[], TEXT);
+
+CREATE OR REPLACE FUNCTION recompute_daily_metrics(
+  p_workspace_id UUID,
+  p_dates DATE[]
+)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH workspace AS (
+    SELECT id, timezone FROM workspaces WHERE id = p_workspace_id
+  ),
+  days AS (
+    SELECT DISTINCT day
+    FROM unnest(p_dates) AS day
+    WHERE day IS NOT NULL
+  ),
+  totals AS (
+    SELECT
+      d.day,
+      COUNT(p.id) AS posts_published,
+      COALESCE(SUM(p.likes), 0) AS likes,
+      COALESCE(SUM(p.comments), 0) AS comments,
+      COALESCE(SUM(p.shares), 0) AS shares,
+      COALESCE(SUM(p.saves), 0) AS saves,
+      COALESCE(SUM(p.reach), 0) AS reach,
+      COALESCE(SUM(p.impressions), 0) AS impressions
+    FROM workspace w
+    CROSS JOIN days d
+    -- Local midnight to local midnight, written as a range so the posted_at index applies
+    LEFT JOIN posts p
+      ON p.workspace_id = w.id
+      AND p.posted_at >= d.day::timestamp AT TIME ZONE w.timezone
+      AND p.posted_at < (d.day + 1)::timestamp AT TIME ZONE w.timezone
+    GROUP BY d.day
+  ),
+  upserted AS (
+    INSERT INTO daily_metrics (
+      workspace_id,
+      date,
+      engagement,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    )
+    SELECT
+      p_workspace_id,
+      day,
+      likes + comments + shares + saves,
+      reach,
+      impressions,
+      likes,
+      comments,
+      shares,
+      saves,
+      posts_published
+    FROM totals
+    ON CONFLICT (workspace_id, date) DO UPDATE SET
+      engagement = EXCLUDED.engagement,
+      reach = EXCLUDED.reach,
+      impressions = EXCLUDED.impressions,
+      likes = EXCLUDED.likes,
+      comments = EXCLUDED.comments,
+      shares = EXCLUDED.shares,
+      saves = EXCLUDED.saves,
+      posts_published = EXCLUDED.posts_published
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM upserted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recompute_daily_metrics(UUID, DATE[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION recompute_daily_metrics(UUID, DATE[]) TO authenticated;
+
+-- Days with metrics keep their row (zeroed if no post falls on them any more), and days with
+-- posts get one. SECURITY INVOKER: only owners and admins can change the timezone, and both
+-- can write daily_metrics.
+CREATE OR REPLACE FUNCTION rebuild_daily_metrics_for_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM recompute_daily_metrics(
+    NEW.id,
+    ARRAY(
+      SELECT date FROM daily_metrics WHERE workspace_id = NEW.id
+      UNION
+      SELECT (posted_at AT TIME ZONE NEW.timezone)::date FROM posts WHERE workspace_id = NEW.id
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER workspaces_rebuild_daily_metrics
+  AFTER UPDATE OF timezone ON workspaces
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION rebuild_daily_metrics_for_timezone();
@@ -0,0 +1,295 @@
+-- Team workspaces: posts and daily_metrics belong to a workspace instead of a single user,
+-- and people share a workspace through memberships with a role:
+--   owner    everything, including managing owners and deleting the workspace
+--   admin    manage members other than owners, and edit data
+--   analyst  create, edit, import and delete posts; recompute metrics
+--   viewer   read only
+--
+-- Every user gets a personal workspace when they sign up, and existing users get one here
+-- holding their existing posts and metrics, so nobody starts without a workspace.
+CREATE TABLE workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE workspace_members (
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'analyst', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX workspace_members_user_id_idx ON workspace_members (user_id);
+
+-- workspace_role(p_workspace_id) is the current user's role in a workspace, NULL for non-members.
+-- SECURITY DEFINER so policies can call it without recursing into workspace_members' own policies.
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_workspace_role(p_workspace_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(workspace_role(p_workspace_id) = ANY (p_roles), false);
+$$;
+
+-- Workspaces are created with their creator as owner in one step, so there is no INSERT
+-- policy on workspaces or workspace_members.
+CREATE OR REPLACE FUNCTION create_workspace(p_name TEXT)
+RETURNS workspaces
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace workspaces;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO workspaces (name, created_by) VALUES (p_name, auth.uid()) RETURNING * INTO v_workspace;
+  INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (v_workspace.id, auth.uid(), 'owner');
+
+  RETURN v_workspace;
+END;
+$$;
+
+-- add_workspace_member(p_workspace_id, p_email, p_role) adds the account with p_email,
+-- or changes its role if it is already a member. Owners manage everyone; admins manage
+-- everyone but owners, and can't make anyone an owner.
+CREATE OR REPLACE FUNCTION add_workspace_member(p_workspace_id UUID, p_email TEXT, p_role TEXT)
+RETURNS workspace_members
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_role TEXT := workspace_role(p_workspace_id);
+  v_user_id UUID;
+  v_member workspace_members;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role NOT IN ('owner', 'admin') OR (p_role = 'owner' AND v_caller_role <> 'owner') THEN
+    RAISE EXCEPTION 'Not allowed to manage members of this workspace' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account with this email' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_caller_role <> 'owner'
+    AND EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_id = p_workspace_id AND user_id = v_user_id AND role = 'owner'
+    ) THEN
+    RAISE EXCEPTION 'Not allowed to manage members of this workspace' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role)
+  VALUES (p_workspace_id, v_user_id, p_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+-- Members with their email (auth.users isn't readable by clients), for members of the workspace only
+CREATE OR REPLACE FUNCTION get_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, u.email::TEXT, m.role, m.created_at
+  FROM workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.workspace_id = p_workspace_id
+    AND workspace_role(p_workspace_id) IS NOT NULL
+  ORDER BY m.created_at, u.email;
+$$;
+
+REVOKE ALL ON FUNCTION create_workspace(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION add_workspace_member(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_workspace_members(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_workspace(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_workspace_member(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_workspace_members(UUID) TO authenticated;
+
+-- A workspace always keeps an owner: the last one can't leave, be removed or be demoted.
+-- Deleting the workspace, or the owner's account, still cascades.
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM workspace_members
+      WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+    ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER workspace_members_keep_owner
+  BEFORE UPDATE OR DELETE ON workspace_members
+  FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- Personal workspace for every new account
+CREATE OR REPLACE FUNCTION create_personal_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id UUID;
+BEGIN
+  INSERT INTO workspaces (name, created_by) VALUES ('Personal', NEW.id) RETURNING id INTO v_workspace_id;
+  INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (v_workspace_id, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_workspace
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION create_personal_workspace();
+
+-- Existing accounts: a personal workspace each, holding their data
+INSERT INTO workspaces (name, created_by) SELECT 'Personal', id FROM auth.users;
+INSERT INTO workspace_members (workspace_id, user_id, role) SELECT id, created_by, 'owner' FROM workspaces;
+
+-- The user_id policies are replaced below. Projects set up before rls_policies.sql created
+-- them in the dashboard, so their names vary.
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('posts', 'daily_metrics')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+-- posts: owned by a workspace. user_id now records who added a post, so posts stay
+-- in the workspace when that person leaves or deletes their account.
+ALTER TABLE posts ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+UPDATE posts p SET workspace_id = w.id FROM workspaces w WHERE w.created_by = p.user_id;
+ALTER TABLE posts ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE posts
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT posts_user_id_fkey,
+  ADD CONSTRAINT posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Import dedup key (see posts_permalink_unique.sql) is now per workspace
+ALTER TABLE posts
+  DROP CONSTRAINT posts_user_id_permalink_key,
+  ADD CONSTRAINT posts_workspace_id_permalink_key UNIQUE (workspace_id, permalink);
+
+CREATE INDEX posts_workspace_id_posted_at_idx ON posts (workspace_id, posted_at);
+
+-- daily_metrics: one row per workspace and day
+ALTER TABLE daily_metrics ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+UPDATE daily_metrics d SET workspace_id = w.id FROM workspaces w WHERE w.created_by = d.user_id;
+ALTER TABLE daily_metrics ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE daily_metrics
+  DROP CONSTRAINT daily_metrics_user_id_date_key,
+  ADD CONSTRAINT daily_metrics_workspace_id_date_key UNIQUE (workspace_id, date),
+  DROP COLUMN user_id;
+
+-- RLS: members read their workspaces' data; owners, admins and analysts change it
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT
+  USING (workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners and admins can rename workspaces"
+  ON workspaces FOR UPDATE
+  USING (has_workspace_role(id, ARRAY['owner', 'admin']))
+  WITH CHECK (has_workspace_role(id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners can delete workspaces"
+  ON workspaces FOR DELETE
+  USING (has_workspace_role(id, ARRAY['owner']));
+
+CREATE POLICY "Members can view their workspaces' members"
+  ON workspace_members FOR SELECT
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- Members can leave; owners remove anyone, admins anyone but owners
+CREATE POLICY "Owners and admins can remove members"
+  ON workspace_members FOR DELETE
+  USING (
+    user_id = auth.uid()
+    OR has_workspace_role(workspace_id, ARRAY['owner'])
+    OR (role <> 'owner' AND has_workspace_role(workspace_id, ARRAY['admin']))
+  );
+
+CREATE POLICY "Members can view workspace posts"
+  ON posts FOR SELECT
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors can add workspace posts"
+  ON posts FOR INSERT
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']) AND user_id = auth.uid());
+
+CREATE POLICY "Editors can update workspace posts"
+  ON posts FOR UPDATE
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']));
+
+CREATE POLICY "Editors can delete workspace posts"
+  ON posts FOR DELETE
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']));
+
+CREATE POLICY "Members can view workspace metrics"
+  ON daily_metrics FOR SELECT
+  USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors can add workspace metrics"
+  ON daily_metrics FOR INSERT
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']));
+
+CREATE POLICY "Editors can update workspace metrics"
+  ON daily_metrics FOR UPDATE
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']))
+  WITH CHECK (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']));
+
+CREATE POLICY "Editors can delete workspace metrics"
+  ON daily_metrics FOR DELETE
+  USING (has_workspace_role(workspace_id, ARRAY['owner', 'admin', 'analyst']));
@@ -55,8 +55,10 @@ INSERT INTO "auth"."users" (
     'false'
   );
 
--- Insert sample posts (20 posts total, 11 for zar, 9 for test_user)
+-- Insert sample posts (20 posts total, 11 for zar, 9 for test_user), each into its
+-- author's personal workspace (created for them by workspaces.sql)
 INSERT INTO posts (
+  workspace_id,
   user_id,
   platform,
   caption,
@@ -71,7 +73,10 @@ INSERT INTO posts (
   impressions,
   engagement_rate,
   permalink
-) VALUES
+)
+SELECT w.id, v.user_id::uuid, v.platform, v.caption, v.thumbnail_url, v.media_type, v.posted_at,
+  v.likes, v.comments, v.shares, v.saves, v.reach, v.impressions, v.engagement_rate, v.permalink
+FROM (VALUES
   -- User 1 posts (11 posts)
   ('9747bcab-47cf-44fe-8001-542d7b0c9225', 'instagram', 'Excited to share our latest product launch! 🚀 What do you think? #startup #launch', 'https://picsum.photos/seed/post1/400/400', 'image', NOW() - INTERVAL '2 days' - INTERVAL '14 hours' - INTERVAL '30 minutes', 1243, 89, 45, 156, 15420, 18650, 8.2, 'https://instagram.com/p/example1'),
   ('9747bcab-47cf-44fe-8001-542d7b0c9225', 'tiktok', 'Behind the scenes of our creative process 🎬 #bts #creative', 'https://picsum.photos/seed/post2/400/400', 'video', NOW() - INTERVAL '3 days' - INTERVAL '2 hours', 5621, 234, 189, 423, 45000, 52000, 12.5, 'https://tiktok.com/@example/video/123'),
@@ -94,10 +99,17 @@ INSERT INTO posts (
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', 'instagram', 'Behind the design: Why we chose this color palette 🎨', 'https://picsum.photos/seed/post15/400/400', 'carousel', NOW() - INTERVAL '13 days' - INTERVAL '10 hours', 1123, 67, 32, 134, 10100, 11800, 7.1, 'https://instagram.com/p/example15'),
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', 'tiktok', '5 things we learned in our first year 🚀', 'https://picsum.photos/seed/post16/400/400', 'video', NOW() - INTERVAL '15 days' - INTERVAL '7 hours' - INTERVAL '30 minutes', 8900, 378, 267, 456, 76000, 88000, 11.2, 'https://tiktok.com/@example2/video/404'),
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', 'instagram', 'Thank you to everyone who supported us this year! 🙌', 'https://picsum.photos/seed/post17/400/400', 'image', NOW() - INTERVAL '17 days' - INTERVAL '12 hours' - INTERVAL '1 minute', 2340, 178, 89, 267, 19800, 23400, 9.4, 'https://instagram.com/p/example17'),
-  ('c7314439-9ecd-465a-bc89-c76301e7d4d9', 'tiktok', 'Testing our new feature live! Watch us break things 🔥', 'https://picsum.photos/seed/post18/400/400', 'video', NOW() - INTERVAL '18 days' - INTERVAL '5 hours' - INTERVAL '45 minutes', 14500, 512, 401, 789, 108000, 125000, 13.1, 'https://tiktok.com/@example2/video/505');
+  ('c7314439-9ecd-465a-bc89-c76301e7d4d9', 'tiktok', 'Testing our new feature live! Watch us break things 🔥', 'https://picsum.photos/seed/post18/400/400', 'video', NOW() - INTERVAL '18 days' - INTERVAL '5 hours' - INTERVAL '45 minutes', 14500, 512, 401, 789, 108000, 125000, 13.1, 'https://tiktok.com/@example2/video/505')
+) AS v(
+  user_id, platform, caption, thumbnail_url, media_type, posted_at,
+  likes, comments, shares, saves, reach, impressions, engagement_rate, permalink
+)
+JOIN workspaces w ON w.created_by = v.user_id::uuid;
 
--- Insert daily metrics for 30 days (from today backward) for both users
-INSERT INTO daily_metrics (user_id, date, engagement, reach) VALUES
+-- Insert daily metrics for 30 days (from today backward) for both users' personal workspaces
+INSERT INTO daily_metrics (workspace_id, date, engagement, reach)
+SELECT w.id, v.date, v.engagement, v.reach
+FROM (VALUES
   -- User 1 daily metrics (30 days)
   ('9747bcab-47cf-44fe-8001-542d7b0c9225', CURRENT_DATE - INTERVAL '29 days', 450, 5200),
   ('9747bcab-47cf-44fe-8001-542d7b0c9225', CURRENT_DATE - INTERVAL '28 days', 520, 6100),
@@ -160,4 +172,23 @@ INSERT INTO daily_metrics (user_id, date, engagement, reach) VALUES
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', CURRENT_DATE - INTERVAL '3 days', 660, 7800),
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', CURRENT_DATE - INTERVAL '2 days', 510, 6000),
   ('c7314439-9ecd-465a-bc89-c76301e7d4d9', CURRENT_DATE - INTERVAL '1 day', 590, 7000),
-  ('c7314439-9ecd-465a-bc89-c76301e7d4d9', CURRENT_DATE, 640, 7500);
+  ('c7314439-9ecd-465a-bc89-c76301e7d4d9', CURRENT_DATE, 640, 7500)
+) AS v(user_id, date, engagement, reach)
+JOIN workspaces w ON w.created_by = v.user_id::uuid;
+
+-- Fill the columns added by daily_metrics_expanded.sql: split engagement into its parts,
+-- derive impressions and profile visits from reach, grow followers steadily and count the seeded posts
+UPDATE daily_metrics SET
+  impressions = ROUND(reach * 1.25),
+  likes = ROUND(engagement * 0.7),
+  comments = ROUND(engagement * 0.1),
+  shares = ROUND(engagement * 0.08),
+  saves = engagement - ROUND(engagement * 0.7) - ROUND(engagement * 0.1) - ROUND(engagement * 0.08),
+  follower_count = 12000 + (date - (CURRENT_DATE - 29)) * 35,
+  profile_visits = ROUND(reach * 0.03),
+  posts_published = (
+    SELECT COUNT(*)
+    FROM posts
+    WHERE posts.workspace_id = daily_metrics.workspace_id
+      AND posts.posted_at::date = daily_metrics.date
+  );
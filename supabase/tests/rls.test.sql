@@ -0,0 +1,358 @@
+-- RLS isolation tests for posts and daily_metrics (run with `npm run test:rls`).
+--
+-- Users A and B each own their personal workspace with one post and one day of metrics.
+-- Acting as A, every operation on B's rows must be filtered out (SELECT, UPDATE, DELETE
+-- see no rows) or rejected (INSERT, and UPDATEs that move a row into B's workspace).
+-- A viewer can read a shared workspace but not change it, and workspace invitations are only
+-- visible to and accepted by the invitee. Changing a workspace's timezone rebuilds its metrics.
+-- Each check raises on failure, which stops psql with a non-zero exit code.
+
+-- Helpers, run as the calling role so RLS applies to the statements they execute
+CREATE SCHEMA rls_test;
+GRANT USAGE ON SCHEMA rls_test TO anon, authenticated;
+
+CREATE TABLE rls_test.ids (name TEXT PRIMARY KEY, id UUID NOT NULL);
+GRANT SELECT ON rls_test.ids TO anon, authenticated;
+
+CREATE FUNCTION rls_test.id(p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT id FROM rls_test.ids WHERE name = p_name;
+$$;
+
+-- Rows a query returns
+CREATE FUNCTION rls_test.count(p_sql TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count BIGINT;
+BEGIN
+  EXECUTE format('SELECT count(*) FROM (%s) q', p_sql) INTO v_count;
+  RETURN v_count;
+END;
+$$;
+
+-- Rows an INSERT, UPDATE or DELETE changes
+CREATE FUNCTION rls_test.affected(p_sql TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count BIGINT;
+BEGIN
+  EXECUTE p_sql;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Whether a statement is rejected by a policy (or a missing grant)
+CREATE FUNCTION rls_test.denied(p_sql TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  EXECUTE p_sql;
+  RETURN false;
+EXCEPTION WHEN insufficient_privilege THEN
+  RETURN true;
+END;
+$$;
+
+-- Whether a statement fails with the given SQLSTATE
+CREATE FUNCTION rls_test.raises(p_sql TEXT, p_sqlstate TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  EXECUTE p_sql;
+  RETURN false;
+EXCEPTION WHEN OTHERS THEN
+  RETURN SQLSTATE = p_sqlstate;
+END;
+$$;
+
+CREATE FUNCTION rls_test.ok(p_passed BOOLEAN, p_description TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_passed IS NOT TRUE THEN
+    RAISE EXCEPTION 'not ok - %', p_description;
+  END IF;
+  RAISE NOTICE 'ok - %', p_description;
+END;
+$$;
+
+-- Fixtures, as the superuser. Signing up creates each user's personal workspace.
+INSERT INTO auth.users (id, email, email_confirmed_at) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'a@example.com', NOW()),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'b@example.com', NOW());
+
+INSERT INTO rls_test.ids (name, id)
+SELECT 'user_' || split_part(email, '@', 1), id FROM auth.users;
+
+INSERT INTO rls_test.ids (name, id)
+SELECT 'workspace_' || split_part(u.email, '@', 1), w.id
+FROM workspaces w
+JOIN auth.users u ON u.id = w.created_by;
+
+INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at, likes, permalink) VALUES
+  (rls_test.id('workspace_a'), rls_test.id('user_a'), 'instagram', 'image', '2025-01-01T12:00:00Z', 10, 'https://example.com/p/a'),
+  (rls_test.id('workspace_b'), rls_test.id('user_b'), 'tiktok', 'video', '2025-01-01T12:00:00Z', 20, 'https://example.com/p/b');
+
+INSERT INTO rls_test.ids (name, id)
+SELECT 'post_' || right(permalink, 1), id FROM posts;
+
+INSERT INTO daily_metrics (workspace_id, date, engagement) VALUES
+  (rls_test.id('workspace_a'), '2025-01-01', 10),
+  (rls_test.id('workspace_b'), '2025-01-01', 20);
+
+INSERT INTO rls_test.ids (name, id)
+SELECT 'metrics_' || split_part(u.email, '@', 1), d.id
+FROM daily_metrics d
+JOIN workspaces w ON w.id = d.workspace_id
+JOIN auth.users u ON u.id = w.created_by;
+
+SELECT rls_test.ok((SELECT count(*) FROM rls_test.ids) = 8, 'fixtures are in place');
+
+-- Signed in as user A
+SET ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object('sub', rls_test.id('user_a'), 'role', 'authenticated')::text, false);
+
+-- posts
+SELECT rls_test.ok(rls_test.count($$SELECT * FROM posts$$) = 1, 'A sees only their own post');
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM posts WHERE id = rls_test.id('post_b')$$) = 0,
+  'A cannot select B''s post'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at)
+    VALUES (rls_test.id('workspace_b'), rls_test.id('user_a'), 'instagram', 'image', NOW())
+  $$),
+  'A cannot insert a post into B''s workspace'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at)
+    VALUES (rls_test.id('workspace_a'), rls_test.id('user_b'), 'instagram', 'image', NOW())
+  $$),
+  'A cannot insert a post as B'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE posts SET likes = 0 WHERE id = rls_test.id('post_b')$$) = 0,
+  'A cannot update B''s post'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$UPDATE posts SET workspace_id = rls_test.id('workspace_b') WHERE id = rls_test.id('post_a')$$),
+  'A cannot move their post into B''s workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$DELETE FROM posts WHERE id = rls_test.id('post_b')$$) = 0,
+  'A cannot delete B''s post'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$
+    INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at)
+    VALUES (rls_test.id('workspace_a'), rls_test.id('user_a'), 'instagram', 'carousel', NOW())
+  $$) = 1,
+  'A can insert a post into their own workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE posts SET likes = 11 WHERE id = rls_test.id('post_a')$$) = 1,
+  'A can update their own post'
+);
+
+-- daily_metrics
+SELECT rls_test.ok(rls_test.count($$SELECT * FROM daily_metrics$$) = 1, 'A sees only their own metrics');
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM daily_metrics WHERE id = rls_test.id('metrics_b')$$) = 0,
+  'A cannot select B''s metrics'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO daily_metrics (workspace_id, date, engagement)
+    VALUES (rls_test.id('workspace_b'), '2025-01-02', 0)
+  $$),
+  'A cannot insert metrics into B''s workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE daily_metrics SET engagement = 0 WHERE id = rls_test.id('metrics_b')$$) = 0,
+  'A cannot update B''s metrics'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$
+    UPDATE daily_metrics SET workspace_id = rls_test.id('workspace_b'), date = '2025-01-03'
+    WHERE id = rls_test.id('metrics_a')
+  $$),
+  'A cannot move their metrics into B''s workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$DELETE FROM daily_metrics WHERE id = rls_test.id('metrics_b')$$) = 0,
+  'A cannot delete B''s metrics'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE daily_metrics SET engagement = 11 WHERE id = rls_test.id('metrics_a')$$) = 1,
+  'A can update their own metrics'
+);
+
+-- Not signed in
+SET ROLE anon;
+SELECT set_config('request.jwt.claims', json_build_object('role', 'anon')::text, false);
+
+SELECT rls_test.ok(rls_test.count($$SELECT * FROM posts$$) = 0, 'anon cannot select posts');
+SELECT rls_test.ok(rls_test.count($$SELECT * FROM daily_metrics$$) = 0, 'anon cannot select metrics');
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at)
+    VALUES (rls_test.id('workspace_b'), NULL, 'instagram', 'image', NOW())
+  $$),
+  'anon cannot insert posts'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$DELETE FROM daily_metrics$$) = 0,
+  'anon cannot delete metrics'
+);
+
+-- B's rows are untouched
+RESET ROLE;
+
+SELECT rls_test.ok(
+  (SELECT likes FROM posts WHERE id = rls_test.id('post_b')) = 20
+    AND (SELECT count(*) FROM posts WHERE workspace_id = rls_test.id('workspace_b')) = 1,
+  'B''s posts are unchanged'
+);
+SELECT rls_test.ok(
+  (SELECT engagement FROM daily_metrics WHERE id = rls_test.id('metrics_b')) = 20
+    AND (SELECT count(*) FROM daily_metrics WHERE workspace_id = rls_test.id('workspace_b')) = 1,
+  'B''s metrics are unchanged'
+);
+
+-- B shares their workspace with A as a viewer: A can read it, but still not change it
+INSERT INTO workspace_members (workspace_id, user_id, role)
+VALUES (rls_test.id('workspace_b'), rls_test.id('user_a'), 'viewer');
+
+SET ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object('sub', rls_test.id('user_a'), 'role', 'authenticated')::text, false);
+
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM posts WHERE id = rls_test.id('post_b')$$) = 1,
+  'a viewer can select the workspace''s posts'
+);
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM daily_metrics WHERE id = rls_test.id('metrics_b')$$) = 1,
+  'a viewer can select the workspace''s metrics'
+);
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO posts (workspace_id, user_id, platform, media_type, posted_at)
+    VALUES (rls_test.id('workspace_b'), rls_test.id('user_a'), 'instagram', 'image', NOW())
+  $$),
+  'a viewer cannot insert posts'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE posts SET likes = 0 WHERE id = rls_test.id('post_b')$$) = 0,
+  'a viewer cannot update posts'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$DELETE FROM posts WHERE id = rls_test.id('post_b')$$) = 0,
+  'a viewer cannot delete posts'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE daily_metrics SET engagement = 0 WHERE id = rls_test.id('metrics_b')$$) = 0,
+  'a viewer cannot update metrics'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$DELETE FROM daily_metrics WHERE id = rls_test.id('metrics_b')$$) = 0,
+  'a viewer cannot delete metrics'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE workspaces SET timezone = 'Europe/Paris' WHERE id = rls_test.id('workspace_b')$$) = 0,
+  'a viewer cannot change the workspace timezone'
+);
+
+-- Invitations: only owners and admins invite, and only the confirmed invitee sees and accepts
+SELECT rls_test.ok(
+  rls_test.denied($$
+    INSERT INTO workspace_invitations (workspace_id, email, role, invited_by)
+    VALUES (rls_test.id('workspace_b'), 'c@example.com', 'viewer', rls_test.id('user_a'))
+  $$),
+  'a viewer cannot invite to the workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$
+    INSERT INTO workspace_invitations (workspace_id, email, role, invited_by)
+    VALUES (rls_test.id('workspace_a'), 'b@example.com', 'analyst', rls_test.id('user_a'))
+  $$) = 1,
+  'an owner can invite to their workspace'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$
+    INSERT INTO workspace_invitations (workspace_id, email, role, invited_by)
+    VALUES (rls_test.id('workspace_a'), 'c@example.com', 'viewer', rls_test.id('user_a'))
+  $$) = 1,
+  'an owner can invite an email without an account'
+);
+
+RESET ROLE;
+INSERT INTO auth.users (id, email) VALUES ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'c@example.com');
+
+SET ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object('sub', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'role', 'authenticated')::text, false);
+
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM workspace_invitations$$) = 0
+    AND rls_test.count($$SELECT * FROM get_my_workspace_invitations()$$) = 0,
+  'an unconfirmed email cannot see its invitations'
+);
+
+SELECT set_config('request.jwt.claims', json_build_object('sub', rls_test.id('user_b'), 'role', 'authenticated')::text, false);
+
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM get_my_workspace_invitations() WHERE workspace_name = 'Personal'$$) = 1,
+  'the invitee sees their invitation'
+);
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM workspace_invitations WHERE email = 'c@example.com'$$) = 0,
+  'the invitee cannot see other invitations to the workspace'
+);
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM posts WHERE id = rls_test.id('post_a')$$) = 0,
+  'the invitee cannot select the workspace''s posts before accepting'
+);
+SELECT rls_test.ok(
+  (SELECT role FROM accept_workspace_invitation(
+    (SELECT id FROM get_my_workspace_invitations() WHERE workspace_id = rls_test.id('workspace_a'))
+  )) = 'analyst',
+  'the invitee joins with the invited role'
+);
+SELECT rls_test.ok(
+  rls_test.count($$SELECT * FROM posts WHERE id = rls_test.id('post_a')$$) = 1
+    AND rls_test.count($$SELECT * FROM get_my_workspace_invitations()$$) = 0,
+  'an accepted invitation is used up'
+);
+
+-- Workspace timezone: only known names, and changing it rebuilds the metrics (as B, owner of B's)
+SELECT rls_test.ok(
+  rls_test.raises($$UPDATE workspaces SET timezone = 'Mars/Olympus_Mons' WHERE id = rls_test.id('workspace_b')$$, '22023'),
+  'an unknown timezone is rejected'
+);
+SELECT rls_test.ok(
+  rls_test.affected($$UPDATE workspaces SET timezone = 'Pacific/Kiritimati' WHERE id = rls_test.id('workspace_b')$$) = 1,
+  'an owner can change the workspace timezone'
+);
+-- B's post, at 12:00 UTC on January 1st, is on January 2nd at UTC+14
+SELECT rls_test.ok(
+  rls_test.count($$
+    SELECT * FROM daily_metrics
+    WHERE workspace_id = rls_test.id('workspace_b')
+      AND ((date = '2025-01-01' AND engagement = 0) OR (date = '2025-01-02' AND engagement = 20))
+  $$) = 2,
+  'changing the timezone rebuilds every day in the new one'
+);
+
+RESET ROLE;